@@ -5,20 +5,34 @@ import { TaskList } from './components/TaskList';
 import { Toast } from './components/Toast';
 import { AddTaskModal } from './components/AddTaskModal';
 import { AddSectionModal } from './components/AddSectionModal';
+import { AddProjectModal } from './components/AddProjectModal';
 import { EditTaskPanel } from './components/EditTaskPanel';
 import { ScheduleView } from './components/ScheduleView';
 import { FilterModal } from './components/FilterModal';
 import { SearchBar } from './components/SearchBar';
 import { ProjectDashboard } from './components/ProjectDashboard';
 import { ProjectDetailsPanel } from './components/ProjectDetailsPanel';
-import { ProjectKanbanView } from './components/ProjectKanbanView';
+import { KanbanView } from './components/KanbanView';
 import { ConfirmModal } from './components/ConfirmModal';
 import { FiltersManagementView } from './components/FiltersManagementView';
+import { SettingsView } from './components/SettingsView';
+import { TrashView } from './components/TrashView';
+import { ArchivedProjectsView } from './components/ArchivedProjectsView';
+import { TagsView } from './components/TagsView';
 import { LoadingScreen } from './components/LoadingScreen';
 import { SyncStatusIndicator } from './components/SyncStatusIndicator';
+import { SyncConflictsPanel } from './components/SyncConflictsPanel';
 import { OfflineBanner } from './components/OfflineBanner';
 import { ActiveTimerIndicator } from './components/ActiveTimerIndicator';
+import { CommandPalette } from './components/CommandPalette';
+import { BulkActionBar } from './components/BulkActionBar';
+import { KeyboardShortcutsModal } from './components/KeyboardShortcutsModal';
+import { useTaskOptions } from './hooks/useTaskOptions';
+import { useKeyboardShortcuts, isEditableTarget } from './hooks/useKeyboardShortcuts';
 import { getFormattedTodayDate, parseLocalDate } from './utils/dates';
+import { getRenderedTaskIds, getTaskIdRange } from './utils/taskNavigation';
+import { createFilterContext, createFilterMatcher } from './utils/filterQuery';
+import { isArchivedProject, withoutArchivedTasks } from './utils/projects';
 import { Plus, Sun, Moon, FunnelSimple, Columns, List } from '@phosphor-icons/react';
 import type { Task, Filter, Project } from './types';
 
@@ -31,7 +45,10 @@ export default function App() {
     tasks,
     projects,
     tags,
+    sections,
     filters,
+    trash,
+    taskOptions,
     showCompleted,
     toggleShowCompleted,
     isDarkMode,
@@ -40,12 +57,30 @@ export default function App() {
     fetchAllData,
     confirmModal,
     confirmAction,
+    cancelAction,
+    secondaryAction,
     hideConfirm,
+    setView,
+    completeTask,
+    updateTask,
+    updateTasks,
+    completeTasks,
+    focusedTaskId,
+    setFocusedTask,
+    selectedTaskIds,
+    selectionAnchorId,
+    setTaskSelection,
+    clearTaskSelection,
+    setSearchOpen,
+    undo,
+    redo,
   } = useStore();
+  const { isDone, reopenStatus, defaultStatus, priorities } = useTaskOptions();
   
   // Modal/Panel state
   const [showAddModal, setShowAddModal] = useState(false);
   const [showAddSectionModal, setShowAddSectionModal] = useState(false);
+  const [showAddProjectModal, setShowAddProjectModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [editingFilter, setEditingFilter] = useState<Filter | null>(null);
@@ -53,6 +88,8 @@ export default function App() {
   const [showKanban, setShowKanban] = useState(false);
   const [showProjectDashboard, setShowProjectDashboard] = useState(true);
   const [addSubtaskParent, setAddSubtaskParent] = useState<Task | null>(null);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   
   // Fetch data on mount
   useEffect(() => {
@@ -89,15 +126,120 @@ export default function App() {
     setViewingProject(project);
   }, []);
   
+  // Keyboard navigation follows the rendered order of task rows.
+  // With extendSelection (shift+j/k) the selection grows from the anchor to the new row.
+  const moveTaskFocus = useCallback((delta: number, extendSelection = false) => {
+    const ids = getRenderedTaskIds();
+    if (ids.length === 0) return;
+    const index = focusedTaskId ? ids.indexOf(focusedTaskId) : -1;
+    const next = index === -1
+      ? (delta > 0 ? 0 : ids.length - 1)
+      : Math.min(Math.max(index + delta, 0), ids.length - 1);
+    setFocusedTask(ids[next]);
+    
+    if (extendSelection) {
+      const anchorId = selectionAnchorId ?? (index === -1 ? ids[next] : ids[index]);
+      setTaskSelection(getTaskIdRange(ids, anchorId, ids[next]), anchorId);
+    }
+  }, [focusedTaskId, selectionAnchorId, setFocusedTask, setTaskSelection]);
+  
+  const focusedTask = tasks.find(t => t.id === focusedTaskId) ?? null;
+  
+  const toggleFocusedSelection = () => {
+    if (!focusedTaskId) return;
+    setTaskSelection(
+      selectedTaskIds.includes(focusedTaskId)
+        ? selectedTaskIds.filter(id => id !== focusedTaskId)
+        : [...selectedTaskIds, focusedTaskId],
+      focusedTaskId
+    );
+  };
+  
+  // e and 1-4 act on the selection when there is one, otherwise on the focused task
+  const toggleFocusedTask = () => {
+    if (selectedTaskIds.length > 0) {
+      completeTasks(selectedTaskIds);
+      clearTaskSelection();
+      return;
+    }
+    if (!focusedTask) return;
+    if (isDone(focusedTask.status)) {
+      updateTask(focusedTask.id, { status: reopenStatus, completedDate: null });
+    } else {
+      // The completed row disappears, so move on to the next one first
+      if (!showCompleted) moveTaskFocus(1);
+      completeTask(focusedTask.id);
+    }
+  };
+  
+  // p1 is the highest priority level in the base
+  const setFocusedTaskPriority = (rank: number) => {
+    const option = [...priorities].sort((a, b) => b.level - a.level)[rank - 1];
+    if (!option) return;
+    if (selectedTaskIds.length > 0) {
+      updateTasks(selectedTaskIds.map(id => ({ id, updates: { priority: option.value } })));
+    } else if (focusedTask) {
+      updateTask(focusedTask.id, { priority: option.value });
+    }
+  };
+  
+  const goTo = (view: 'today' | 'inbox' | 'upcoming' | 'projects' | 'filters') => {
+    setView(view);
+    if (view === 'projects') setShowProjectDashboard(true);
+  };
+  
+  const isOverlayOpen = showAddModal || showAddSectionModal || showAddProjectModal || showFilterModal || showCommandPalette || showShortcuts
+    || !!editingTask || !!viewingProject || !!addSubtaskParent || !!confirmModal?.isOpen;
+  
+  useKeyboardShortcuts({
+    'mod+k': () => setShowCommandPalette(true),
+    // Text fields keep their own undo
+    'mod+z': (e) => {
+      if (isEditableTarget(e.target)) return false;
+      if (e.shiftKey) redo();
+      else undo();
+    },
+    'mod+y': (e) => {
+      if (isEditableTarget(e.target)) return false;
+      redo();
+    },
+    q: () => setShowAddModal(true),
+    '/': () => setSearchOpen(true),
+    '?': () => setShowShortcuts(true),
+    'g t': () => goTo('today'),
+    'g i': () => goTo('inbox'),
+    'g u': () => goTo('upcoming'),
+    'g p': () => goTo('projects'),
+    'g f': () => goTo('filters'),
+    j: (e) => moveTaskFocus(1, e.shiftKey),
+    k: (e) => moveTaskFocus(-1, e.shiftKey),
+    x: toggleFocusedSelection,
+    escape: () => {
+      if (selectedTaskIds.length === 0) return false;
+      clearTaskSelection();
+    },
+    enter: () => {
+      if (!focusedTask) return false;
+      handleEditTask(focusedTask);
+    },
+    e: toggleFocusedTask,
+    1: () => setFocusedTaskPriority(1),
+    2: () => setFocusedTaskPriority(2),
+    3: () => setFocusedTaskPriority(3),
+    4: () => setFocusedTaskPriority(4),
+  }, !isOverlayOpen);
+  
   // Filter tasks based on current view
   const { title, subtitle, filteredTasks, groupBy, showProject, isScheduleView, emptyStateType, isFiltersManagement } = useMemo(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
+    // Archived projects only show their tasks in their own project view
+    const activeTasks = withoutArchivedTasks(tasks, projects);
     
     switch (currentView) {
       case 'today': {
-        const todayTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+        const todayTasks = activeTasks.filter(t => {
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           
           const dueDate = t.dueDate ? parseLocalDate(t.dueDate) : null;
@@ -127,11 +269,11 @@ export default function App() {
       }
       
       case 'inbox': {
-        const inboxTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+        const inboxTasks = activeTasks.filter(t => {
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           // Match Sidebar logic: tasks with Inbox status OR tasks without a project
-          return t.status === '📥 Inbox' || (!t.projectId && t.status !== '✅ Done');
+          return t.status === defaultStatus || (!t.projectId && !isDone(t.status));
         });
         
         return {
@@ -150,8 +292,8 @@ export default function App() {
         const nextWeek = new Date(today);
         nextWeek.setDate(nextWeek.getDate() + 7);
         
-        const upcomingTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+        const upcomingTasks = activeTasks.filter(t => {
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           if (!t.dueDate) return false;
           const due = parseLocalDate(t.dueDate);
@@ -199,9 +341,63 @@ export default function App() {
         };
       }
       
+      case 'settings': {
+        return {
+          title: 'Settings',
+          subtitle: 'Airtable connection, field mapping and subtasks',
+          filteredTasks: [],
+          groupBy: 'none' as const,
+          showProject: false,
+          isScheduleView: false,
+          emptyStateType: 'inbox' as const,
+          isFiltersManagement: false,
+        };
+      }
+      
+      case 'trash': {
+        const deletedCount = trash.filter(item => item.id === item.rootId).length;
+        return {
+          title: 'Trash',
+          subtitle: `${deletedCount} deleted task${deletedCount !== 1 ? 's' : ''}`,
+          filteredTasks: [],
+          groupBy: 'none' as const,
+          showProject: false,
+          isScheduleView: false,
+          emptyStateType: 'inbox' as const,
+          isFiltersManagement: false,
+        };
+      }
+      
+      case 'archived': {
+        const archivedCount = projects.filter(isArchivedProject).length;
+        return {
+          title: 'Archived Projects',
+          subtitle: `${archivedCount} project${archivedCount !== 1 ? 's' : ''}`,
+          filteredTasks: [],
+          groupBy: 'none' as const,
+          showProject: false,
+          isScheduleView: false,
+          emptyStateType: 'projects' as const,
+          isFiltersManagement: false,
+        };
+      }
+      
+      case 'tags': {
+        return {
+          title: 'Tags',
+          subtitle: `${tags.length} tag${tags.length !== 1 ? 's' : ''}`,
+          filteredTasks: [],
+          groupBy: 'none' as const,
+          showProject: false,
+          isScheduleView: false,
+          emptyStateType: 'tag' as const,
+          isFiltersManagement: false,
+        };
+      }
+      
       case 'projects': {
-        const activeTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+        const projectTasks = activeTasks.filter(t => {
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           return !!t.projectId;
         });
@@ -209,7 +405,7 @@ export default function App() {
         return {
           title: 'By Project',
           subtitle: `${projects.filter(p => p.status === 'Active').length} active projects`,
-          filteredTasks: activeTasks,
+          filteredTasks: projectTasks,
           groupBy: 'project' as const,
           showProject: false,
           isScheduleView: false,
@@ -221,14 +417,16 @@ export default function App() {
       case 'project': {
         const project = projects.find(p => p.id === selectedProjectId);
         const projectTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           return t.projectId === selectedProjectId;
         });
         
         return {
           title: project?.name || 'Project',
-          subtitle: `${projectTasks.length} tasks`,
+          subtitle: project && isArchivedProject(project)
+            ? `Archived • ${projectTasks.length} tasks`
+            : `${projectTasks.length} tasks`,
           filteredTasks: projectTasks,
           groupBy: 'section' as const,
           showProject: false,
@@ -240,8 +438,8 @@ export default function App() {
       
       case 'tag': {
         const tag = tags.find(t => t.id === selectedTagId);
-        const tagTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
+        const tagTasks = activeTasks.filter(t => {
+          if (isDone(t.status) && !showCompleted) return false;
           if (t.parentTaskId) return false;
           return t.tagIds.includes(selectedTagId || '');
         });
@@ -260,20 +458,10 @@ export default function App() {
       
       case 'filter': {
         const filter = filters.find(f => f.id === selectedFilterId);
-        const filterTasks = tasks.filter(t => {
-          if (t.status === '✅ Done' && !showCompleted) return false;
-          if (t.parentTaskId) return false;
-          
-          if (!filter?.criteria) return true;
-          const c = filter.criteria;
-          
-          if (c.status?.length && !c.status.includes(t.status || '')) return false;
-          if (c.priority?.length && !c.priority.includes(t.priority || '')) return false;
-          if (c.projectIds?.length && !c.projectIds.includes(t.projectId || '')) return false;
-          if (c.tagIds?.length && !t.tagIds.some(id => c.tagIds?.includes(id))) return false;
-          
-          return true;
-        });
+        const matches = filter?.criteria
+          ? createFilterMatcher(filter.criteria, createFilterContext({ projects, sections, tags, taskOptions }))
+          : (t: Task) => !t.parentTaskId;
+        const filterTasks = activeTasks.filter(t => (!isDone(t.status) || showCompleted) && matches(t));
         
         return {
           title: filter?.name || 'Filter',
@@ -291,7 +479,7 @@ export default function App() {
         return {
           title: 'Tasks',
           subtitle: '',
-          filteredTasks: tasks.filter(t => (t.status !== '✅ Done' || showCompleted) && !t.parentTaskId),
+          filteredTasks: activeTasks.filter(t => (!isDone(t.status) || showCompleted) && !t.parentTaskId),
           groupBy: 'none' as const,
           showProject: true,
           isScheduleView: false,
@@ -299,7 +487,12 @@ export default function App() {
           isFiltersManagement: false,
         };
     }
-  }, [currentView, tasks, projects, tags, filters, selectedProjectId, selectedTagId, selectedFilterId, showCompleted]);
+  }, [currentView, tasks, projects, tags, sections, filters, trash, taskOptions, selectedProjectId, selectedTagId, selectedFilterId, showCompleted, isDone, defaultStatus]);
+  
+  // Views whose tasks can be shown as a Kanban board
+  const canShowBoard = currentView === 'project'
+    ? !!selectedProjectId
+    : ['today', 'upcoming', 'tag', 'filter'].includes(currentView);
   
   if (isLoading) {
     return <LoadingScreen />;
@@ -313,7 +506,7 @@ export default function App() {
       color: isDarkMode ? '#ffffff' : '#202020',
     }}>
       {/* Sidebar */}
-      <Sidebar />
+      <Sidebar onAddProject={() => setShowAddProjectModal(true)} />
       
       {/* Main Content */}
       <main style={{
@@ -365,7 +558,7 @@ export default function App() {
             {/* Search */}
             <SearchBar onSelectTask={handleEditTask} />
             
-            {/* View toggle (List/Kanban) - Only show in project view */}
+            {/* Project actions */}
             {currentView === 'project' && selectedProjectId && (
               <>
                 <button
@@ -409,54 +602,58 @@ export default function App() {
                   <Plus size={14} />
                   Section
                 </button>
-                <div style={{
-                  display: 'flex',
-                  backgroundColor: isDarkMode ? '#333333' : '#f0f0f0',
-                  borderRadius: 8,
-                  padding: 2,
-                }}>
-                  <button
-                    onClick={() => setShowKanban(false)}
-                    style={{
-                      padding: '6px 10px',
-                      borderRadius: 6,
-                      border: 'none',
-                      backgroundColor: !showKanban ? (isDarkMode ? '#555' : '#fff') : 'transparent',
-                      color: isDarkMode ? '#fff' : '#333',
-                      cursor: 'pointer',
-                      display: 'flex',
-                      alignItems: 'center',
-                      gap: 4,
-                      fontSize: 12,
-                    }}
-                    title="List view"
-                  >
-                    <List size={16} />
-                    List
-                  </button>
-                  <button
-                    onClick={() => setShowKanban(true)}
-                    style={{
-                      padding: '6px 10px',
-                      borderRadius: 6,
-                      border: 'none',
-                      backgroundColor: showKanban ? (isDarkMode ? '#555' : '#fff') : 'transparent',
-                      color: isDarkMode ? '#fff' : '#333',
-                      cursor: 'pointer',
-                      display: 'flex',
-                      alignItems: 'center',
-                      gap: 4,
-                      fontSize: 12,
-                    }}
-                    title="Kanban view (by section)"
-                  >
-                    <Columns size={16} />
-                    Board
-                  </button>
-                </div>
               </>
             )}
             
+            {/* View toggle (List/Kanban) */}
+            {canShowBoard && (
+              <div style={{
+                display: 'flex',
+                backgroundColor: isDarkMode ? '#333333' : '#f0f0f0',
+                borderRadius: 8,
+                padding: 2,
+              }}>
+                <button
+                  onClick={() => setShowKanban(false)}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: 6,
+                    border: 'none',
+                    backgroundColor: !showKanban ? (isDarkMode ? '#555' : '#fff') : 'transparent',
+                    color: isDarkMode ? '#fff' : '#333',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    fontSize: 12,
+                  }}
+                  title="List view"
+                >
+                  <List size={16} />
+                  List
+                </button>
+                <button
+                  onClick={() => setShowKanban(true)}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: 6,
+                    border: 'none',
+                    backgroundColor: showKanban ? (isDarkMode ? '#555' : '#fff') : 'transparent',
+                    color: isDarkMode ? '#fff' : '#333',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    fontSize: 12,
+                  }}
+                  title="Kanban view"
+                >
+                  <Columns size={16} />
+                  Board
+                </button>
+              </div>
+            )}
+            
             {/* Dashboard toggle (only show on projects view) */}
             {currentView === 'projects' && (
               <button
@@ -519,6 +716,9 @@ export default function App() {
             {/* Sync Status Indicator */}
             <SyncStatusIndicator />
             
+            {/* Sync Conflicts (only shown when there are conflicts) */}
+            <SyncConflictsPanel />
+            
             {/* Theme toggle */}
             <button
               onClick={toggleDarkMode}
@@ -547,9 +747,18 @@ export default function App() {
               onEditFilter={(filter) => { setEditingFilter(filter); setShowFilterModal(true); }}
               onCreateFilter={() => { setEditingFilter(null); setShowFilterModal(true); }}
             />
-          ) : currentView === 'project' && showKanban && selectedProjectId ? (
-            <ProjectKanbanView
-              projectId={selectedProjectId}
+          ) : currentView === 'settings' ? (
+            <SettingsView />
+          ) : currentView === 'trash' ? (
+            <TrashView />
+          ) : currentView === 'archived' ? (
+            <ArchivedProjectsView />
+          ) : currentView === 'tags' ? (
+            <TagsView />
+          ) : canShowBoard && showKanban ? (
+            <KanbanView
+              tasks={filteredTasks}
+              projectId={currentView === 'project' ? selectedProjectId : null}
               onEditTask={handleEditTask}
               onAddSection={() => setShowAddSectionModal(true)}
             />
@@ -631,6 +840,12 @@ export default function App() {
         />
       )}
       
+      {/* Add Project Modal */}
+      <AddProjectModal
+        isOpen={showAddProjectModal}
+        onClose={() => setShowAddProjectModal(false)}
+      />
+      
       {/* Project Details Panel */}
       <ProjectDetailsPanel
         project={viewingProject}
@@ -645,12 +860,31 @@ export default function App() {
           title={confirmModal.title}
           message={confirmModal.message}
           type={confirmModal.type}
-          confirmLabel="Delete"
+          confirmLabel={confirmModal.confirmLabel || 'Delete'}
+          cancelLabel={confirmModal.cancelLabel}
           onConfirm={confirmAction}
-          onCancel={hideConfirm}
+          onCancel={cancelAction}
+          secondaryLabel={confirmModal.secondaryLabel}
+          onSecondary={secondaryAction}
+          onDismiss={hideConfirm}
         />
       )}
       
+      {/* Bulk actions for the multi-selection */}
+      <BulkActionBar />
+      
+      {/* Command Palette */}
+      <CommandPalette
+        isOpen={showCommandPalette}
+        onClose={() => setShowCommandPalette(false)}
+        onAddTask={() => setShowAddModal(true)}
+        onCreateFilter={() => { setEditingFilter(null); setShowFilterModal(true); }}
+        onShowShortcuts={() => setShowShortcuts(true)}
+      />
+      
+      {/* Keyboard Shortcuts */}
+      <KeyboardShortcutsModal isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} />
+      
       {/* Toast */}
       <Toast />
       
@@ -1,20 +1,180 @@
 // Airtable REST API Service
 // Replaces the Blocks SDK with direct API calls
 
-import { AIRTABLE_CONFIG } from '../utils/constants';
-import type { Task, Project, Tag, Section, AirtableResponse } from '../types';
+import { AIRTABLE_CONFIG, AIRTABLE_FIELD_PREFIXES } from '../utils/constants';
+import type { Task, Project, Tag, Section, AirtableResponse, AirtableSettings } from '../types';
+import { AirtableApiError, scheduleRequest } from './requestScheduler';
 
-const { BASE_ID, TABLES, FIELDS } = AIRTABLE_CONFIG;
+// Active connection settings - AIRTABLE_CONFIG defaults, overridable at runtime from Settings
+let BASE_ID = AIRTABLE_CONFIG.BASE_ID;
+let TABLES = AIRTABLE_CONFIG.TABLES;
+let FIELDS = AIRTABLE_CONFIG.FIELDS;
+let runtimeApiKey: string | null = null;
 
-// Get API key from environment
+// Get API key from Settings, falling back to the environment
 const getApiKey = (): string => {
-  const key = import.meta.env.VITE_AIRTABLE_API_KEY;
+  const key = runtimeApiKey || import.meta.env.VITE_AIRTABLE_API_KEY;
   if (!key) {
-    throw new Error('VITE_AIRTABLE_API_KEY is not set. Please add it to your .env.local file.');
+    throw new Error('No Airtable API token configured. Add one in Settings or set VITE_AIRTABLE_API_KEY in .env.local.');
   }
   return key;
 };
 
+// ============================================================================
+// CONNECTION SETTINGS
+// ============================================================================
+
+export function getDefaultAirtableSettings(): AirtableSettings {
+  return {
+    baseId: AIRTABLE_CONFIG.BASE_ID,
+    apiKey: '',
+    tables: {
+      tasks: AIRTABLE_CONFIG.TABLES.TASKS.id,
+      projects: AIRTABLE_CONFIG.TABLES.PROJECTS.id,
+      tags: AIRTABLE_CONFIG.TABLES.TAGS.id,
+      sections: AIRTABLE_CONFIG.TABLES.SECTIONS.id,
+    },
+    fields: { ...AIRTABLE_CONFIG.FIELDS },
+  };
+}
+
+/**
+ * Point the client at a different base, tables and field names (null restores defaults)
+ */
+export function configureAirtable(settings: AirtableSettings | null): void {
+  if (!settings) {
+    BASE_ID = AIRTABLE_CONFIG.BASE_ID;
+    TABLES = AIRTABLE_CONFIG.TABLES;
+    FIELDS = AIRTABLE_CONFIG.FIELDS;
+    runtimeApiKey = null;
+    return;
+  }
+  
+  BASE_ID = settings.baseId;
+  TABLES = {
+    TASKS: { ...AIRTABLE_CONFIG.TABLES.TASKS, id: settings.tables.tasks },
+    PROJECTS: { ...AIRTABLE_CONFIG.TABLES.PROJECTS, id: settings.tables.projects },
+    TAGS: { ...AIRTABLE_CONFIG.TABLES.TAGS, id: settings.tables.tags },
+    SECTIONS: { ...AIRTABLE_CONFIG.TABLES.SECTIONS, id: settings.tables.sections },
+  };
+  FIELDS = { ...AIRTABLE_CONFIG.FIELDS, ...settings.fields };
+  runtimeApiKey = settings.apiKey || null;
+}
+
+export interface AirtableFieldSchema {
+  id: string;
+  name: string;
+  type: string;
+  options?: {
+    choices?: { id: string; name: string; color?: string }[];
+  };
+}
+
+export interface AirtableTableSchema {
+  id: string;
+  name: string;
+  primaryFieldId: string;
+  fields: AirtableFieldSchema[];
+}
+
+/**
+ * Fetch table and field definitions from the Airtable metadata API
+ */
+export async function fetchBaseSchema(
+  baseId: string = BASE_ID,
+  apiKey: string = getApiKey()
+): Promise<AirtableTableSchema[]> {
+  const url = `https://api.airtable.com/v0/meta/bases/${baseId}/tables`;
+  console.log(`[Airtable API] GET: ${url}`);
+  
+  return scheduleRequest(async () => {
+    const response = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
+      const errorMsg = errorData.error?.message || errorData.error?.type || response.statusText;
+      throw new AirtableApiError(response.status, `Airtable API Error (${response.status}): ${errorMsg}`);
+    }
+    
+    const data: { tables: AirtableTableSchema[] } = await response.json();
+    return data.tables;
+  }, { retryable: true });
+}
+
+export interface TaskFieldChoices {
+  statuses: string[];
+  priorities: string[];
+}
+
+export function getAirtableBaseId(): string {
+  return BASE_ID;
+}
+
+/**
+ * Read the Status and Priority single-select choices from the Tasks table schema
+ */
+export async function fetchTaskFieldChoices(): Promise<TaskFieldChoices> {
+  const schema = await fetchBaseSchema();
+  const table = schema.find(t => t.id === TABLES.TASKS.id || t.name === TABLES.TASKS.id);
+  if (!table) throw new Error(`Tasks table ${TABLES.TASKS.id} not found in base schema`);
+  
+  const choicesFor = (fieldName: string) =>
+    table.fields.find(f => f.name === fieldName)?.options?.choices?.map(c => c.name) ?? [];
+  
+  return {
+    statuses: choicesFor(FIELDS.TASK_STATUS),
+    priorities: choicesFor(FIELDS.TASK_PRIORITY),
+  };
+}
+
+// Fields that must exist for the app to work at all
+const REQUIRED_FIELDS = ['TASK_NAME', 'PROJECT_NAME', 'TAG_NAME', 'SECTION_NAME'];
+
+/**
+ * Check settings against the base schema. Errors block saving; warnings are
+ * optional fields that will simply be empty.
+ */
+export async function validateAirtableSettings(
+  settings: AirtableSettings
+): Promise<{ errors: string[]; warnings: string[] }> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  if (!settings.baseId.trim()) errors.push('Base ID is required');
+  if (!settings.apiKey.trim() && !import.meta.env.VITE_AIRTABLE_API_KEY) errors.push('API token is required');
+  if (errors.length > 0) return { errors, warnings };
+  
+  let schema: AirtableTableSchema[];
+  try {
+    schema = await fetchBaseSchema(settings.baseId.trim(), settings.apiKey.trim() || getApiKey());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { errors: [`Could not read base schema: ${message}`], warnings };
+  }
+  
+  for (const [entity, prefix] of Object.entries(AIRTABLE_FIELD_PREFIXES)) {
+    const tableRef = settings.tables[entity as keyof AirtableSettings['tables']];
+    const table = schema.find(t => t.id === tableRef || t.name === tableRef);
+    
+    if (!table) {
+      // The Sections table is optional - the app works without it
+      (entity === 'sections' ? warnings : errors).push(`Table "${tableRef}" for ${entity} not found in base`);
+      continue;
+    }
+    
+    const fieldNames = new Set(table.fields.map(f => f.name));
+    for (const [key, fieldName] of Object.entries(settings.fields)) {
+      if (!key.startsWith(prefix) || fieldNames.has(fieldName)) continue;
+      const message = `Field "${fieldName}" not found in ${table.name} table`;
+      (REQUIRED_FIELDS.includes(key) ? errors : warnings).push(message);
+    }
+  }
+  
+  return { errors, warnings };
+}
+
 // Base fetch function with error handling
 async function airtableFetch<T>(
   endpoint: string,
@@ -41,7 +201,7 @@ async function airtableFetch<T>(
     const errorData = await response.json().catch(() => ({ error: { message: response.statusText } }));
     console.error(`[Airtable API] Error ${response.status}:`, errorData);
     const errorMsg = errorData.error?.message || errorData.error?.type || response.statusText;
-    throw new Error(`Airtable API Error (${response.status}): ${errorMsg}`);
+    throw new AirtableApiError(response.status, `Airtable API Error (${response.status}): ${errorMsg}`);
   }
   
   const data = await response.json();
@@ -49,23 +209,14 @@ async function airtableFetch<T>(
   return data;
 }
 
-// Rate limiting helper (5 requests per second)
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 200; // 200ms = 5 req/s
-
+// Rate limiting helper - all requests go through the shared scheduler
 async function rateLimitedFetch<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-  }
-  
-  lastRequestTime = Date.now();
-  return airtableFetch<T>(endpoint, options);
+  // POST creates a new record each time, so it is not safe to resend after a 5xx
+  const method = options.method || 'GET';
+  return scheduleRequest(() => airtableFetch<T>(endpoint, options), { retryable: method !== 'POST' });
 }
 
 // ============================================================================
@@ -142,6 +293,10 @@ function mapTaskFromAirtable(record: { id: string; fields: Record<string, any> }
   const plannedEffort = f[FIELDS.TASK_PLANNED_EFFORT] || f['Planned Effort'] || null;
   const actualEffort = f[FIELDS.TASK_ACTUAL_EFFORT] || f['Actual Effort'] || null;
   
+  // Recurrence rule (plain text field, optional in the base)
+  const rawRecurrence = f[FIELDS.TASK_RECURRENCE];
+  const recurrence = typeof rawRecurrence === 'string' && rawRecurrence.trim() ? rawRecurrence.trim() : null;
+  
   // Debug log
   console.log(`[Map Task] ${record.id}: "${name}" | Status: ${status} | Priority: ${priority} | Project: ${projectId}`);
   
@@ -168,18 +323,20 @@ function mapTaskFromAirtable(record: { id: string; fields: Record<string, any> }
     calendarSyncStatus,
     plannedEffort,
     actualEffort,
+    recurrence,
   };
   
   return task;
 }
 
-export async function fetchAllTasks(): Promise<Task[]> {
+export async function fetchAllTasks(filterByFormula?: string): Promise<Task[]> {
   const tasks: Task[] = [];
   let offset: string | undefined;
   
   do {
     const params = new URLSearchParams();
     if (offset) params.set('offset', offset);
+    if (filterByFormula) params.set('filterByFormula', filterByFormula);
     
     // Use table ID for reliability
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -197,7 +354,17 @@ export async function fetchAllTasks(): Promise<Task[]> {
   return tasks;
 }
 
-export async function createTask(task: Partial<Task>): Promise<Task> {
+export async function fetchTask(taskId: string): Promise<Task> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    `${TABLES.TASKS.id}/${taskId}`
+  );
+  
+  return mapTaskFromAirtable(response);
+}
+
+// Map a new task to Airtable fields (empty values are left out)
+function taskToCreateFields(task: Partial<Task>): Record<string, unknown> {
   const fields: Record<string, unknown> = {};
   
   // Text fields - ensure we send strings
@@ -207,10 +374,13 @@ export async function createTask(task: Partial<Task>): Promise<Task> {
   // Single select fields - pass string value directly
   if (task.status) fields[FIELDS.TASK_STATUS] = task.status;
   if (task.priority) fields[FIELDS.TASK_PRIORITY] = task.priority;
+  if (task.scheduledTime) fields[FIELDS.TASK_SCHEDULED_TIME] = task.scheduledTime;
+  if (task.duration) fields[FIELDS.TASK_DURATION] = task.duration;
   
   // Date fields
   if (task.startDate) fields[FIELDS.TASK_START_DATE] = task.startDate;
   if (task.dueDate) fields[FIELDS.TASK_DUE_DATE] = task.dueDate;
+  if (task.completedDate) fields[FIELDS.TASK_COMPLETED_DATE] = task.completedDate;
   
   // Linked record fields - array of record ID strings
   if (task.projectId) fields[FIELDS.TASK_PROJECT] = [task.projectId];
@@ -218,21 +388,19 @@ export async function createTask(task: Partial<Task>): Promise<Task> {
   if (task.parentTaskId) fields[FIELDS.TASK_PARENT] = [task.parentTaskId];
   if (task.sectionId) fields[FIELDS.TASK_SECTION] = [task.sectionId];
   
-  console.log(`[Create Task]:`, { task, fields });
+  // Boolean and number fields (set when restoring a deleted task)
+  if (task.syncToCalendar) fields[FIELDS.TASK_SYNC_TO_CALENDAR] = true;
+  if (task.plannedEffort != null) fields[FIELDS.TASK_PLANNED_EFFORT] = task.plannedEffort;
+  if (task.actualEffort != null) fields[FIELDS.TASK_ACTUAL_EFFORT] = task.actualEffort;
   
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
-    TABLES.TASKS.id,
-    {
-      method: 'POST',
-      body: JSON.stringify({ fields }),
-    }
-  );
+  // Only sent when set, so bases without a Recurrence field still work
+  if (task.recurrence) fields[FIELDS.TASK_RECURRENCE] = task.recurrence;
   
-  return mapTaskFromAirtable(response);
+  return fields;
 }
 
-export async function updateTask(taskId: string, updates: Partial<Task>): Promise<Task> {
+// Map task updates to Airtable fields (only fields present in updates are sent)
+function taskToUpdateFields(updates: Partial<Task>): Record<string, unknown> {
   const fields: Record<string, unknown> = {};
   
   // Text fields - ensure we send strings
@@ -263,6 +431,30 @@ export async function updateTask(taskId: string, updates: Partial<Task>): Promis
   if (updates.syncToCalendar !== undefined) fields[FIELDS.TASK_SYNC_TO_CALENDAR] = updates.syncToCalendar;
   if (updates.plannedEffort !== undefined) fields[FIELDS.TASK_PLANNED_EFFORT] = updates.plannedEffort;
   if (updates.actualEffort !== undefined) fields[FIELDS.TASK_ACTUAL_EFFORT] = updates.actualEffort;
+  if (updates.recurrence !== undefined) fields[FIELDS.TASK_RECURRENCE] = updates.recurrence || null;
+  
+  return fields;
+}
+
+export async function createTask(task: Partial<Task>): Promise<Task> {
+  const fields = taskToCreateFields(task);
+  
+  console.log(`[Create Task]:`, { task, fields });
+  
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    TABLES.TASKS.id,
+    {
+      method: 'POST',
+      body: JSON.stringify({ fields }),
+    }
+  );
+  
+  return mapTaskFromAirtable(response);
+}
+
+export async function updateTask(taskId: string, updates: Partial<Task>): Promise<Task> {
+  const fields = taskToUpdateFields(updates);
   
   console.log(`[Update Task] ${taskId}:`, { updates, fields });
   
@@ -285,6 +477,96 @@ export async function deleteTask(taskId: string): Promise<void> {
   );
 }
 
+// ============================================================================
+// BATCH TASK OPERATIONS
+// ============================================================================
+
+// Airtable accepts at most 10 records per create/update/delete request
+export const AIRTABLE_BATCH_SIZE = 10;
+
+function chunk<T>(items: T[], size: number = AIRTABLE_BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Fetch specific tasks by record ID (used to compare against queued offline edits)
+ */
+export async function fetchTasksByIds(taskIds: string[]): Promise<Task[]> {
+  if (taskIds.length === 0) return [];
+  const formula = `OR(${taskIds.map(id => `RECORD_ID()='${id}'`).join(',')})`;
+  return fetchAllTasks(formula);
+}
+
+/**
+ * Create many tasks, 10 per request. Results are in the same order as the input.
+ */
+export async function createTasks(tasks: Partial<Task>[]): Promise<Task[]> {
+  const created: Task[] = [];
+  
+  for (const batch of chunk(tasks)) {
+    console.log(`[Create Tasks] Batch of ${batch.length}`);
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response = await rateLimitedFetch<AirtableResponse<Record<string, any>>>(
+      TABLES.TASKS.id,
+      {
+        method: 'POST',
+        body: JSON.stringify({ records: batch.map(task => ({ fields: taskToCreateFields(task) })) }),
+      }
+    );
+    
+    created.push(...response.records.map(mapTaskFromAirtable));
+  }
+  
+  return created;
+}
+
+/**
+ * Update many tasks, 10 per request
+ */
+export async function updateTasks(changes: { id: string; updates: Partial<Task> }[]): Promise<Task[]> {
+  const updated: Task[] = [];
+  
+  for (const batch of chunk(changes)) {
+    console.log(`[Update Tasks] Batch of ${batch.length}`);
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response = await rateLimitedFetch<AirtableResponse<Record<string, any>>>(
+      TABLES.TASKS.id,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          records: batch.map(({ id, updates }) => ({ id, fields: taskToUpdateFields(updates) })),
+        }),
+      }
+    );
+    
+    updated.push(...response.records.map(mapTaskFromAirtable));
+  }
+  
+  return updated;
+}
+
+/**
+ * Delete many tasks, 10 per request
+ */
+export async function deleteTasks(taskIds: string[]): Promise<void> {
+  for (const batch of chunk(taskIds)) {
+    console.log(`[Delete Tasks] Batch of ${batch.length}`);
+    
+    const params = new URLSearchParams();
+    batch.forEach(id => params.append('records[]', id));
+    await rateLimitedFetch(
+      `${TABLES.TASKS.id}?${params.toString()}`,
+      { method: 'DELETE' }
+    );
+  }
+}
+
 // ============================================================================
 // PROJECTS
 // ============================================================================
@@ -317,6 +599,10 @@ function mapProjectFromAirtable(record: { id: string; fields: Record<string, any
   const startDate = f[FIELDS.PROJECT_START_DATE] || f['Start Date'] || null;
   const targetDate = f[FIELDS.PROJECT_TARGET_DATE] || f['Target Date'] || null;
   
+  // Hex color text field (optional)
+  const rawColor = f[FIELDS.PROJECT_COLOR];
+  const color = typeof rawColor === 'string' && rawColor.trim() ? rawColor.trim() : null;
+  
   console.log(`[Map Project] ${record.id}: "${name}" | Status: "${status}" | Tasks: ${taskIds.length}`);
   
   return {
@@ -328,10 +614,42 @@ function mapProjectFromAirtable(record: { id: string; fields: Record<string, any
     targetDate,
     notes,
     taskIds,
+    color,
   };
 }
 
-export async function fetchAllProjects(): Promise<Project[]> {
+// Set once Airtable rejects the color field - project colors then stay on this device
+let projectColorFieldMissing = false;
+
+/**
+ * Write project fields, retrying without the color when the Projects table has no such field
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function writeProjectFields(endpoint: string, method: 'POST' | 'PATCH', fields: Record<string, unknown>): Promise<{ id: string; fields: Record<string, any> }> {
+  const send = (body: Record<string, unknown>) =>
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    rateLimitedFetch<{ id: string; fields: Record<string, any> }>(endpoint, {
+      method,
+      body: JSON.stringify({ fields: body }),
+    });
+  
+  try {
+    return await send(fields);
+  } catch (error) {
+    const isUnknownColorField = error instanceof AirtableApiError
+      && error.status === 422
+      && /unknown field name/i.test(error.message);
+    if (!(FIELDS.PROJECT_COLOR in fields) || !isUnknownColorField) throw error;
+    
+    console.warn(`[Airtable] No "${FIELDS.PROJECT_COLOR}" field in the Projects table - keeping project colors on this device`);
+    projectColorFieldMissing = true;
+    const rest = { ...fields };
+    delete rest[FIELDS.PROJECT_COLOR];
+    return send(rest);
+  }
+}
+
+export async function fetchAllProjects(filterByFormula?: string): Promise<Project[]> {
   const projects: Project[] = [];
   let offset: string | undefined;
   
@@ -340,6 +658,7 @@ export async function fetchAllProjects(): Promise<Project[]> {
   do {
     const params = new URLSearchParams();
     if (offset) params.set('offset', offset);
+    if (filterByFormula) params.set('filterByFormula', filterByFormula);
     
     // Try using table ID instead of name
     const endpoint = `${TABLES.PROJECTS.id}?${params.toString()}`;
@@ -361,6 +680,39 @@ export async function fetchAllProjects(): Promise<Project[]> {
   return projects;
 }
 
+export async function fetchProject(projectId: string): Promise<Project> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    `${TABLES.PROJECTS.id}/${projectId}`
+  );
+  
+  return mapProjectFromAirtable(response);
+}
+
+export async function createProject(project: Partial<Project>): Promise<Project> {
+  const fields: Record<string, unknown> = {};
+
+  if (project.name) fields[FIELDS.PROJECT_NAME] = project.name;
+  if (project.description) fields[FIELDS.PROJECT_DESCRIPTION] = project.description;
+  if (project.status) fields[FIELDS.PROJECT_STATUS] = project.status;
+  if (project.startDate) fields[FIELDS.PROJECT_START_DATE] = project.startDate;
+  if (project.targetDate) fields[FIELDS.PROJECT_TARGET_DATE] = project.targetDate;
+  if (project.color && !projectColorFieldMissing) fields[FIELDS.PROJECT_COLOR] = project.color;
+
+  console.log(`[Create Project]:`, { project, fields });
+
+  const response = await writeProjectFields(TABLES.PROJECTS.id, 'POST', fields);
+  return mapProjectFromAirtable(response);
+}
+
+// Airtable clears the project link on its tasks when the record goes
+export async function deleteProject(projectId: string): Promise<void> {
+  await rateLimitedFetch(
+    `${TABLES.PROJECTS.id}/${projectId}`,
+    { method: 'DELETE' }
+  );
+}
+
 export async function updateProject(projectId: string, updates: Partial<Project>): Promise<Project> {
   const fields: Record<string, unknown> = {};
   
@@ -383,6 +735,8 @@ export async function updateProject(projectId: string, updates: Partial<Project>
   if (updates.startDate !== undefined) fields[FIELDS.PROJECT_START_DATE] = updates.startDate || null;
   if (updates.targetDate !== undefined) fields[FIELDS.PROJECT_TARGET_DATE] = updates.targetDate || null;
   
+  if (updates.color !== undefined && !projectColorFieldMissing) fields[FIELDS.PROJECT_COLOR] = updates.color || null;
+  
   console.log(`[Update Project] ${projectId}:`, { 
     updates, 
     fields,
@@ -390,15 +744,7 @@ export async function updateProject(projectId: string, updates: Partial<Project>
     statusValue: updates.status,
   });
   
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
-    `${TABLES.PROJECTS.id}/${projectId}`,
-    {
-      method: 'PATCH',
-      body: JSON.stringify({ fields }),
-    }
-  );
-  
+  const response = await writeProjectFields(`${TABLES.PROJECTS.id}/${projectId}`, 'PATCH', fields);
   return mapProjectFromAirtable(response);
 }
 
@@ -431,13 +777,14 @@ function mapTagFromAirtable(record: { id: string; fields: Record<string, any> })
   };
 }
 
-export async function fetchAllTags(): Promise<Tag[]> {
+export async function fetchAllTags(filterByFormula?: string): Promise<Tag[]> {
   const tags: Tag[] = [];
   let offset: string | undefined;
   
   do {
     const params = new URLSearchParams();
     if (offset) params.set('offset', offset);
+    if (filterByFormula) params.set('filterByFormula', filterByFormula);
     
     // Use table ID for reliability
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -455,6 +802,57 @@ export async function fetchAllTags(): Promise<Tag[]> {
   return tags;
 }
 
+export async function createTag(tag: Partial<Tag>): Promise<Tag> {
+  const fields: Record<string, unknown> = {};
+
+  if (tag.name) fields[FIELDS.TAG_NAME] = tag.name;
+  if (tag.type) fields[FIELDS.TAG_TYPE] = tag.type;
+  if (tag.description) fields[FIELDS.TAG_DESCRIPTION] = tag.description;
+
+  console.log(`[Create Tag]:`, { tag, fields });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    TABLES.TAGS.id,
+    {
+      method: 'POST',
+      body: JSON.stringify({ fields, typecast: true }),
+    }
+  );
+
+  return mapTagFromAirtable(response);
+}
+
+export async function updateTag(tagId: string, updates: Partial<Tag>): Promise<Tag> {
+  const fields: Record<string, unknown> = {};
+
+  if (updates.name !== undefined) fields[FIELDS.TAG_NAME] = updates.name;
+  // Single select - typecast adds a type that isn't an option yet
+  if (updates.type !== undefined) fields[FIELDS.TAG_TYPE] = updates.type || null;
+  if (updates.description !== undefined) fields[FIELDS.TAG_DESCRIPTION] = updates.description;
+
+  console.log(`[Update Tag] ${tagId}:`, { updates, fields });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    `${TABLES.TAGS.id}/${tagId}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ fields, typecast: true }),
+    }
+  );
+
+  return mapTagFromAirtable(response);
+}
+
+// Airtable removes the tag from its tasks when the record goes
+export async function deleteTag(tagId: string): Promise<void> {
+  await rateLimitedFetch(
+    `${TABLES.TAGS.id}/${tagId}`,
+    { method: 'DELETE' }
+  );
+}
+
 // ============================================================================
 // SECTIONS
 // ============================================================================
@@ -476,7 +874,7 @@ function mapSectionFromAirtable(record: { id: string; fields: Record<string, any
   };
 }
 
-export async function fetchAllSections(): Promise<Section[]> {
+export async function fetchAllSections(filterByFormula?: string): Promise<Section[]> {
   try {
     const sections: Section[] = [];
     let offset: string | undefined;
@@ -484,6 +882,7 @@ export async function fetchAllSections(): Promise<Section[]> {
     do {
       const params = new URLSearchParams();
       if (offset) params.set('offset', offset);
+      if (filterByFormula) params.set('filterByFormula', filterByFormula);
       
       // Use table ID for reliability
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -527,6 +926,35 @@ export async function createSection(section: Partial<Section>): Promise<Section>
   return mapSectionFromAirtable(response);
 }
 
+export async function updateSection(sectionId: string, updates: Partial<Section>): Promise<Section> {
+  const fields: Record<string, unknown> = {};
+  
+  if (updates.name !== undefined) fields[FIELDS.SECTION_NAME] = updates.name;
+  if (updates.projectId !== undefined) fields[FIELDS.SECTION_PROJECT] = updates.projectId ? [updates.projectId] : [];
+  if (updates.order !== undefined) fields[FIELDS.SECTION_ORDER] = updates.order;
+  if (updates.color !== undefined) fields[FIELDS.SECTION_COLOR] = updates.color || null;
+  
+  console.log(`[Update Section] ${sectionId}:`, { updates, fields });
+  
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const response = await rateLimitedFetch<{ id: string; fields: Record<string, any> }>(
+    `${TABLES.SECTIONS.id}/${sectionId}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ fields }),
+    }
+  );
+  
+  return mapSectionFromAirtable(response);
+}
+
+export async function deleteSection(sectionId: string): Promise<void> {
+  await rateLimitedFetch(
+    `${TABLES.SECTIONS.id}/${sectionId}`,
+    { method: 'DELETE' }
+  );
+}
+
 // ============================================================================
 // BATCH FETCH ALL DATA
 // ============================================================================
@@ -558,3 +986,75 @@ export async function fetchAllData(): Promise<AllData> {
   
   return { tasks, projects, tags, sections };
 }
+
+// ============================================================================
+// DELTA SYNC
+// ============================================================================
+
+/**
+ * Fetch only records modified after the given timestamp
+ */
+export async function fetchChangedData(since: number): Promise<AllData> {
+  const formula = `IS_AFTER(LAST_MODIFIED_TIME(), DATETIME_PARSE('${new Date(since).toISOString()}'))`;
+  
+  console.log(`[Fetch Changed Data] Since ${new Date(since).toISOString()}`);
+  
+  const [tasks, projects, tags, sections] = await Promise.all([
+    fetchAllTasks(formula),
+    fetchAllProjects(formula),
+    fetchAllTags(formula),
+    fetchAllSections(formula),
+  ]);
+  
+  console.log('[Fetch Changed Data] Complete:', { 
+    tasks: tasks.length, 
+    projects: projects.length, 
+    tags: tags.length, 
+    sections: sections.length 
+  });
+  
+  return { tasks, projects, tags, sections };
+}
+
+export interface AllRecordIds {
+  tasks: string[];
+  projects: string[];
+  tags: string[];
+  sections: string[] | null;  // null when the Sections table can't be read
+}
+
+// Page through a table requesting only its primary field, to keep the response small
+async function fetchRecordIds(tableId: string, primaryField: string): Promise<string[]> {
+  const ids: string[] = [];
+  let offset: string | undefined;
+  
+  do {
+    const params = new URLSearchParams();
+    if (offset) params.set('offset', offset);
+    params.append('fields[]', primaryField);
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const response = await rateLimitedFetch<AirtableResponse<Record<string, any>>>(
+      `${tableId}?${params.toString()}`
+    );
+    
+    ids.push(...response.records.map(r => r.id));
+    offset = response.offset;
+  } while (offset);
+  
+  return ids;
+}
+
+/**
+ * Fetch the IDs of every record, used to detect records deleted in Airtable
+ */
+export async function fetchAllRecordIds(): Promise<AllRecordIds> {
+  const [tasks, projects, tags, sections] = await Promise.all([
+    fetchRecordIds(TABLES.TASKS.id, FIELDS.TASK_NAME),
+    fetchRecordIds(TABLES.PROJECTS.id, FIELDS.PROJECT_NAME),
+    fetchRecordIds(TABLES.TAGS.id, FIELDS.TAG_NAME),
+    fetchRecordIds(TABLES.SECTIONS.id, FIELDS.SECTION_NAME).catch(() => null),
+  ]);
+  
+  return { tasks, projects, tags, sections };
+}
@@ -0,0 +1,107 @@
+// Storage backend abstraction
+// The store talks to a TaskBackend instead of a specific service, so the app
+// can run against Airtable, a device-only IndexedDB database or an in-memory one
+
+import * as airtable from './airtable';
+import { createLocalBackend, createMemoryBackend } from './localBackend';
+import type { AllData, AllRecordIds, TaskFieldChoices } from './airtable';
+import type { Task, Project, Tag, Section } from '../types';
+
+export type { AllData, AllRecordIds, TaskFieldChoices };
+
+export type BackendType = 'airtable' | 'local' | 'memory';
+
+export interface TaskBackend {
+  type: BackendType;
+  // Maximum records per batch create/update/delete request
+  batchSize: number;
+
+  // Reads
+  fetchAllData: () => Promise<AllData>;
+  fetchChangedData: (since: number) => Promise<AllData>;
+  fetchAllRecordIds: () => Promise<AllRecordIds>;
+  fetchTask: (taskId: string) => Promise<Task>;
+  fetchTasksByIds: (taskIds: string[]) => Promise<Task[]>;
+  fetchProject: (projectId: string) => Promise<Project>;
+  // Status/priority choices, or null when the backend has no schema (use defaults)
+  fetchTaskFieldChoices: () => Promise<TaskFieldChoices | null>;
+
+  // Tasks
+  createTask: (task: Partial<Task>) => Promise<Task>;
+  updateTask: (taskId: string, updates: Partial<Task>) => Promise<Task>;
+  deleteTask: (taskId: string) => Promise<void>;
+  createTasks: (tasks: Partial<Task>[]) => Promise<Task[]>;
+  updateTasks: (changes: { id: string; updates: Partial<Task> }[]) => Promise<Task[]>;
+  deleteTasks: (taskIds: string[]) => Promise<void>;
+
+  // Projects
+  createProject: (project: Partial<Project>) => Promise<Project>;
+  updateProject: (projectId: string, updates: Partial<Project>) => Promise<Project>;
+  deleteProject: (projectId: string) => Promise<void>;
+
+  // Tags
+  createTag: (tag: Partial<Tag>) => Promise<Tag>;
+  updateTag: (tagId: string, updates: Partial<Tag>) => Promise<Tag>;
+  deleteTag: (tagId: string) => Promise<void>;
+
+  // Sections
+  createSection: (section: Partial<Section>) => Promise<Section>;
+  updateSection: (sectionId: string, updates: Partial<Section>) => Promise<Section>;
+  deleteSection: (sectionId: string) => Promise<void>;
+}
+
+export const airtableBackend: TaskBackend = {
+  type: 'airtable',
+  batchSize: airtable.AIRTABLE_BATCH_SIZE,
+  fetchAllData: airtable.fetchAllData,
+  fetchChangedData: airtable.fetchChangedData,
+  fetchAllRecordIds: airtable.fetchAllRecordIds,
+  fetchTask: airtable.fetchTask,
+  fetchTasksByIds: airtable.fetchTasksByIds,
+  fetchProject: airtable.fetchProject,
+  fetchTaskFieldChoices: airtable.fetchTaskFieldChoices,
+  createTask: airtable.createTask,
+  updateTask: airtable.updateTask,
+  deleteTask: airtable.deleteTask,
+  createTasks: airtable.createTasks,
+  updateTasks: airtable.updateTasks,
+  deleteTasks: airtable.deleteTasks,
+  createProject: airtable.createProject,
+  updateProject: airtable.updateProject,
+  deleteProject: airtable.deleteProject,
+  createTag: airtable.createTag,
+  updateTag: airtable.updateTag,
+  deleteTag: airtable.deleteTag,
+  createSection: airtable.createSection,
+  updateSection: airtable.updateSection,
+  deleteSection: airtable.deleteSection,
+};
+
+// Airtable when an API key is configured, otherwise keep data on this device
+export const DEFAULT_BACKEND_TYPE: BackendType =
+  import.meta.env.VITE_AIRTABLE_API_KEY ? 'airtable' : 'local';
+
+export function createBackend(type: BackendType): TaskBackend {
+  switch (type) {
+    case 'airtable':
+      return airtableBackend;
+    case 'local':
+      return createLocalBackend();
+    case 'memory':
+      return createMemoryBackend();
+  }
+}
+
+let activeBackend: TaskBackend | null = null;
+
+export function getBackend(): TaskBackend {
+  if (!activeBackend) {
+    activeBackend = createBackend(DEFAULT_BACKEND_TYPE);
+  }
+  return activeBackend;
+}
+
+export function setBackend(backend: TaskBackend): void {
+  console.log(`[Backend] Using ${backend.type} backend`);
+  activeBackend = backend;
+}
@@ -0,0 +1,295 @@
+// Device-only storage backends
+// Same TaskBackend contract as Airtable, but records live in IndexedDB
+// (persistent, no account needed) or in memory (for tests and demos)
+
+import Dexie, { type Table } from 'dexie';
+import type { Task, Project, Tag, Section } from '../types';
+import type { AllData, TaskBackend } from './backend';
+
+// Minimal table contract shared by Dexie tables and the in-memory store
+interface RecordTable<T extends { id: string }> {
+  toArray: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  put: (record: T) => Promise<unknown>;
+  delete: (id: string) => Promise<void>;
+}
+
+interface RecordStore {
+  tasks: RecordTable<Task>;
+  projects: RecordTable<Project>;
+  tags: RecordTable<Tag>;
+  sections: RecordTable<Section>;
+}
+
+// Airtable-style record ID, so nothing downstream mistakes it for an unsynced local_ ID
+function generateRecordId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let id = 'rec';
+  for (let i = 0; i < 14; i++) id += chars[Math.floor(Math.random() * chars.length)];
+  return id;
+}
+
+function buildTask(id: string, task: Partial<Task>): Task {
+  return {
+    id,
+    name: task.name || '',
+    status: task.status || null,
+    priority: task.priority || null,
+    startDate: task.startDate || null,
+    dueDate: task.dueDate || null,
+    completedDate: task.completedDate || null,
+    projectId: task.projectId || null,
+    tagIds: task.tagIds || [],
+    parentTaskId: task.parentTaskId || null,
+    subtaskIds: [],
+    sectionId: task.sectionId || null,
+    notes: task.notes || '',
+    syncToCalendar: task.syncToCalendar || false,
+    scheduledTime: task.scheduledTime || null,
+    duration: task.duration || null,
+    calendarEventId: null,
+    calendarSyncStatus: null,
+    plannedEffort: task.plannedEffort || null,
+    actualEffort: task.actualEffort || null,
+    recurrence: task.recurrence || null,
+  };
+}
+
+// Strip local sync metadata that must not be persisted in the backend
+function withoutLocalFields<T extends object>(record: T): T {
+  const clean = { ...record } as Record<string, unknown>;
+  delete clean._localId;
+  delete clean._syncStatus;
+  delete clean._modifiedAt;
+  delete clean._createdAt;
+  return clean as T;
+}
+
+function createRecordStoreBackend(type: TaskBackend['type'], store: RecordStore): TaskBackend {
+  const requireRecord = <T>(record: T | undefined, kind: string, id: string): T => {
+    if (!record) throw new Error(`${kind} ${id} not found`);
+    return record;
+  };
+
+  // Airtable maintains the inverse side of linked records; do the same here
+  const fetchAllData = async (): Promise<AllData> => {
+    const [tasks, projects, tags, sections] = await Promise.all([
+      store.tasks.toArray(),
+      store.projects.toArray(),
+      store.tags.toArray(),
+      store.sections.toArray(),
+    ]);
+
+    return {
+      tasks: tasks.map(task => ({
+        ...task,
+        subtaskIds: tasks.filter(t => t.parentTaskId === task.id).map(t => t.id),
+      })),
+      projects: projects.map(project => ({
+        ...project,
+        taskIds: tasks.filter(t => t.projectId === project.id).map(t => t.id),
+      })),
+      tags: tags.map(tag => ({
+        ...tag,
+        taskIds: tasks.filter(t => t.tagIds.includes(tag.id)).map(t => t.id),
+      })),
+      sections,
+    };
+  };
+
+  const createTask = async (task: Partial<Task>): Promise<Task> => {
+    const created = buildTask(generateRecordId(), task);
+    await store.tasks.put(created);
+    return created;
+  };
+
+  const updateTask = async (taskId: string, updates: Partial<Task>): Promise<Task> => {
+    const existing = requireRecord(await store.tasks.get(taskId), 'Task', taskId);
+    const updated = withoutLocalFields({ ...existing, ...updates, id: taskId });
+    await store.tasks.put(updated);
+    return updated;
+  };
+
+  const deleteTask = async (taskId: string): Promise<void> => {
+    await store.tasks.delete(taskId);
+  };
+
+  return {
+    type,
+    batchSize: 50,
+
+    fetchAllData,
+    // Everything is local, so a "delta" is just the full data set
+    fetchChangedData: () => fetchAllData(),
+    fetchAllRecordIds: async () => {
+      const data = await fetchAllData();
+      return {
+        tasks: data.tasks.map(t => t.id),
+        projects: data.projects.map(p => p.id),
+        tags: data.tags.map(t => t.id),
+        sections: data.sections.map(s => s.id),
+      };
+    },
+    fetchTask: async (taskId) => requireRecord(await store.tasks.get(taskId), 'Task', taskId),
+    fetchTasksByIds: async (taskIds) => {
+      const tasks = await Promise.all(taskIds.map(id => store.tasks.get(id)));
+      return tasks.filter((t): t is Task => !!t);
+    },
+    fetchProject: async (projectId) => requireRecord(await store.projects.get(projectId), 'Project', projectId),
+    // No schema to read - the built-in status/priority choices apply
+    fetchTaskFieldChoices: async () => null,
+
+    createTask,
+    updateTask,
+    deleteTask,
+    createTasks: (tasks) => Promise.all(tasks.map(createTask)),
+    updateTasks: (changes) => Promise.all(changes.map(({ id, updates }) => updateTask(id, updates))),
+    deleteTasks: async (taskIds) => {
+      await Promise.all(taskIds.map(deleteTask));
+    },
+
+    createProject: async (project) => {
+      const created: Project = {
+        id: generateRecordId(),
+        name: project.name || '',
+        status: project.status || null,
+        description: project.description || '',
+        startDate: project.startDate || null,
+        targetDate: project.targetDate || null,
+        notes: '',
+        taskIds: [],
+        color: project.color || null,
+      };
+      await store.projects.put(created);
+      return created;
+    },
+
+    updateProject: async (projectId, updates) => {
+      const existing = requireRecord(await store.projects.get(projectId), 'Project', projectId);
+      const updated = withoutLocalFields({ ...existing, ...updates, id: projectId });
+      await store.projects.put(updated);
+      return updated;
+    },
+
+    // Unlink the project's tasks, as Airtable does for a deleted linked record
+    deleteProject: async (projectId) => {
+      const tasks = await store.tasks.toArray();
+      await Promise.all(tasks
+        .filter(t => t.projectId === projectId)
+        .map(t => store.tasks.put({ ...t, projectId: null })));
+      await store.projects.delete(projectId);
+    },
+
+    createTag: async (tag) => {
+      const created: Tag = {
+        id: generateRecordId(),
+        name: tag.name || '',
+        type: tag.type || null,
+        description: tag.description || '',
+        taskIds: [],
+      };
+      await store.tags.put(created);
+      return created;
+    },
+
+    updateTag: async (tagId, updates) => {
+      const existing = requireRecord(await store.tags.get(tagId), 'Tag', tagId);
+      const updated = withoutLocalFields({ ...existing, ...updates, id: tagId });
+      await store.tags.put(updated);
+      return updated;
+    },
+
+    // Remove the tag from its tasks, as Airtable does for a deleted linked record
+    deleteTag: async (tagId) => {
+      const tasks = await store.tasks.toArray();
+      await Promise.all(tasks
+        .filter(t => t.tagIds.includes(tagId))
+        .map(t => store.tasks.put({ ...t, tagIds: t.tagIds.filter(id => id !== tagId) })));
+      await store.tags.delete(tagId);
+    },
+
+    createSection: async (section) => {
+      const created: Section = {
+        id: generateRecordId(),
+        name: section.name || '',
+        projectId: section.projectId || null,
+        order: section.order ?? 0,
+        color: section.color || null,
+      };
+      await store.sections.put(created);
+      return created;
+    },
+
+    updateSection: async (sectionId, updates) => {
+      const existing = requireRecord(await store.sections.get(sectionId), 'Section', sectionId);
+      const updated = withoutLocalFields({ ...existing, ...updates, id: sectionId });
+      await store.sections.put(updated);
+      return updated;
+    },
+
+    deleteSection: async (sectionId) => {
+      await store.sections.delete(sectionId);
+    },
+  };
+}
+
+// ============================================================================
+// INDEXEDDB BACKEND
+// ============================================================================
+
+// Separate database from the offline cache in ../db, which mirrors whichever backend is active
+class LocalBackendDB extends Dexie {
+  tasks!: Table<Task, string>;
+  projects!: Table<Project, string>;
+  tags!: Table<Tag, string>;
+  sections!: Table<Section, string>;
+
+  constructor() {
+    super('AirTodoistLocalBackend');
+
+    this.version(1).stores({
+      tasks: 'id',
+      projects: 'id',
+      tags: 'id',
+      sections: 'id',
+    });
+  }
+}
+
+/**
+ * Backend that keeps all data in this browser's IndexedDB
+ */
+export function createLocalBackend(): TaskBackend {
+  const localDb = new LocalBackendDB();
+  return createRecordStoreBackend('local', localDb);
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+
+function createMemoryTable<T extends { id: string }>(initial: T[] = []): RecordTable<T> {
+  const records = new Map(initial.map(r => [r.id, structuredClone(r)]));
+  return {
+    toArray: async () => [...records.values()].map(r => structuredClone(r)),
+    get: async (id) => (records.has(id) ? structuredClone(records.get(id)!) : undefined),
+    put: async (record) => {
+      records.set(record.id, structuredClone(record));
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+/**
+ * Backend that keeps data in memory only (lost on reload) - useful for tests
+ */
+export function createMemoryBackend(initial: Partial<AllData> = {}): TaskBackend {
+  return createRecordStoreBackend('memory', {
+    tasks: createMemoryTable(initial.tasks),
+    projects: createMemoryTable(initial.projects),
+    tags: createMemoryTable(initial.tags),
+    sections: createMemoryTable(initial.sections),
+  });
+}
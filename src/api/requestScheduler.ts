@@ -0,0 +1,160 @@
+// Request scheduler for the Airtable REST API
+// Shares Airtable's 5 requests/second per base limit across concurrent callers,
+// pauses everything for 30s after a 429 and retries transient failures
+// (a request that keeps hitting 429 is rejected after a few pauses)
+
+const MAX_REQUESTS_PER_WINDOW = 5;
+const RATE_WINDOW = 1000; // 5 req/s
+const RATE_LIMIT_BACKOFF = 30 * 1000; // Airtable requires waiting 30s after a 429
+const MAX_RETRIES = 3;
+const MAX_RATE_LIMIT_RETRIES = 5; // ~2.5 minutes of 429s before the caller sees the error
+const RETRY_BASE_DELAY = 1000;
+
+// Error carrying the HTTP status so the scheduler can decide whether to retry
+export class AirtableApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AirtableApiError';
+    this.status = status;
+  }
+}
+
+export interface RequestQueueStatus {
+  queued: number;
+  inFlight: number;
+  rateLimitedUntil: number | null;
+}
+
+interface ScheduledRequest {
+  run: () => Promise<unknown>;
+  retryable: boolean;
+  retries: number;
+  rateLimitRetries: number;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const queue: ScheduledRequest[] = [];
+const recentStarts: number[] = [];
+let inFlight = 0;
+let pausedUntil = 0;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: RequestQueueStatus) => void>();
+
+export function getRequestQueueStatus(): RequestQueueStatus {
+  return {
+    queued: queue.length,
+    inFlight,
+    rateLimitedUntil: pausedUntil > Date.now() ? pausedUntil : null,
+  };
+}
+
+/**
+ * Subscribe to queue depth changes. Returns an unsubscribe function.
+ */
+export function subscribeToRequestQueue(listener: (status: RequestQueueStatus) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify() {
+  const status = getRequestQueueStatus();
+  listeners.forEach(listener => listener(status));
+}
+
+function schedulePump(delay: number) {
+  if (pumpTimer) return;
+  pumpTimer = setTimeout(() => {
+    pumpTimer = null;
+    pump();
+  }, delay);
+}
+
+// 429s and network failures never reached Airtable's write path, so any request can retry;
+// 5xx responses are only retried for idempotent requests
+function shouldRetry(request: ScheduledRequest, error: unknown): boolean {
+  if (error instanceof AirtableApiError) {
+    if (error.status === 429) return request.rateLimitRetries < MAX_RATE_LIMIT_RETRIES;
+    return request.retryable && error.status >= 500 && request.retries < MAX_RETRIES;
+  }
+  return request.retryable && error instanceof TypeError && request.retries < MAX_RETRIES;
+}
+
+async function execute(request: ScheduledRequest) {
+  inFlight++;
+  notify();
+
+  try {
+    request.resolve(await request.run());
+  } catch (error) {
+    const rateLimited = error instanceof AirtableApiError && error.status === 429;
+    if (rateLimited) {
+      // Hold the whole queue, even when this request has run out of retries
+      console.warn(`[Request Scheduler] Rate limited - pausing for ${RATE_LIMIT_BACKOFF / 1000}s`);
+      pausedUntil = Date.now() + RATE_LIMIT_BACKOFF;
+    }
+
+    if (!shouldRetry(request, error)) {
+      request.reject(error);
+    } else if (rateLimited) {
+      // Resend this request first once the pause ends
+      request.rateLimitRetries++;
+      queue.unshift(request);
+    } else {
+      request.retries++;
+      const delay = RETRY_BASE_DELAY * 2 ** (request.retries - 1);
+      console.warn(`[Request Scheduler] Retrying in ${delay}ms (attempt ${request.retries}/${MAX_RETRIES})`);
+      setTimeout(() => {
+        queue.unshift(request);
+        pump();
+      }, delay);
+    }
+  } finally {
+    inFlight--;
+    notify();
+    pump();
+  }
+}
+
+function pump() {
+  while (queue.length > 0) {
+    const now = Date.now();
+
+    if (pausedUntil > now) {
+      schedulePump(pausedUntil - now);
+      return;
+    }
+
+    // Drop starts that have left the rate window
+    while (recentStarts.length > 0 && now - recentStarts[0] >= RATE_WINDOW) {
+      recentStarts.shift();
+    }
+    if (recentStarts.length >= MAX_REQUESTS_PER_WINDOW) {
+      schedulePump(RATE_WINDOW - (now - recentStarts[0]));
+      return;
+    }
+
+    recentStarts.push(now);
+    execute(queue.shift()!);
+  }
+  notify();
+}
+
+/**
+ * Queue a request to run when the rate limit allows
+ */
+export function scheduleRequest<T>(run: () => Promise<T>, options: { retryable: boolean }): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    queue.push({
+      run,
+      retryable: options.retryable,
+      retries: 0,
+      rateLimitRetries: 0,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+    });
+    pump();
+  });
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { X } from '@phosphor-icons/react';
+import { useStore } from '../store';
+
+interface AddProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AddProjectModal({ isOpen, onClose }: AddProjectModalProps) {
+  const { createProject, setSelectedProject, isDarkMode } = useStore();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const colors = {
+    bg: isDarkMode ? '#1f1f1f' : '#ffffff',
+    border: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    inputBg: isDarkMode ? '#333333' : '#ffffff',
+    primary: '#d1453b',
+  };
+
+  // Start empty next time
+  const handleClose = () => {
+    setName('');
+    setDescription('');
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+
+    const project = await createProject({
+      name: name.trim(),
+      description: description.trim(),
+    });
+
+    setIsSubmitting(false);
+    if (project) {
+      setSelectedProject(project.id);
+      handleClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      handleClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const labelStyle = {
+    display: 'block',
+    fontSize: 13,
+    fontWeight: 500,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  };
+
+  const inputStyle = {
+    width: '100%',
+    padding: '10px 12px',
+    fontSize: 14,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 8,
+    backgroundColor: colors.inputBg,
+    color: colors.text,
+    outline: 'none',
+    boxSizing: 'border-box' as const,
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={(e) => e.target === e.currentTarget && handleClose()}
+    >
+      <div
+        style={{
+          width: '100%',
+          maxWidth: 400,
+          backgroundColor: colors.bg,
+          borderRadius: 12,
+          boxShadow: '0 20px 40px rgba(0, 0, 0, 0.3)',
+          overflow: 'hidden',
+        }}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 20px',
+          borderBottom: `1px solid ${colors.border}`,
+        }}>
+          <h2 style={{ fontSize: 16, fontWeight: 600, color: colors.text, margin: 0 }}>
+            Add Project
+          </h2>
+          <button
+            onClick={handleClose}
+            style={{
+              padding: 4,
+              border: 'none',
+              backgroundColor: 'transparent',
+              color: colors.textSecondary,
+              cursor: 'pointer',
+              borderRadius: 4,
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} style={{ padding: 20 }}>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Project Name</label>
+            <input
+              autoFocus
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Website Redesign"
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginBottom: 20 }}>
+            <label style={labelStyle}>Description (optional)</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+            />
+          </div>
+
+          {/* Buttons */}
+          <div style={{ display: 'flex', gap: 12, justifyContent: 'flex-end' }}>
+            <button
+              type="button"
+              onClick={handleClose}
+              style={{
+                padding: '10px 20px',
+                fontSize: 14,
+                fontWeight: 500,
+                borderRadius: 8,
+                border: `1px solid ${colors.border}`,
+                backgroundColor: 'transparent',
+                color: colors.text,
+                cursor: 'pointer',
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim() || isSubmitting}
+              style={{
+                padding: '10px 20px',
+                fontSize: 14,
+                fontWeight: 500,
+                borderRadius: 8,
+                border: 'none',
+                backgroundColor: colors.primary,
+                color: '#ffffff',
+                cursor: name.trim() && !isSubmitting ? 'pointer' : 'not-allowed',
+                opacity: name.trim() && !isSubmitting ? 1 : 0.5,
+              }}
+            >
+              {isSubmitting ? 'Adding...' : 'Add Project'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { X } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { SECTION_COLORS } from '../utils/constants';
 
 interface AddSectionModalProps {
   isOpen: boolean;
@@ -8,18 +9,6 @@ interface AddSectionModalProps {
   projectId: string;
 }
 
-const SECTION_COLORS = [
-  { value: '#ef4444', label: 'Red' },
-  { value: '#f59e0b', label: 'Orange' },
-  { value: '#eab308', label: 'Yellow' },
-  { value: '#22c55e', label: 'Green' },
-  { value: '#06b6d4', label: 'Cyan' },
-  { value: '#3b82f6', label: 'Blue' },
-  { value: '#8b5cf6', label: 'Purple' },
-  { value: '#ec4899', label: 'Pink' },
-  { value: '#6b7280', label: 'Gray' },
-];
-
 export function AddSectionModal({ isOpen, onClose, projectId }: AddSectionModalProps) {
   const { createSection, sections, isDarkMode } = useStore();
   const [name, setName] = useState('');
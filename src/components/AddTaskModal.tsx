@@ -1,9 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { X } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { STATUS_OPTIONS, PRIORITY_OPTIONS } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { parseQuickAdd } from '../utils/quickAdd';
+import type { QuickAddTokenType } from '../utils/quickAdd';
+import { formatDate } from '../utils/dates';
 import type { Task } from '../types';
 
+// Highlight color per recognized quick-add token
+const TOKEN_COLORS: Record<QuickAddTokenType, string> = {
+  date: '#16a34a',
+  time: '#16a34a',
+  duration: '#16a34a',
+  recurrence: '#7c3aed',
+  project: '#d1453b',
+  tag: '#2563eb',
+  priority: '#ea580c',
+};
+
 interface AddTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -14,6 +28,7 @@ interface AddTaskModalProps {
 
 export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentTaskId, parentTask }: AddTaskModalProps) {
   const { projects, tags, tasks, createTask, isDarkMode } = useStore();
+  const { statuses, priorities, defaultStatus, isDone } = useTaskOptions();
   
   // Determine if this is a subtask modal
   const isSubtaskMode = !!parentTask;
@@ -24,11 +39,54 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
   const [dueDate, setDueDate] = useState('');
   const [startDate, setStartDate] = useState('');
   const [priority, setPriority] = useState<string>('');
-  const [status, setStatus] = useState<string>('📥 Inbox');
+  // Empty until picked, so the base's default applies once its statuses have loaded
+  const [status, setStatus] = useState('');
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [parentTaskId, setParentTaskId] = useState<string | null>(effectiveParentTaskId);
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  
+  // Quick add: "Email Sarah tomorrow 3pm #EMEA @Context p1" fills in the fields below
+  const parsed = useMemo(() => parseQuickAdd(name, {
+    projects: projects.filter(p => p.status === 'Active'),
+    tags,
+    priorities,
+  }), [name, projects, tags, priorities]);
+  
+  // Recognized values, in the order they'd appear on the task
+  const parsedSummary = [
+    parsed.dueDate && `Due ${formatDate(parsed.dueDate)}`,
+    parsed.scheduledTime,
+    parsed.duration,
+    parsed.recurrence,
+    parsed.projectId && projects.find(p => p.id === parsed.projectId)?.name,
+    ...parsed.tagIds.map(id => `@${tags.find(t => t.id === id)?.name}`),
+    parsed.priority,
+  ].filter(Boolean).join(' · ');
+  
+  const renderHighlightedName = () => {
+    const nodes: React.ReactNode[] = [];
+    let pos = 0;
+    for (const token of parsed.tokens) {
+      nodes.push(name.slice(pos, token.start));
+      nodes.push(
+        <span
+          key={token.start}
+          style={{
+            color: TOKEN_COLORS[token.type],
+            backgroundColor: `${TOKEN_COLORS[token.type]}26`,
+            borderRadius: 3,
+          }}
+        >
+          {token.text}
+        </span>
+      );
+      pos = token.end;
+    }
+    nodes.push(name.slice(pos));
+    return nodes;
+  };
   
   // Update parentTaskId when parentTask prop changes
   useEffect(() => {
@@ -52,7 +110,7 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
   };
   
   const activeProjects = projects.filter(p => p.status === 'Active');
-  const parentTasks = tasks.filter(t => !t.parentTaskId && t.status !== '✅ Done');
+  const parentTasks = tasks.filter(t => !t.parentTaskId && !isDone(t.status));
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,16 +119,20 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
     setIsSubmitting(true);
     
     try {
+      // Values typed into the name take precedence over the controls
       await createTask({
-        name: name.trim(),
-        status,
-        priority,
-        projectId,
-        tagIds: selectedTagIds,
-        dueDate: dueDate || null,
+        name: parsed.name || name.trim(),
+        status: status || null,
+        priority: parsed.priority ?? priority,
+        projectId: parsed.projectId ?? projectId,
+        tagIds: [...new Set([...selectedTagIds, ...parsed.tagIds])],
+        dueDate: parsed.dueDate ?? (dueDate || null),
         startDate: startDate || null,
         parentTaskId,
         notes,
+        ...(parsed.scheduledTime ? { scheduledTime: parsed.scheduledTime } : {}),
+        ...(parsed.duration ? { duration: parsed.duration } : {}),
+        ...(parsed.recurrence ? { recurrence: parsed.recurrence } : {}),
       });
       
       // Reset form
@@ -79,7 +141,7 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
       setDueDate('');
       setStartDate('');
       setPriority('');
-      setStatus('📥 Inbox');
+      setStatus('');
       setSelectedTagIds([]);
       setParentTaskId(null);
       setNotes('');
@@ -161,24 +223,57 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
             <label style={{ display: 'block', fontSize: 13, fontWeight: 500, color: colors.textSecondary, marginBottom: 6 }}>
               Task Name *
             </label>
-            <input
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="What needs to be done?"
-              required
-              autoFocus
-              style={{
-                width: '100%',
-                padding: '10px 12px',
-                fontSize: 14,
-                border: `1px solid ${colors.border}`,
-                borderRadius: 6,
-                backgroundColor: colors.inputBg,
-                color: colors.text,
-                outline: 'none',
-              }}
-            />
+            <div style={{ position: 'relative' }}>
+              {/* Mirror of the input text with recognized tokens highlighted */}
+              <div
+                ref={highlightRef}
+                aria-hidden
+                style={{
+                  position: 'absolute',
+                  inset: 0,
+                  padding: '10px 12px',
+                  fontSize: 14,
+                  border: '1px solid transparent',
+                  borderRadius: 6,
+                  backgroundColor: colors.inputBg,
+                  color: name ? colors.text : colors.textSecondary,
+                  whiteSpace: 'pre',
+                  overflow: 'hidden',
+                  pointerEvents: 'none',
+                }}
+              >
+                {name ? renderHighlightedName() : (
+                  'e.g. Email Sarah tomorrow 3pm #Project @tag p1'
+                )}
+              </div>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onScroll={(e) => {
+                  if (highlightRef.current) highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+                }}
+                required
+                autoFocus
+                style={{
+                  position: 'relative',
+                  width: '100%',
+                  padding: '10px 12px',
+                  fontSize: 14,
+                  border: `1px solid ${colors.border}`,
+                  borderRadius: 6,
+                  backgroundColor: 'transparent',
+                  color: 'transparent',
+                  caretColor: colors.text,
+                  outline: 'none',
+                }}
+              />
+            </div>
+            {parsedSummary && (
+              <div style={{ marginTop: 6, fontSize: 12, color: colors.textSecondary }}>
+                {parsedSummary}
+              </div>
+            )}
           </div>
           
           {/* Project */}
@@ -272,7 +367,7 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
                 }}
               >
                 <option value="">No priority</option>
-                {PRIORITY_OPTIONS.map(opt => (
+                {priorities.map(opt => (
                   <option key={opt.value} value={opt.value}>{opt.label}</option>
                 ))}
               </select>
@@ -282,7 +377,7 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
                 Status
               </label>
               <select
-                value={status}
+                value={status || defaultStatus}
                 onChange={(e) => setStatus(e.target.value)}
                 style={{
                   width: '100%',
@@ -295,7 +390,7 @@ export function AddTaskModal({ isOpen, onClose, defaultProjectId, defaultParentT
                   outline: 'none',
                 }}
               >
-                {STATUS_OPTIONS.filter(opt => opt.value !== '✅ Done').map(opt => (
+                {statuses.filter(opt => opt.category !== 'done').map(opt => (
                   <option key={opt.value} value={opt.value}>{opt.label}</option>
                 ))}
               </select>
@@ -0,0 +1,119 @@
+import { ArrowCounterClockwise, Trash, Circle } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
+import { isArchivedProject } from '../utils/projects';
+import type { Project } from '../types';
+
+/**
+ * Archived projects, which are hidden everywhere else. A project can be
+ * opened from here, restored to the active list or deleted.
+ */
+export function ArchivedProjectsView() {
+  const {
+    projects,
+    tasks,
+    setSelectedProject,
+    unarchiveProject,
+    deleteProject,
+    showConfirm,
+    isDarkMode,
+  } = useStore();
+  const { isDone } = useTaskOptions();
+  const getProjectColor = useProjectColors();
+
+  const colors = {
+    cardBg: isDarkMode ? '#282828' : '#f9fafb',
+    cardBorder: isDarkMode ? '#3a3a3a' : '#e5e7eb',
+    text: isDarkMode ? '#ffffff' : '#111827',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#6b7280',
+    textMuted: isDarkMode ? '#606060' : '#9ca3af',
+  };
+
+  const archived = projects.filter(isArchivedProject);
+
+  const handleDelete = (project: Project) => {
+    showConfirm({
+      title: 'Delete project',
+      message: `Delete "${project.name}" and its sections? Its tasks will be moved to the Inbox.`,
+      type: 'delete',
+      onConfirm: () => deleteProject(project.id),
+    });
+  };
+
+  const buttonStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '4px 10px',
+    borderRadius: 8,
+    border: `1px solid ${colors.cardBorder}`,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: 500,
+    cursor: 'pointer',
+  };
+
+  if (archived.length === 0) {
+    return (
+      <div style={{ padding: '48px 0', textAlign: 'center', fontSize: 14, color: colors.textSecondary }}>
+        No archived projects
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 720, padding: '24px 32px' }}>
+      {archived.map(project => {
+        const projectTasks = tasks.filter(t => t.projectId === project.id);
+        const openCount = projectTasks.filter(t => !isDone(t.status)).length;
+        return (
+          <div
+            key={project.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 12,
+              padding: '10px 12px',
+              marginBottom: 8,
+              borderRadius: 8,
+              border: `1px solid ${colors.cardBorder}`,
+              backgroundColor: colors.cardBg,
+            }}
+          >
+            <Circle size={8} weight="fill" style={{ color: getProjectColor(project.id) }} />
+            <button
+              onClick={() => setSelectedProject(project.id)}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                padding: 0,
+                border: 'none',
+                backgroundColor: 'transparent',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              <div style={{ fontSize: 14, color: colors.text, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {project.name}
+              </div>
+              <div style={{ marginTop: 2, fontSize: 11, color: colors.textMuted }}>
+                {projectTasks.length} {projectTasks.length === 1 ? 'task' : 'tasks'}
+                {openCount > 0 && ` · ${openCount} open`}
+              </div>
+            </button>
+            <button onClick={() => unarchiveProject(project.id)} style={buttonStyle}>
+              <ArrowCounterClockwise size={14} />
+              Restore
+            </button>
+            <button onClick={() => handleDelete(project)} style={{ ...buttonStyle, color: '#ef4444' }}>
+              <Trash size={14} />
+              Delete
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
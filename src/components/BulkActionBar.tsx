@@ -0,0 +1,352 @@
+import { useState, useRef, useEffect } from 'react';
+import {
+  CheckCircle,
+  CalendarBlank,
+  FolderSimple,
+  Flag,
+  Tag,
+  Trash,
+  X,
+} from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { formatDateForInput } from '../utils/dates';
+import { isArchivedProject } from '../utils/projects';
+import type { Task } from '../types';
+
+type BulkMenu = 'date' | 'move' | 'priority' | 'tags';
+
+function addDays(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateForInput(date);
+}
+
+// Next Monday, never today
+function nextWeek(): string {
+  const today = new Date().getDay();
+  return addDays(((1 - today + 7) % 7) || 7);
+}
+
+/**
+ * Floating bar for acting on the multi-selection. Every action is one batched
+ * store operation, however many tasks are selected.
+ */
+export function BulkActionBar() {
+  const {
+    tasks,
+    projects,
+    sections,
+    tags,
+    selectedTaskIds,
+    clearTaskSelection,
+    updateTasks,
+    completeTasks,
+    deleteTasks,
+    showConfirm,
+    subtaskSettings,
+    isDarkMode,
+  } = useStore();
+  const { priorities } = useTaskOptions();
+
+  const [openMenu, setOpenMenu] = useState<BulkMenu | null>(null);
+  const [moveProjectId, setMoveProjectId] = useState<string>('');
+  const barRef = useRef<HTMLDivElement>(null);
+
+  const colors = {
+    bg: isDarkMode ? '#282828' : '#ffffff',
+    border: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    hover: isDarkMode ? '#333333' : '#f5f5f5',
+    primary: '#d1453b',
+  };
+
+  // Close menus when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (barRef.current && !barRef.current.contains(e.target as Node)) {
+        setOpenMenu(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const selectedTasks = tasks.filter(t => selectedTaskIds.includes(t.id));
+  if (selectedTasks.length === 0) return null;
+
+  const applyToAll = (updates: Partial<Task>) => {
+    setOpenMenu(null);
+    updateTasks(selectedTasks.map(t => ({ id: t.id, updates })));
+  };
+
+  const handleComplete = async () => {
+    await completeTasks(selectedTasks.map(t => t.id));
+    clearTaskSelection();
+  };
+
+  const handleDelete = () => {
+    const count = selectedTasks.length;
+    showConfirm({
+      title: `Delete ${count} ${count === 1 ? 'task' : 'tasks'}`,
+      message: subtaskSettings.deleteSubtasks === 'promote'
+        ? `Move ${count === 1 ? `"${selectedTasks[0].name}"` : `these ${count} tasks`} to the trash? Any subtasks will be kept.`
+        : `Move ${count === 1 ? `"${selectedTasks[0].name}"` : `these ${count} tasks`} and any subtasks to the trash?`,
+      type: 'delete',
+      onConfirm: async () => {
+        await deleteTasks(selectedTasks.map(t => t.id));
+        clearTaskSelection();
+      },
+    });
+  };
+
+  const handleMove = (projectId: string | null, sectionId: string | null) => {
+    setOpenMenu(null);
+    setMoveProjectId('');
+    updateTasks(selectedTasks.map(t => ({ id: t.id, updates: { projectId, sectionId } })));
+  };
+
+  // Tags are per task, so only tasks whose tags actually change are sent
+  const handleToggleTag = (tagId: string, add: boolean) => {
+    const changes = selectedTasks
+      .filter(t => t.tagIds.includes(tagId) !== add)
+      .map(t => ({
+        id: t.id,
+        updates: { tagIds: add ? [...t.tagIds, tagId] : t.tagIds.filter(id => id !== tagId) },
+      }));
+    updateTasks(changes);
+  };
+
+  const toggleMenu = (menu: BulkMenu) => setOpenMenu(openMenu === menu ? null : menu);
+
+  const buttonStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '6px 10px',
+    border: 'none',
+    borderRadius: 6,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  const menuStyle = {
+    position: 'absolute' as const,
+    bottom: '100%',
+    marginBottom: 8,
+    minWidth: 200,
+    maxHeight: 320,
+    overflowY: 'auto' as const,
+    padding: 4,
+    backgroundColor: colors.bg,
+    border: `1px solid ${colors.border}`,
+    borderRadius: 8,
+    boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+  };
+
+  const menuItemStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    width: '100%',
+    padding: '8px 10px',
+    border: 'none',
+    borderRadius: 4,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 13,
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+  };
+
+  const hoverHandlers = {
+    onMouseEnter: (e: React.MouseEvent<HTMLElement>) => { e.currentTarget.style.backgroundColor = colors.hover; },
+    onMouseLeave: (e: React.MouseEvent<HTMLElement>) => { e.currentTarget.style.backgroundColor = 'transparent'; },
+  };
+
+  const moveSections = sections
+    .filter(s => s.projectId === moveProjectId)
+    .sort((a, b) => a.order - b.order);
+
+  return (
+    <div
+      ref={barRef}
+      style={{
+        position: 'fixed',
+        bottom: 24,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 4,
+        padding: '6px 8px',
+        backgroundColor: colors.bg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: 10,
+        boxShadow: '0 8px 24px rgba(0,0,0,0.2)',
+        zIndex: 150,
+      }}
+    >
+      <span style={{ padding: '0 8px', fontSize: 13, fontWeight: 600, color: colors.text }}>
+        {selectedTasks.length} selected
+      </span>
+
+      <button onClick={handleComplete} style={buttonStyle} {...hoverHandlers}>
+        <CheckCircle size={16} /> Complete
+      </button>
+
+      {/* Reschedule */}
+      <div style={{ position: 'relative' }}>
+        <button onClick={() => toggleMenu('date')} style={buttonStyle} {...hoverHandlers}>
+          <CalendarBlank size={16} /> Date
+        </button>
+        {openMenu === 'date' && (
+          <div style={menuStyle}>
+            {[
+              { label: 'Today', value: addDays(0) },
+              { label: 'Tomorrow', value: addDays(1) },
+              { label: 'Next week', value: nextWeek() },
+              { label: 'No date', value: null },
+            ].map(option => (
+              <button
+                key={option.label}
+                onClick={() => applyToAll({ dueDate: option.value })}
+                style={menuItemStyle}
+                {...hoverHandlers}
+              >
+                {option.label}
+              </button>
+            ))}
+            <input
+              type="date"
+              onChange={(e) => e.target.value && applyToAll({ dueDate: e.target.value })}
+              style={{
+                width: '100%',
+                marginTop: 4,
+                padding: '6px 8px',
+                borderRadius: 4,
+                border: `1px solid ${colors.border}`,
+                backgroundColor: 'transparent',
+                color: colors.text,
+                fontSize: 13,
+                boxSizing: 'border-box',
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Move to project/section */}
+      <div style={{ position: 'relative' }}>
+        <button onClick={() => { toggleMenu('move'); setMoveProjectId(''); }} style={buttonStyle} {...hoverHandlers}>
+          <FolderSimple size={16} /> Move
+        </button>
+        {openMenu === 'move' && (
+          <div style={menuStyle}>
+            {moveProjectId ? (
+              <>
+                <button onClick={() => setMoveProjectId('')} style={{ ...menuItemStyle, color: colors.textSecondary }} {...hoverHandlers}>
+                  ← {projects.find(p => p.id === moveProjectId)?.name}
+                </button>
+                <button onClick={() => handleMove(moveProjectId, null)} style={menuItemStyle} {...hoverHandlers}>
+                  No section
+                </button>
+                {moveSections.map(section => (
+                  <button key={section.id} onClick={() => handleMove(moveProjectId, section.id)} style={menuItemStyle} {...hoverHandlers}>
+                    {section.name}
+                  </button>
+                ))}
+              </>
+            ) : (
+              <>
+                <button onClick={() => handleMove(null, null)} style={menuItemStyle} {...hoverHandlers}>
+                  No project
+                </button>
+                {projects.filter(project => !isArchivedProject(project)).map(project => (
+                  <button
+                    key={project.id}
+                    onClick={() => {
+                      // Pick a section next, unless the project has none
+                      if (sections.some(s => s.projectId === project.id)) setMoveProjectId(project.id);
+                      else handleMove(project.id, null);
+                    }}
+                    style={menuItemStyle}
+                    {...hoverHandlers}
+                  >
+                    {project.name}
+                  </button>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Priority */}
+      <div style={{ position: 'relative' }}>
+        <button onClick={() => toggleMenu('priority')} style={buttonStyle} {...hoverHandlers}>
+          <Flag size={16} /> Priority
+        </button>
+        {openMenu === 'priority' && (
+          <div style={menuStyle}>
+            {[...priorities].sort((a, b) => b.level - a.level).map(option => (
+              <button key={option.value} onClick={() => applyToAll({ priority: option.value })} style={menuItemStyle} {...hoverHandlers}>
+                <Flag size={14} weight="fill" style={{ color: option.color }} />
+                {option.label}
+              </button>
+            ))}
+            <button onClick={() => applyToAll({ priority: null })} style={menuItemStyle} {...hoverHandlers}>
+              <Flag size={14} style={{ color: colors.textSecondary }} />
+              No priority
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Tags - checked when every selected task has the tag */}
+      <div style={{ position: 'relative' }}>
+        <button onClick={() => toggleMenu('tags')} style={buttonStyle} {...hoverHandlers}>
+          <Tag size={16} /> Tags
+        </button>
+        {openMenu === 'tags' && (
+          <div style={menuStyle}>
+            {tags.length === 0 && (
+              <div style={{ padding: '8px 10px', fontSize: 13, color: colors.textSecondary }}>No tags</div>
+            )}
+            {tags.map(tag => {
+              const count = selectedTasks.filter(t => t.tagIds.includes(tag.id)).length;
+              const all = count === selectedTasks.length;
+              return (
+                <label key={tag.id} style={menuItemStyle} {...hoverHandlers}>
+                  <input
+                    type="checkbox"
+                    checked={all}
+                    ref={(el) => { if (el) el.indeterminate = count > 0 && !all; }}
+                    onChange={() => handleToggleTag(tag.id, !all)}
+                  />
+                  @{tag.name}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <button onClick={handleDelete} style={{ ...buttonStyle, color: '#ef4444' }} {...hoverHandlers}>
+        <Trash size={16} /> Delete
+      </button>
+
+      <button
+        onClick={clearTaskSelection}
+        style={{ ...buttonStyle, color: colors.textSecondary }}
+        title="Clear selection (Esc)"
+        {...hoverHandlers}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState, useMemo, useRef, useEffect } from 'react';
+import {
+  MagnifyingGlass,
+  CalendarBlank,
+  CalendarDots,
+  Tray,
+  Folder,
+  FunnelSimple,
+  GearSix,
+  Hash,
+  Tag,
+  Plus,
+  ArrowsClockwise,
+  Moon,
+  Eye,
+  Keyboard,
+  Trash,
+  Archive,
+} from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { fuzzyFilter } from '../utils/fuzzy';
+import { isArchivedProject } from '../utils/projects';
+import type { ViewType } from '../types';
+
+interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  icon: React.ReactNode;
+  // Shortcut shown on the right, e.g. "G T"
+  hint?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAddTask: () => void;
+  onCreateFilter: () => void;
+  onShowShortcuts: () => void;
+}
+
+const VIEW_COMMANDS: { view: ViewType; label: string; icon: React.ReactNode; hint?: string }[] = [
+  { view: 'today', label: 'Today', icon: <CalendarBlank size={16} />, hint: 'G T' },
+  { view: 'inbox', label: 'Inbox', icon: <Tray size={16} />, hint: 'G I' },
+  { view: 'upcoming', label: 'Upcoming', icon: <CalendarDots size={16} />, hint: 'G U' },
+  { view: 'projects', label: 'Projects', icon: <Folder size={16} />, hint: 'G P' },
+  { view: 'filters', label: 'Filters', icon: <FunnelSimple size={16} />, hint: 'G F' },
+  { view: 'schedule', label: 'Schedule', icon: <CalendarBlank size={16} weight="fill" /> },
+  { view: 'settings', label: 'Airtable settings', icon: <GearSix size={16} /> },
+  { view: 'trash', label: 'Trash', icon: <Trash size={16} /> },
+  { view: 'archived', label: 'Archived projects', icon: <Archive size={16} /> },
+  { view: 'tags', label: 'Manage tags', icon: <Tag size={16} /> },
+];
+
+export function CommandPalette({ isOpen, onClose, onAddTask, onCreateFilter, onShowShortcuts }: CommandPaletteProps) {
+  const {
+    projects,
+    tags,
+    filters,
+    showCompleted,
+    isDarkMode,
+    isOnline,
+    isSyncing,
+    setView,
+    toggleDarkMode,
+    toggleShowCompleted,
+    syncPendingChanges,
+    showToast,
+  } = useStore();
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const colors = {
+    bg: isDarkMode ? '#1f1f1f' : '#ffffff',
+    border: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    active: isDarkMode ? '#333333' : '#f5f5f5',
+  };
+
+  const commands = useMemo<PaletteCommand[]>(() => [
+    ...VIEW_COMMANDS.map(({ view, label, icon, hint }) => ({
+      id: `view:${view}`,
+      label: `Go to ${label}`,
+      group: 'Navigation',
+      icon,
+      hint,
+      run: () => setView(view),
+    })),
+    ...projects.filter(project => !isArchivedProject(project)).map(project => ({
+      id: `project:${project.id}`,
+      label: project.name,
+      group: 'Projects',
+      icon: <Hash size={16} />,
+      run: () => setView('project', project.id),
+    })),
+    ...tags.map(tag => ({
+      id: `tag:${tag.id}`,
+      label: `@${tag.name}`,
+      group: 'Tags',
+      icon: <Tag size={16} />,
+      run: () => setView('tag', tag.id),
+    })),
+    ...filters.map(filter => ({
+      id: `filter:${filter.id}`,
+      label: filter.name,
+      group: 'Filters',
+      icon: <FunnelSimple size={16} />,
+      run: () => setView('filter', filter.id),
+    })),
+    { id: 'add-task', label: 'Add task', group: 'Actions', icon: <Plus size={16} />, hint: 'Q', run: onAddTask },
+    { id: 'create-filter', label: 'Create filter', group: 'Actions', icon: <FunnelSimple size={16} />, run: onCreateFilter },
+    {
+      id: 'sync',
+      label: 'Sync now',
+      group: 'Actions',
+      icon: <ArrowsClockwise size={16} />,
+      run: () => {
+        if (!isOnline) showToast('You\'re offline - changes will sync when reconnected', 'info');
+        else if (!isSyncing) syncPendingChanges();
+      },
+    },
+    {
+      id: 'toggle-completed',
+      label: showCompleted ? 'Hide completed tasks' : 'Show completed tasks',
+      group: 'Actions',
+      icon: <Eye size={16} />,
+      run: toggleShowCompleted,
+    },
+    {
+      id: 'toggle-theme',
+      label: isDarkMode ? 'Switch to light mode' : 'Switch to dark mode',
+      group: 'Actions',
+      icon: <Moon size={16} />,
+      run: toggleDarkMode,
+    },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', group: 'Actions', icon: <Keyboard size={16} />, hint: '?', run: onShowShortcuts },
+  ], [
+    projects, tags, filters, showCompleted, isDarkMode, isOnline, isSyncing,
+    setView, toggleDarkMode, toggleShowCompleted, syncPendingChanges, showToast,
+    onAddTask, onCreateFilter, onShowShortcuts,
+  ]);
+
+  const results = useMemo(
+    () => fuzzyFilter(commands, query, command => `${command.group === 'Projects' ? '#' : ''}${command.label}`).slice(0, 50),
+    [commands, query]
+  );
+
+  // Keep the active row in view while arrowing through results
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const close = () => {
+    setQuery('');
+    setActiveIndex(0);
+    onClose();
+  };
+
+  const runCommand = (command: PaletteCommand) => {
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) runCommand(results[activeIndex]);
+    } else if (e.key === 'Escape' || (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'flex-start',
+        justifyContent: 'center',
+        paddingTop: '15vh',
+        zIndex: 2000,
+      }}
+      onClick={(e) => e.target === e.currentTarget && close()}
+    >
+      <div style={{
+        width: 560,
+        backgroundColor: colors.bg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: 12,
+        boxShadow: '0 20px 40px rgba(0, 0, 0, 0.3)',
+        overflow: 'hidden',
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 10,
+          padding: '14px 16px',
+          borderBottom: `1px solid ${colors.border}`,
+        }}>
+          <MagnifyingGlass size={18} style={{ color: colors.textSecondary, flexShrink: 0 }} />
+          <input
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command, project, tag or filter..."
+            autoFocus
+            style={{
+              flex: 1,
+              border: 'none',
+              backgroundColor: 'transparent',
+              fontSize: 15,
+              color: colors.text,
+              outline: 'none',
+            }}
+          />
+        </div>
+
+        <div ref={listRef} style={{ maxHeight: 360, overflowY: 'auto', padding: 6 }}>
+          {results.length === 0 ? (
+            <div style={{ padding: 16, textAlign: 'center', fontSize: 14, color: colors.textSecondary }}>
+              No matching commands
+            </div>
+          ) : (
+            results.map((command, index) => (
+              <button
+                key={command.id}
+                onClick={() => runCommand(command)}
+                onMouseMove={() => index !== activeIndex && setActiveIndex(index)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 10,
+                  width: '100%',
+                  padding: '8px 10px',
+                  border: 'none',
+                  borderRadius: 6,
+                  backgroundColor: index === activeIndex ? colors.active : 'transparent',
+                  color: colors.text,
+                  fontSize: 14,
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                <span style={{ display: 'flex', color: colors.textSecondary }}>{command.icon}</span>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {command.label}
+                </span>
+                <span style={{ fontSize: 11, color: colors.textSecondary }}>{command.hint ?? command.group}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { Warning, Trash, Info } from '@phosphor-icons/react';
 import { useStore } from '../store';
 
@@ -12,6 +13,11 @@ interface ConfirmModalProps {
   cancelLabel?: string;
   onConfirm: () => void;
   onCancel: () => void;
+  // Optional third choice, shown between cancel and confirm
+  secondaryLabel?: string;
+  onSecondary?: () => void;
+  // Clicking outside the modal or pressing Escape; defaults to onCancel
+  onDismiss?: () => void;
 }
 
 export function ConfirmModal({
@@ -23,9 +29,21 @@ export function ConfirmModal({
   cancelLabel = 'Cancel',
   onConfirm,
   onCancel,
+  secondaryLabel,
+  onSecondary,
+  onDismiss = onCancel,
 }: ConfirmModalProps) {
   const { isDarkMode } = useStore();
   
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onDismiss();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onDismiss]);
+  
   const colors = {
     bg: isDarkMode ? '#1f1f1f' : '#ffffff',
     surface: isDarkMode ? '#282828' : '#ffffff',
@@ -74,7 +92,7 @@ export function ConfirmModal({
         justifyContent: 'center',
         zIndex: 2000,
       }}
-      onClick={(e) => e.target === e.currentTarget && onCancel()}
+      onClick={(e) => e.target === e.currentTarget && onDismiss()}
     >
       <div
         style={{
@@ -145,6 +163,24 @@ export function ConfirmModal({
           >
             {cancelLabel}
           </button>
+          {secondaryLabel && onSecondary && (
+            <button
+              onClick={onSecondary}
+              style={{
+                flex: 1,
+                padding: '12px 16px',
+                fontSize: 14,
+                fontWeight: 500,
+                borderRadius: 8,
+                border: `1px solid ${config.confirmBg}`,
+                backgroundColor: 'transparent',
+                color: config.confirmBg,
+                cursor: 'pointer',
+              }}
+            >
+              {secondaryLabel}
+            </button>
+          )}
           <button
             onClick={onConfirm}
             style={{
@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { X, Trash, Play, Pause, Stop, Clock, Plus, CheckCircle, Circle } from '@phosphor-icons/react';
+import { X, Trash, Play, Pause, Stop, Clock, Plus, CheckCircle, Circle, Repeat } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { STATUS_OPTIONS, PRIORITY_OPTIONS, SCHEDULED_TIME_OPTIONS, DURATION_OPTIONS, STORAGE_KEYS } from '../utils/constants';
-import { formatDateForInput } from '../utils/dates';
+import { SCHEDULED_TIME_OPTIONS, DURATION_OPTIONS, STORAGE_KEYS } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { formatDate, formatDateForInput } from '../utils/dates';
+import { parseRecurrence, getNextOccurrence, RECURRENCE_PRESETS } from '../utils/recurrence';
 import type { Task } from '../types';
 
 interface EditTaskPanelProps {
@@ -12,7 +14,8 @@ interface EditTaskPanelProps {
 }
 
 export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProps) {
-  const { projects, tags, tasks, updateTask, deleteTask, isDarkMode, showConfirm } = useStore();
+  const { projects, tags, tasks, updateTask, completeTask, deleteTask, isDarkMode, showConfirm, subtaskSettings } = useStore();
+  const { statuses, priorities, defaultStatus, isDone: isDoneStatus } = useTaskOptions();
   
   const [name, setName] = useState('');
   const [projectId, setProjectId] = useState<string | null>(null);
@@ -28,6 +31,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
   const [syncToCalendar, setSyncToCalendar] = useState(false);
   const [plannedEffort, setPlannedEffort] = useState('');
   const [actualEffort, setActualEffort] = useState('');
+  const [recurrence, setRecurrence] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Timer state
@@ -57,8 +61,8 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
   }, [task, tasks]);
   
   const completedSubtasksCount = useMemo(() => {
-    return subtasks.filter(t => t.status === '✅ Done').length;
-  }, [subtasks]);
+    return subtasks.filter(t => isDoneStatus(t.status)).length;
+  }, [subtasks, isDoneStatus]);
   
   // Load task data when task changes
   useEffect(() => {
@@ -68,7 +72,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
       setDueDate(formatDateForInput(task.dueDate));
       setStartDate(formatDateForInput(task.startDate));
       setPriority(task.priority || '');
-      setStatus(task.status || '📥 Inbox');
+      setStatus(task.status || defaultStatus);
       setSelectedTagIds(task.tagIds || []);
       setParentTaskId(task.parentTaskId);
       setNotes(task.notes || '');
@@ -77,6 +81,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
       setSyncToCalendar(task.syncToCalendar || false);
       setPlannedEffort(formatDurationForDisplay(task.plannedEffort));
       setActualEffort(formatDurationForDisplay(task.actualEffort));
+      setRecurrence(task.recurrence || '');
       
       // Load timer state from localStorage if it's for this task
       const savedTimer = localStorage.getItem(STORAGE_KEYS.ACTIVE_TIMER);
@@ -96,7 +101,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
         }
       }
     }
-  }, [task]);
+  }, [task, defaultStatus]);
   
   // Timer effect - update display every second when running
   useEffect(() => {
@@ -168,7 +173,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
   };
   
   const activeProjects = projects.filter(p => p.status === 'Active');
-  const parentTasks = tasks.filter(t => !t.parentTaskId && t.status !== '✅ Done' && t.id !== task?.id);
+  const parentTasks = tasks.filter(t => !t.parentTaskId && !isDoneStatus(t.status) && t.id !== task?.id);
   
   // Timer controls
   const handleStartTimer = useCallback(() => {
@@ -270,16 +275,28 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
     }));
   }, [task, timerState]);
   
+  // Preview of the next occurrence, based on the dates currently in the form
+  const recurrenceText = recurrence.trim();
+  const isRecurrenceValid = !recurrenceText || parseRecurrence(recurrenceText) !== null;
+  const nextOccurrence = recurrenceText && isRecurrenceValid
+    ? getNextOccurrence({ recurrence: recurrenceText, dueDate: dueDate || null, startDate: startDate || null })
+    : null;
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!task || !name.trim()) return;
+    if (!task || !name.trim() || !isRecurrenceValid) return;
     
     setIsSubmitting(true);
     
     try {
+      // Completing goes through completeTask so recurring tasks roll forward and
+      // subtasks follow the subtask settings; the other edits are saved first
+      const isCompleting = !isDoneStatus(task.status) && isDoneStatus(status);
+      const isReopening = isDoneStatus(task.status) && !isDoneStatus(status);
       await updateTask(task.id, {
         name: name.trim(),
-        status,
+        ...(isCompleting ? {} : { status }),
+        ...(isReopening ? { completedDate: null } : {}),
         priority,
         projectId,
         tagIds: selectedTagIds,
@@ -292,7 +309,11 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
         syncToCalendar,
         plannedEffort: parseDurationInput(plannedEffort),
         actualEffort: parseDurationInput(actualEffort),
+        // Only sent when changed, so bases without a Recurrence field keep working
+        ...(recurrenceText !== (task.recurrence || '') ? { recurrence: recurrenceText || null } : {}),
       });
+      // updateTask reports its own failure
+      if (isCompleting && useStore.getState().toast?.type !== 'error') await completeTask(task.id);
       
       onClose();
     } finally {
@@ -302,9 +323,11 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
   
   const handleDelete = () => {
     if (!task) return;
+    const hasSubtasks = subtasks.length > 0;
+    const keepSubtasks = subtaskSettings.deleteSubtasks === 'promote';
     showConfirm({
       title: 'Delete Task',
-      message: `Are you sure you want to delete "${task.name}"? This action cannot be undone.`,
+      message: `Move "${task.name}"${hasSubtasks && !keepSubtasks ? ' and its subtasks' : ''} to the trash?${hasSubtasks && keepSubtasks ? ' Its subtasks will be kept.' : ''} You can restore it from Trash.`,
       type: 'delete',
       onConfirm: async () => {
         await deleteTask(task.id);
@@ -459,6 +482,45 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
           </div>
         </div>
         
+        {/* Recurrence */}
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, fontWeight: 500, color: colors.textSecondary, marginBottom: 6 }}>
+            <Repeat size={14} />
+            Repeat
+          </label>
+          <input
+            type="text"
+            list="recurrence-presets"
+            value={recurrence}
+            onChange={(e) => setRecurrence(e.target.value)}
+            placeholder="e.g. every weekday, every 2 weeks on Mon"
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              fontSize: 14,
+              border: `1px solid ${isRecurrenceValid ? colors.border : '#ef4444'}`,
+              borderRadius: 6,
+              backgroundColor: colors.inputBg,
+              color: colors.text,
+              outline: 'none',
+            }}
+          />
+          <datalist id="recurrence-presets">
+            {RECURRENCE_PRESETS.map(preset => (
+              <option key={preset} value={preset} />
+            ))}
+          </datalist>
+          {recurrenceText && (
+            <div style={{ marginTop: 4, fontSize: 12, color: isRecurrenceValid ? colors.textSecondary : '#ef4444' }}>
+              {!isRecurrenceValid
+                ? 'Not recognised - try "every day", "every month on the last Friday" or "every 3 days after completion"'
+                : nextOccurrence
+                  ? `Completing it moves it to ${formatDate(nextOccurrence.dueDate || nextOccurrence.startDate)}`
+                  : null}
+            </div>
+          )}
+        </div>
+        
         {/* Priority & Status */}
         <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
           <div style={{ flex: 1 }}>
@@ -480,7 +542,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
               }}
             >
               <option value="">No priority</option>
-              {PRIORITY_OPTIONS.map(opt => (
+              {priorities.map(opt => (
                 <option key={opt.value} value={opt.value}>{opt.label}</option>
               ))}
             </select>
@@ -503,7 +565,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
                 outline: 'none',
               }}
             >
-              {STATUS_OPTIONS.map(opt => (
+              {statuses.map(opt => (
                 <option key={opt.value} value={opt.value}>{opt.label}</option>
               ))}
             </select>
@@ -983,7 +1045,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
                 overflow: 'hidden',
               }}>
                 {subtasks.map((subtask, index) => {
-                  const isDone = subtask.status === '✅ Done';
+                  const isDone = isDoneStatus(subtask.status);
                   return (
                     <div
                       key={subtask.id}
@@ -1098,7 +1160,7 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
             </button>
             <button
               type="submit"
-              disabled={isSubmitting || !name.trim()}
+              disabled={isSubmitting || !name.trim() || !isRecurrenceValid}
               style={{
                 padding: '10px 16px',
                 fontSize: 14,
@@ -1107,8 +1169,8 @@ export function EditTaskPanel({ task, onClose, onAddSubtask }: EditTaskPanelProp
                 border: 'none',
                 backgroundColor: colors.primary,
                 color: '#ffffff',
-                cursor: isSubmitting || !name.trim() ? 'not-allowed' : 'pointer',
-                opacity: isSubmitting || !name.trim() ? 0.5 : 1,
+                cursor: isSubmitting || !name.trim() || !isRecurrenceValid ? 'not-allowed' : 'pointer',
+                opacity: isSubmitting || !name.trim() || !isRecurrenceValid ? 0.5 : 1,
               }}
             >
               {isSubmitting ? 'Saving...' : 'Save Changes'}
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { X } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { STATUS_OPTIONS, PRIORITY_OPTIONS } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { createFilterContext, createFilterMatcher, validateFilterQuery, FILTER_QUERY_EXAMPLES } from '../utils/filterQuery';
 import type { Filter, FilterCriteria } from '../types';
 
 interface FilterModalProps {
@@ -15,8 +16,12 @@ const FILTER_COLORS = [
   '#29b6f6', '#5c6bc0', '#ab47bc', '#ec407a',
 ];
 
+// IDs for new filters (kept out of render, where Date.now() isn't allowed)
+const newFilterId = () => `filter-${Date.now()}`;
+
 export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps) {
-  const { projects, tags, saveFilter, deleteFilter, isDarkMode, showConfirm } = useStore();
+  const { tasks, projects, sections, tags, taskOptions, showCompleted, saveFilter, deleteFilter, isDarkMode, showConfirm } = useStore();
+  const { statuses, priorities, isDone } = useTaskOptions();
   
   const [name, setName] = useState('');
   const [color, setColor] = useState(FILTER_COLORS[0]);
@@ -25,6 +30,7 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
   const [selectedProjectIds, setSelectedProjectIds] = useState<string[]>([]);
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [dueDateRange, setDueDateRange] = useState<FilterCriteria['dueDateRange']>(undefined);
+  const [query, setQuery] = useState('');
   
   const colors = {
     bg: isDarkMode ? '#1f1f1f' : '#ffffff',
@@ -36,8 +42,10 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
     primary: '#d1453b',
   };
   
-  // Load editing filter data
-  useEffect(() => {
+  // Load editing filter data when the modal opens or the filter changes
+  const [loadedFor, setLoadedFor] = useState<{ filter: Filter | null | undefined; isOpen: boolean } | null>(null);
+  if (!loadedFor || loadedFor.filter !== editingFilter || loadedFor.isOpen !== isOpen) {
+    setLoadedFor({ filter: editingFilter, isOpen });
     if (editingFilter) {
       setName(editingFilter.name);
       setColor(editingFilter.color);
@@ -46,6 +54,7 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
       setSelectedProjectIds(editingFilter.criteria.projectIds || []);
       setSelectedTagIds(editingFilter.criteria.tagIds || []);
       setDueDateRange(editingFilter.criteria.dueDateRange);
+      setQuery(editingFilter.criteria.query || '');
     } else {
       // Reset form
       setName('');
@@ -55,23 +64,35 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
       setSelectedProjectIds([]);
       setSelectedTagIds([]);
       setDueDateRange(undefined);
+      setQuery('');
     }
-  }, [editingFilter, isOpen]);
+  }
+  
+  const criteria: FilterCriteria = {
+    status: selectedStatuses.length > 0 ? selectedStatuses : undefined,
+    priority: selectedPriorities.length > 0 ? selectedPriorities : undefined,
+    projectIds: selectedProjectIds.length > 0 ? selectedProjectIds : undefined,
+    tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
+    dueDateRange,
+    query: query.trim() || undefined,
+  };
+  
+  const queryError = useMemo(() => validateFilterQuery(query), [query]);
+  
+  // Live preview with the same rules as the filter view
+  const matchingTasks = queryError ? [] : tasks.filter(
+    createFilterMatcher(criteria, createFilterContext({ projects, sections, tags, taskOptions }))
+  ).filter(t => !isDone(t.status) || showCompleted);
+  const canSave = !!name.trim() && !queryError;
   
   const handleSave = async () => {
-    if (!name.trim()) return;
+    if (!canSave) return;
     
     const filter: Filter = {
-      id: editingFilter?.id || `filter-${Date.now()}`,
+      id: editingFilter?.id || newFilterId(),
       name: name.trim(),
       color,
-      criteria: {
-        status: selectedStatuses.length > 0 ? selectedStatuses : undefined,
-        priority: selectedPriorities.length > 0 ? selectedPriorities : undefined,
-        projectIds: selectedProjectIds.length > 0 ? selectedProjectIds : undefined,
-        tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
-        dueDateRange,
-      },
+      criteria,
       createdAt: editingFilter?.createdAt || new Date().toISOString(),
     };
     
@@ -196,13 +217,52 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
             </div>
           </div>
           
+          {/* Query */}
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', fontSize: 13, fontWeight: 500, color: colors.textSecondary, marginBottom: 6 }}>
+              Query
+            </label>
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={FILTER_QUERY_EXAMPLES[0]}
+              spellCheck={false}
+              style={{
+                width: '100%',
+                padding: '10px 12px',
+                fontSize: 14,
+                fontFamily: 'monospace',
+                border: `1px solid ${queryError ? '#ef4444' : colors.border}`,
+                borderRadius: 6,
+                backgroundColor: colors.inputBg,
+                color: colors.text,
+                outline: 'none',
+              }}
+            />
+            {queryError ? (
+              <div style={{ marginTop: 6, fontSize: 12, color: '#ef4444' }}>
+                <code style={{ display: 'block', whiteSpace: 'pre', overflow: 'hidden' }}>
+                  {query}{'\n'}{' '.repeat(queryError.position)}^
+                </code>
+                {queryError.message}
+              </div>
+            ) : (
+              <div style={{ marginTop: 6, fontSize: 12, color: colors.textSecondary }}>
+                Combine with & (and), | (or), ! (not) and parentheses, e.g. {FILTER_QUERY_EXAMPLES.slice(1).map((example, i) => (
+                  <span key={example}>{i > 0 && ', '}<code>{example}</code></span>
+                ))}. Picks below must match too.
+              </div>
+            )}
+          </div>
+          
           {/* Status Filter */}
           <div style={{ marginBottom: 16 }}>
             <label style={{ display: 'block', fontSize: 13, fontWeight: 500, color: colors.textSecondary, marginBottom: 6 }}>
               Status
             </label>
             <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
-              {STATUS_OPTIONS.map(opt => {
+              {statuses.map(opt => {
                 const isSelected = selectedStatuses.includes(opt.value);
                 return (
                   <button
@@ -231,7 +291,7 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
               Priority
             </label>
             <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
-              {PRIORITY_OPTIONS.map(opt => {
+              {priorities.map(opt => {
                 const isSelected = selectedPriorities.includes(opt.value);
                 return (
                   <button
@@ -347,6 +407,30 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
             </div>
           </div>
           
+          {/* Live preview */}
+          <div style={{
+            marginBottom: 20,
+            padding: 12,
+            borderRadius: 6,
+            border: `1px solid ${colors.border}`,
+            fontSize: 13,
+            color: colors.textSecondary,
+          }}>
+            {queryError ? 'Fix the query to see matching tasks' : (
+              <>
+                <div style={{ fontWeight: 500, color: colors.text, marginBottom: matchingTasks.length > 0 ? 6 : 0 }}>
+                  {matchingTasks.length} matching task{matchingTasks.length !== 1 ? 's' : ''}
+                </div>
+                {matchingTasks.slice(0, 5).map(task => (
+                  <div key={task.id} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {task.name}
+                  </div>
+                ))}
+                {matchingTasks.length > 5 && <div>and {matchingTasks.length - 5} more</div>}
+              </>
+            )}
+          </div>
+          
           {/* Actions */}
           <div style={{ display: 'flex', gap: 8, justifyContent: 'space-between' }}>
             {editingFilter && (
@@ -384,7 +468,7 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
               </button>
               <button
                 onClick={handleSave}
-                disabled={!name.trim()}
+                disabled={!canSave}
                 style={{
                   padding: '10px 16px',
                   fontSize: 14,
@@ -393,8 +477,8 @@ export function FilterModal({ isOpen, onClose, editingFilter }: FilterModalProps
                   border: 'none',
                   backgroundColor: colors.primary,
                   color: '#ffffff',
-                  cursor: !name.trim() ? 'not-allowed' : 'pointer',
-                  opacity: !name.trim() ? 0.5 : 1,
+                  cursor: !canSave ? 'not-allowed' : 'pointer',
+                  opacity: !canSave ? 0.5 : 1,
                 }}
               >
                 {editingFilter ? 'Save Changes' : 'Create Filter'}
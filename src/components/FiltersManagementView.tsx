@@ -1,5 +1,7 @@
 import { FunnelSimple, PencilSimple, Circle, Plus } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { createFilterContext, createFilterMatcher } from '../utils/filterQuery';
 import type { Filter } from '../types';
 
 interface FiltersManagementViewProps {
@@ -9,7 +11,8 @@ interface FiltersManagementViewProps {
 }
 
 export function FiltersManagementView({ onSelectFilter, onEditFilter, onCreateFilter }: FiltersManagementViewProps) {
-  const { filters, tasks, isDarkMode, showCompleted } = useStore();
+  const { filters, tasks, projects, sections, tags, taskOptions, isDarkMode, showCompleted } = useStore();
+  const { isDone } = useTaskOptions();
   
   const colors = {
     bg: isDarkMode ? '#1f1f1f' : '#ffffff',
@@ -24,20 +27,8 @@ export function FiltersManagementView({ onSelectFilter, onEditFilter, onCreateFi
   
   // Calculate task count for each filter
   const getFilterTaskCount = (filter: Filter) => {
-    return tasks.filter(t => {
-      if (t.status === '✅ Done' && !showCompleted) return false;
-      if (t.parentTaskId) return false;
-      
-      const c = filter.criteria;
-      if (!c) return true;
-      
-      if (c.status?.length && !c.status.includes(t.status || '')) return false;
-      if (c.priority?.length && !c.priority.includes(t.priority || '')) return false;
-      if (c.projectIds?.length && !c.projectIds.includes(t.projectId || '')) return false;
-      if (c.tagIds?.length && !t.tagIds.some(id => c.tagIds?.includes(id))) return false;
-      
-      return true;
-    }).length;
+    const matches = createFilterMatcher(filter.criteria ?? {}, createFilterContext({ projects, sections, tags, taskOptions }));
+    return tasks.filter(t => (!isDone(t.status) || showCompleted) && matches(t)).length;
   };
   
   if (filters.length === 0) {
@@ -131,6 +122,11 @@ export function FiltersManagementView({ onSelectFilter, onEditFilter, onCreateFi
                   <p style={{ fontSize: 13, color: colors.textSecondary, margin: '4px 0 0' }}>
                     {taskCount} matching task{taskCount !== 1 ? 's' : ''}
                   </p>
+                  {filter.criteria?.query && (
+                    <code style={{ display: 'block', marginTop: 4, fontSize: 12, color: colors.textMuted }}>
+                      {filter.criteria.query}
+                    </code>
+                  )}
                 </div>
                 <button
                   onClick={(e) => { e.stopPropagation(); onEditFilter(filter); }}
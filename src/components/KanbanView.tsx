@@ -0,0 +1,652 @@
+import { useMemo, useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core';
+import {
+  SortableContext,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useDroppable } from '@dnd-kit/core';
+import { Circle, CheckCircle, CalendarBlank, Plus, Warning } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
+import { getDueDateInfo } from '../utils/dates';
+import type { KanbanGroupBy, StatusCategory, Task } from '../types';
+
+// Column for tasks without a section, status or priority
+const NO_VALUE = 'none';
+
+// Status columns run from not started to done, whatever order the base lists them in
+const STATUS_CATEGORY_ORDER: StatusCategory[] = ['todo', 'active', 'blocked', 'done'];
+
+const STATUS_CATEGORY_COLORS: Record<StatusCategory, string> = {
+  todo: '#808080',
+  active: '#3b82f6',
+  blocked: '#f59e0b',
+  done: '#22c55e',
+};
+
+const GROUP_BY_LABELS: Record<KanbanGroupBy, string> = {
+  section: 'Section',
+  status: 'Status',
+  priority: 'Priority',
+};
+
+interface BoardColumn {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+interface KanbanViewProps {
+  tasks: Task[];
+  // Set on a project's board, where tasks can also be grouped by section
+  projectId?: string | null;
+  onEditTask: (task: Task) => void;
+  onAddSection?: () => void;
+}
+
+/**
+ * Board of the current view's tasks in columns by section, status or
+ * priority. Dropping a card on a column sets that field.
+ */
+export function KanbanView({ tasks: boardTasks, projectId = null, onEditTask, onAddSection }: KanbanViewProps) {
+  const {
+    tasks,
+    sections,
+    updateTask,
+    completeTask,
+    showToast,
+    kanbanSettings,
+    setKanbanGroupBy,
+    setKanbanWipLimit,
+    isDarkMode,
+  } = useStore();
+  const { statuses, priorities, isDone, getStatusCategory } = useTaskOptions();
+  const getProjectColor = useProjectColors();
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+  
+  const groupBy: KanbanGroupBy = kanbanSettings.groupBy === 'section' && !projectId ? 'status' : kanbanSettings.groupBy;
+  const groupByOptions: KanbanGroupBy[] = projectId ? ['section', 'status', 'priority'] : ['status', 'priority'];
+  
+  const colors = {
+    bg: isDarkMode ? '#1f1f1f' : '#f5f5f5',
+    columnBg: isDarkMode ? '#282828' : '#ffffff',
+    cardBg: isDarkMode ? '#333333' : '#ffffff',
+    cardBorder: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    textMuted: isDarkMode ? '#606060' : '#b0b0b0',
+  };
+  
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 8 },
+    }),
+    useSensor(KeyboardSensor)
+  );
+  
+  // Columns for the current grouping, "none" first
+  const columns = useMemo((): BoardColumn[] => {
+    if (groupBy === 'section') {
+      const projectSections = sections
+        .filter(s => s.projectId === projectId)
+        .sort((a, b) => a.order - b.order);
+      return [
+        { id: NO_VALUE, name: 'No Section', color: projectId ? getProjectColor(projectId) : null },
+        ...projectSections.map(s => ({ id: s.id, name: s.name, color: s.color })),
+      ];
+    }
+    if (groupBy === 'priority') {
+      return [
+        { id: NO_VALUE, name: 'No Priority', color: null },
+        ...[...priorities]
+          .sort((a, b) => b.level - a.level)
+          .map(p => ({ id: p.value, name: p.label, color: p.color })),
+      ];
+    }
+    const statusColumns = [...statuses]
+      .sort((a, b) => STATUS_CATEGORY_ORDER.indexOf(a.category) - STATUS_CATEGORY_ORDER.indexOf(b.category))
+      .map(s => ({ id: s.value, name: s.label, color: STATUS_CATEGORY_COLORS[s.category] }));
+    // Only offer "No Status" when some task has none
+    const hasUnknownStatus = boardTasks.some(t => !statuses.some(s => s.value === t.status));
+    return hasUnknownStatus ? [{ id: NO_VALUE, name: 'No Status', color: null }, ...statusColumns] : statusColumns;
+  }, [groupBy, sections, projectId, priorities, statuses, boardTasks, getProjectColor]);
+  
+  // Column a task belongs to; values without a column go to "none"
+  const getColumnId = (task: Task): string => {
+    const value = groupBy === 'section' ? task.sectionId : groupBy === 'status' ? task.status : task.priority;
+    return value && columns.some(c => c.id === value) ? value : NO_VALUE;
+  };
+  
+  // Group tasks by column
+  const tasksByColumn: Record<string, Task[]> = {};
+  columns.forEach(column => {
+    tasksByColumn[column.id] = [];
+  });
+  boardTasks.forEach(task => {
+    tasksByColumn[getColumnId(task)]?.push(task);
+  });
+  
+  const getWipKey = (columnId: string) => `${groupBy}:${columnId}`;
+  
+  const handleDragStart = (event: DragStartEvent) => {
+    const task = tasks.find(t => t.id === event.active.id);
+    setActiveTask(task || null);
+  };
+  
+  // Set the grouped field on a task dropped in another column
+  const moveToColumn = async (task: Task, columnId: string) => {
+    const value = columnId === NO_VALUE ? null : columnId;
+    if (groupBy === 'section') {
+      await updateTask(task.id, { sectionId: value });
+    } else if (groupBy === 'priority') {
+      await updateTask(task.id, { priority: value });
+    } else if (value && getStatusCategory(value) === 'done' && !isDone(task.status)) {
+      // Completing goes through completeTask so recurring tasks roll forward
+      await completeTask(task.id);
+    } else if (isDone(task.status) && !isDone(value)) {
+      await updateTask(task.id, { status: value, completedDate: null });
+    } else {
+      await updateTask(task.id, { status: value });
+    }
+  };
+  
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveTask(null);
+    
+    if (!over) return;
+    
+    const task = boardTasks.find(t => t.id === active.id);
+    if (!task) return;
+    
+    // Dropped on a column, or on another card
+    const overId = over.id as string;
+    const overTask = boardTasks.find(t => t.id === overId);
+    const targetColumnId = overId.startsWith('column-')
+      ? overId.replace('column-', '')
+      : overTask ? getColumnId(overTask) : null;
+    if (!targetColumnId || targetColumnId === getColumnId(task)) return;
+    
+    await moveToColumn(task, targetColumnId);
+    
+    const limit = kanbanSettings.wipLimits[getWipKey(targetColumnId)];
+    const count = (tasksByColumn[targetColumnId]?.length ?? 0) + 1;
+    // Leave a failed update's error toast in place
+    if (limit && count > limit && useStore.getState().toast?.type !== 'error') {
+      const column = columns.find(c => c.id === targetColumnId);
+      showToast(`${column?.name ?? 'Column'} is over its WIP limit (${count}/${limit})`, 'warning');
+    }
+  };
+  
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+    >
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: colors.bg,
+      }}>
+        {/* Group by switch */}
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          padding: '16px 24px 0',
+          fontSize: 12,
+          color: colors.textSecondary,
+        }}>
+          Columns
+          <div style={{
+            display: 'flex',
+            backgroundColor: isDarkMode ? '#333333' : '#e8e8e8',
+            borderRadius: 8,
+            padding: 2,
+          }}>
+            {groupByOptions.map(option => (
+              <button
+                key={option}
+                onClick={() => setKanbanGroupBy(option)}
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: 6,
+                  border: 'none',
+                  backgroundColor: groupBy === option ? (isDarkMode ? '#555' : '#fff') : 'transparent',
+                  color: isDarkMode ? '#fff' : '#333',
+                  cursor: 'pointer',
+                  fontSize: 12,
+                }}
+              >
+                {GROUP_BY_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+        
+        <div style={{
+          flex: 1,
+          display: 'flex',
+          gap: 16,
+          padding: 24,
+          overflowX: 'auto',
+        }}>
+          {columns.map(column => (
+            <KanbanColumn
+              key={column.id}
+              columnId={column.id}
+              columnName={column.name}
+              columnColor={column.color}
+              tasks={tasksByColumn[column.id] || []}
+              wipLimit={kanbanSettings.wipLimits[getWipKey(column.id)]}
+              onSetWipLimit={(limit) => setKanbanWipLimit(getWipKey(column.id), limit)}
+              showProject={!projectId}
+              colors={colors}
+              isDarkMode={isDarkMode}
+              onEditTask={onEditTask}
+            />
+          ))}
+          
+          {/* Add Section column */}
+          {groupBy === 'section' && onAddSection && (
+            <div style={{
+              flexShrink: 0,
+              width: 280,
+              display: 'flex',
+              alignItems: 'flex-start',
+              justifyContent: 'center',
+              paddingTop: 16,
+            }}>
+              <button
+                onClick={onAddSection}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  padding: '12px 20px',
+                  fontSize: 14,
+                  fontWeight: 500,
+                  borderRadius: 8,
+                  border: `1px dashed ${colors.cardBorder}`,
+                  backgroundColor: 'transparent',
+                  color: colors.textSecondary,
+                  cursor: 'pointer',
+                }}
+              >
+                <Plus size={18} />
+                Add Section
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+      
+      <DragOverlay>
+        {activeTask && (
+          <KanbanCard
+            task={activeTask}
+            showProject={!projectId}
+            colors={colors}
+            isDarkMode={isDarkMode}
+            isDragging
+          />
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+}
+
+interface KanbanColumnProps {
+  columnId: string;
+  columnName: string;
+  columnColor: string | null;
+  tasks: Task[];
+  wipLimit?: number;
+  onSetWipLimit: (limit: number) => void;
+  showProject: boolean;
+  colors: Record<string, string>;
+  isDarkMode: boolean;
+  onEditTask: (task: Task) => void;
+}
+
+function KanbanColumn({ columnId, columnName, columnColor, tasks, wipLimit, onSetWipLimit, showProject, colors, isDarkMode, onEditTask }: KanbanColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `column-${columnId}`,
+    data: { columnId },
+  });
+  const [isEditingLimit, setIsEditingLimit] = useState(false);
+  const [draftLimit, setDraftLimit] = useState('');
+  const isOverLimit = !!wipLimit && tasks.length > wipLimit;
+  
+  const startEditLimit = () => {
+    setDraftLimit(wipLimit ? String(wipLimit) : '');
+    setIsEditingLimit(true);
+  };
+  
+  const commitLimit = () => {
+    setIsEditingLimit(false);
+    const limit = parseInt(draftLimit, 10);
+    onSetWipLimit(Number.isNaN(limit) ? 0 : limit);
+  };
+  
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        width: 280,
+        minWidth: 280,
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: colors.columnBg,
+        borderRadius: 12,
+        overflow: 'hidden',
+        border: isOver ? '2px solid #3b82f6' : 'none',
+        maxHeight: 'calc(100vh - 250px)',
+      }}
+    >
+      {/* Column Header */}
+      <div style={{
+        padding: '12px 16px',
+        borderBottom: `1px solid ${colors.cardBorder}`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+      }}>
+        {columnColor && (
+          <div style={{
+            width: 12,
+            height: 12,
+            borderRadius: '50%',
+            backgroundColor: columnColor,
+            flexShrink: 0,
+          }} />
+        )}
+        <span style={{ fontWeight: 600, fontSize: 14, color: colors.text, flex: 1 }}>
+          {columnName}
+        </span>
+        {isEditingLimit ? (
+          <input
+            autoFocus
+            type="number"
+            min={0}
+            value={draftLimit}
+            onChange={(e) => setDraftLimit(e.target.value)}
+            onBlur={commitLimit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setIsEditingLimit(false);
+            }}
+            placeholder="No limit"
+            style={{
+              width: 72,
+              padding: '2px 6px',
+              fontSize: 12,
+              borderRadius: 6,
+              border: `1px solid ${colors.cardBorder}`,
+              backgroundColor: colors.cardBg,
+              color: colors.text,
+              outline: 'none',
+            }}
+          />
+        ) : (
+          <button
+            onClick={startEditLimit}
+            title={isOverLimit ? `Over WIP limit of ${wipLimit}` : wipLimit ? `WIP limit ${wipLimit}` : 'Set WIP limit'}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 4,
+              fontSize: 12,
+              padding: '2px 8px',
+              borderRadius: 12,
+              border: 'none',
+              backgroundColor: isOverLimit
+                ? isDarkMode ? 'rgba(234, 179, 8, 0.2)' : '#fef9c3'
+                : isDarkMode ? '#3a3a3a' : '#f0f0f0',
+              color: isOverLimit
+                ? isDarkMode ? '#facc15' : '#ca8a04'
+                : colors.textSecondary,
+              cursor: 'pointer',
+            }}
+          >
+            {isOverLimit && <Warning size={12} weight="fill" />}
+            {wipLimit ? `${tasks.length}/${wipLimit}` : tasks.length}
+          </button>
+        )}
+      </div>
+      
+      {/* Tasks */}
+      <div style={{
+        flex: 1,
+        padding: 12,
+        overflowY: 'auto',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+      }}>
+        <SortableContext
+          items={tasks.map(t => t.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          {tasks.map(task => (
+            <SortableKanbanCard
+              key={task.id}
+              task={task}
+              showProject={showProject}
+              colors={colors}
+              isDarkMode={isDarkMode}
+              onEditTask={onEditTask}
+            />
+          ))}
+        </SortableContext>
+        
+        {tasks.length === 0 && (
+          <div style={{
+            padding: 24,
+            textAlign: 'center',
+            color: colors.textMuted,
+            fontSize: 13,
+            fontStyle: 'italic',
+          }}>
+            Drop tasks here
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SortableKanbanCardProps {
+  task: Task;
+  showProject: boolean;
+  colors: Record<string, string>;
+  isDarkMode: boolean;
+  onEditTask: (task: Task) => void;
+}
+
+function SortableKanbanCard({ task, showProject, colors, isDarkMode, onEditTask }: SortableKanbanCardProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: task.id });
+  
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+  
+  return (
+    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
+      <KanbanCard
+        task={task}
+        showProject={showProject}
+        colors={colors}
+        isDarkMode={isDarkMode}
+        onClick={() => onEditTask(task)}
+      />
+    </div>
+  );
+}
+
+interface KanbanCardProps {
+  task: Task;
+  showProject?: boolean;
+  colors: Record<string, string>;
+  isDarkMode: boolean;
+  onClick?: () => void;
+  isDragging?: boolean;
+}
+
+function KanbanCard({ task, showProject, colors, isDarkMode, onClick, isDragging }: KanbanCardProps) {
+  const { isDone, getStatusCategory, isHighPriority } = useTaskOptions();
+  const project = useStore(state => (showProject && task.projectId ? state.projects.find(p => p.id === task.projectId) : undefined));
+  const getProjectColor = useProjectColors();
+  const dueDateInfo = getDueDateInfo(task.dueDate);
+  const isCompleted = isDone(task.status);
+  const isTopPriority = isHighPriority(task.priority);
+  
+  return (
+    <div
+      onClick={onClick}
+      style={{
+        padding: 12,
+        backgroundColor: colors.cardBg,
+        border: `1px solid ${colors.cardBorder}`,
+        borderRadius: 8,
+        cursor: isDragging ? 'grabbing' : 'pointer',
+        boxShadow: isDragging ? '0 8px 16px rgba(0,0,0,0.15)' : 'none',
+        borderLeft: isTopPriority ? '3px solid #d1453b' : `1px solid ${colors.cardBorder}`,
+      }}
+    >
+      {/* Task name */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'flex-start',
+        gap: 8,
+        marginBottom: dueDateInfo || task.status || project ? 8 : 0,
+      }}>
+        {isCompleted ? (
+          <CheckCircle size={16} weight="fill" style={{ color: '#22c55e', flexShrink: 0, marginTop: 2 }} />
+        ) : (
+          <Circle size={16} style={{ color: isTopPriority ? '#d1453b' : colors.textSecondary, flexShrink: 0, marginTop: 2 }} />
+        )}
+        <span style={{
+          fontSize: 14,
+          color: isCompleted ? colors.textSecondary : colors.text,
+          textDecoration: isCompleted ? 'line-through' : 'none',
+          lineHeight: 1.4,
+        }}>
+          {task.name}
+        </span>
+      </div>
+      
+      {/* Badges */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+        {project && (
+          <span style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 4,
+            fontSize: 11,
+            color: colors.textSecondary,
+          }}>
+            <Circle size={8} weight="fill" style={{ color: getProjectColor(project.id) }} />
+            {project.name}
+          </span>
+        )}
+        {dueDateInfo && (
+          <span style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 4,
+            padding: '2px 6px',
+            fontSize: 11,
+            borderRadius: 4,
+            backgroundColor: dueDateInfo.isOverdue
+              ? isDarkMode ? 'rgba(239, 68, 68, 0.2)' : '#fee2e2'
+              : dueDateInfo.isToday
+                ? isDarkMode ? 'rgba(34, 197, 94, 0.2)' : '#dcfce7'
+                : isDarkMode ? 'rgba(249, 115, 22, 0.2)' : '#fff7ed',
+            color: dueDateInfo.isOverdue
+              ? isDarkMode ? '#f87171' : '#dc2626'
+              : dueDateInfo.isToday
+                ? isDarkMode ? '#4ade80' : '#16a34a'
+                : isDarkMode ? '#fb923c' : '#ea580c',
+          }}>
+            <CalendarBlank size={10} />
+            {dueDateInfo.text}
+          </span>
+        )}
+        
+        {/* Calendar Sync Badge */}
+        {(task.syncToCalendar || task.calendarSyncStatus) && (
+          <span
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 2,
+              padding: '2px 5px',
+              fontSize: 10,
+              borderRadius: 4,
+              backgroundColor: task.calendarSyncStatus === 'Synced'
+                ? isDarkMode ? 'rgba(34, 197, 94, 0.2)' : '#dcfce7'
+                : task.calendarSyncStatus === 'Needs sync'
+                  ? isDarkMode ? 'rgba(234, 179, 8, 0.2)' : '#fef9c3'
+                  : task.calendarSyncStatus === 'Sync error'
+                    ? isDarkMode ? 'rgba(239, 68, 68, 0.2)' : '#fee2e2'
+                    : isDarkMode ? 'rgba(107, 114, 128, 0.2)' : '#f3f4f6',
+              color: task.calendarSyncStatus === 'Synced'
+                ? isDarkMode ? '#4ade80' : '#16a34a'
+                : task.calendarSyncStatus === 'Needs sync'
+                  ? isDarkMode ? '#facc15' : '#ca8a04'
+                  : task.calendarSyncStatus === 'Sync error'
+                    ? isDarkMode ? '#f87171' : '#dc2626'
+                    : isDarkMode ? '#9ca3af' : '#6b7280',
+            }}
+            title={`Calendar: ${task.scheduledTime || 'No time'} · ${task.duration || 'No duration'} · ${task.calendarSyncStatus || 'Pending'}`}
+          >
+            <CalendarBlank size={9} />
+            {task.calendarSyncStatus === 'Synced' && '✓'}
+            {task.calendarSyncStatus === 'Needs sync' && '↻'}
+            {task.calendarSyncStatus === 'Sync error' && '!'}
+            {!task.calendarSyncStatus && '○'}
+          </span>
+        )}
+        
+        {task.status && !['todo', 'done'].includes(getStatusCategory(task.status)) && (
+          <span style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            padding: '2px 6px',
+            fontSize: 11,
+            borderRadius: 4,
+            backgroundColor: isDarkMode ? 'rgba(59, 130, 246, 0.2)' : '#dbeafe',
+            color: isDarkMode ? '#60a5fa' : '#2563eb',
+          }}>
+            {task.status}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect } from 'react';
+import { X } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { KEYBOARD_SHORTCUTS } from '../utils/constants';
+
+interface KeyboardShortcutsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform);
+
+// "mod+k" -> ["⌘", "K"], "g t" -> ["G", "then", "T"]
+function formatKeys(shortcut: string): string[] {
+  return shortcut.split(' ').flatMap((part, index) => {
+    const keys = part.split('+').map(key => {
+      if (key === 'mod') return IS_MAC ? '⌘' : 'Ctrl';
+      if (key === 'enter') return 'Enter';
+      if (key === 'shift') return 'Shift';
+      if (key === 'escape') return 'Esc';
+      return key.toUpperCase();
+    });
+    return index > 0 ? ['then', ...keys] : keys;
+  });
+}
+
+export function KeyboardShortcutsModal({ isOpen, onClose }: KeyboardShortcutsModalProps) {
+  const { isDarkMode } = useStore();
+
+  const colors = {
+    bg: isDarkMode ? '#1f1f1f' : '#ffffff',
+    border: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    keyBg: isDarkMode ? '#333333' : '#f5f5f5',
+  };
+
+  // Escape or ? closes
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const groups = [...new Set(KEYBOARD_SHORTCUTS.map(s => s.group))];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000,
+      }}
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div style={{
+        width: 480,
+        maxHeight: '80vh',
+        overflowY: 'auto',
+        backgroundColor: colors.bg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: 12,
+        boxShadow: '0 20px 40px rgba(0, 0, 0, 0.3)',
+        padding: 24,
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 600, color: colors.text }}>Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            style={{ padding: 4, border: 'none', backgroundColor: 'transparent', color: colors.textSecondary, cursor: 'pointer' }}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {groups.map(group => (
+          <div key={group} style={{ marginBottom: 16 }}>
+            <div style={{ fontSize: 11, fontWeight: 600, textTransform: 'uppercase', letterSpacing: 0.5, color: colors.textSecondary, marginBottom: 8 }}>
+              {group}
+            </div>
+            {KEYBOARD_SHORTCUTS.filter(s => s.group === group).map(shortcut => (
+              <div
+                key={shortcut.description}
+                style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '6px 0' }}
+              >
+                <span style={{ fontSize: 13, color: colors.text }}>{shortcut.description}</span>
+                <span style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  {shortcut.keys.map((keys, index) => (
+                    <span key={keys} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                      {index > 0 && <span style={{ fontSize: 11, color: colors.textSecondary }}>/</span>}
+                      {formatKeys(keys).map((key, i) => key === 'then' ? (
+                        <span key={i} style={{ fontSize: 11, color: colors.textSecondary }}>then</span>
+                      ) : (
+                        <kbd
+                          key={i}
+                          style={{
+                            minWidth: 22,
+                            padding: '2px 6px',
+                            borderRadius: 4,
+                            border: `1px solid ${colors.border}`,
+                            backgroundColor: colors.keyBg,
+                            color: colors.text,
+                            fontSize: 12,
+                            fontFamily: 'inherit',
+                            textAlign: 'center',
+                          }}
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
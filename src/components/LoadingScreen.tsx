@@ -13,7 +13,7 @@ const LOADING_MESSAGES = [
 const TIPS = [
   "Use the Dashboard view for a quick overview of all your projects",
   "Click on a task name to quickly edit it inline",
-  "Drag tasks between sections in the Kanban board view",
+  "Switch the Kanban board to status columns and drag tasks to change their status",
   "Create filters to quickly find tasks matching specific criteria",
   "The Schedule view shows your tasks in a calendar layout",
 ];
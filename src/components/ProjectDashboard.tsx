@@ -6,10 +6,13 @@ import {
   Clock, 
   CalendarBlank,
   Info,
+  Prohibit,
 } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
 import { parseLocalDate } from '../utils/dates';
+import { isArchivedProject } from '../utils/projects';
 import type { Project } from '../types';
 
 interface ProjectDashboardProps {
@@ -21,6 +24,8 @@ export function ProjectDashboard({ onSelectProject, onViewProjectDetails }: Proj
   const projects = useStore(state => state.projects);
   const tasks = useStore(state => state.tasks);
   const isDarkMode = useStore(state => state.isDarkMode);
+  const { getStatusCategory } = useTaskOptions();
+  const getProjectColor = useProjectColors();
   
   const colors = {
     bg: isDarkMode ? '#1f1f1f' : '#ffffff',
@@ -36,10 +41,11 @@ export function ProjectDashboard({ onSelectProject, onViewProjectDetails }: Proj
   const projectStats = useMemo(() => {
     return projects.map(project => {
       const projectTasks = tasks.filter(t => t.projectId === project.id);
-      const completedTasks = projectTasks.filter(t => t.status === '✅ Done');
-      const inProgressTasks = projectTasks.filter(t => t.status === '🔄 In Progress');
+      const completedTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'done');
+      const inProgressTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'active');
+      const blockedTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'blocked');
       const overdueTasks = projectTasks.filter(t => {
-        if (t.status === '✅ Done' || !t.dueDate) return false;
+        if (getStatusCategory(t.status) === 'done' || !t.dueDate) return false;
         const due = parseLocalDate(t.dueDate);
         if (!due) return false;
         const today = new Date();
@@ -58,18 +64,20 @@ export function ProjectDashboard({ onSelectProject, onViewProjectDetails }: Proj
         totalTasks,
         completedTasks: completedTasks.length,
         inProgressTasks: inProgressTasks.length,
+        blockedTasks: blockedTasks.length,
         overdueTasks: overdueTasks.length,
         completionPercent,
       };
     });
-  }, [projects, tasks]);
+  }, [projects, tasks, getStatusCategory]);
   
   const activeProjects = projectStats.filter(s => s.project.status === 'Active');
-  const otherProjects = projectStats.filter(s => s.project.status !== 'Active');
+  // Archived projects have their own view
+  const otherProjects = projectStats.filter(s => s.project.status !== 'Active' && !isArchivedProject(s.project));
   
   const renderProjectCard = (stats: typeof projectStats[0]) => {
-    const { project, totalTasks, completedTasks, inProgressTasks, overdueTasks, completionPercent } = stats;
-    const projectColor = PROJECT_COLORS[project.id] || DEFAULT_PROJECT_COLOR;
+    const { project, totalTasks, completedTasks, inProgressTasks, blockedTasks, overdueTasks, completionPercent } = stats;
+    const projectColor = getProjectColor(project.id);
     
     return (
       <div
@@ -187,6 +195,14 @@ export function ProjectDashboard({ onSelectProject, onViewProjectDetails }: Proj
               {inProgressTasks} in progress
             </span>
           </div>
+          {blockedTasks > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <Prohibit size={16} style={{ color: '#f59e0b' }} />
+              <span style={{ fontSize: 13, color: colors.textSecondary }}>
+                {blockedTasks} blocked
+              </span>
+            </div>
+          )}
           {overdueTasks > 0 && (
             <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
               <CalendarBlank size={16} style={{ color: '#ef4444' }} />
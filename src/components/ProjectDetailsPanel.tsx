@@ -7,10 +7,16 @@ import {
   ChartBar,
   PencilSimple,
   Check,
+  Archive,
+  ArrowCounterClockwise,
+  Trash,
 } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
+import { PROJECT_COLOR_OPTIONS } from '../utils/constants';
 import { parseLocalDate, formatDateForInput } from '../utils/dates';
+import { isArchivedProject } from '../utils/projects';
 import type { Project } from '../types';
 
 const PROJECT_STATUS_OPTIONS = [
@@ -30,6 +36,12 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
   const tasks = useStore(state => state.tasks);
   const isDarkMode = useStore(state => state.isDarkMode);
   const updateProject = useStore(state => state.updateProject);
+  const archiveProject = useStore(state => state.archiveProject);
+  const unarchiveProject = useStore(state => state.unarchiveProject);
+  const deleteProject = useStore(state => state.deleteProject);
+  const showConfirm = useStore(state => state.showConfirm);
+  const { getStatusCategory } = useTaskOptions();
+  const getProjectColor = useProjectColors();
   const [isEditing, setIsEditing] = useState(false);
   
   // Edit form state (notes is AI-generated and not editable)
@@ -38,6 +50,8 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
   const [editDescription, setEditDescription] = useState('');
   const [editStartDate, setEditStartDate] = useState('');
   const [editTargetDate, setEditTargetDate] = useState('');
+  // Undefined until a color is picked, so saving doesn't touch the color otherwise
+  const [editColor, setEditColor] = useState<string | undefined>(undefined);
   const [isSaving, setIsSaving] = useState(false);
   
   // Initialize form when project changes or editing starts
@@ -48,6 +62,7 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
       setEditDescription(typeof project.description === 'string' ? project.description : '');
       setEditStartDate(formatDateForInput(project.startDate));
       setEditTargetDate(formatDateForInput(project.targetDate));
+      setEditColor(undefined);
     }
   }, [project]);
   
@@ -74,15 +89,15 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
     if (!project) return null;
     
     const projectTasks = tasks.filter(t => t.projectId === project.id);
-    const completedTasks = projectTasks.filter(t => t.status === '✅ Done');
-    const inProgressTasks = projectTasks.filter(t => t.status === '🔄 In Progress');
-    const blockedTasks = projectTasks.filter(t => t.status === '🚫 Blocked' || t.status === '⏸️ Waiting');
+    const completedTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'done');
+    const inProgressTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'active');
+    const blockedTasks = projectTasks.filter(t => getStatusCategory(t.status) === 'blocked');
     
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
     const overdueTasks = projectTasks.filter(t => {
-      if (t.status === '✅ Done' || !t.dueDate) return false;
+      if (getStatusCategory(t.status) === 'done' || !t.dueDate) return false;
       const due = parseLocalDate(t.dueDate);
       if (!due) return false;
       due.setHours(0, 0, 0, 0);
@@ -90,7 +105,7 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
     });
     
     const dueTodayTasks = projectTasks.filter(t => {
-      if (t.status === '✅ Done' || !t.dueDate) return false;
+      if (getStatusCategory(t.status) === 'done' || !t.dueDate) return false;
       const due = parseLocalDate(t.dueDate);
       if (!due) return false;
       due.setHours(0, 0, 0, 0);
@@ -119,7 +134,7 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
       completionPercent,
       statusBreakdown,
     };
-  }, [project, tasks]);
+  }, [project, tasks, getStatusCategory]);
   
   const handleSave = async () => {
     if (!project || !editName.trim()) return;
@@ -131,6 +146,7 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
       description: editDescription,
       startDate: editStartDate || null,
       targetDate: editTargetDate || null,
+      ...(editColor !== undefined ? { color: editColor } : {}),
     });
     setIsSaving(false);
     setIsEditing(false);
@@ -143,13 +159,36 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
       setEditDescription(typeof project.description === 'string' ? project.description : '');
       setEditStartDate(formatDateForInput(project.startDate));
       setEditTargetDate(formatDateForInput(project.targetDate));
+      setEditColor(undefined);
     }
     setIsEditing(false);
   };
   
+  // The panel shows a snapshot of the project, so close it once the project changes state
+  const handleArchive = async () => {
+    if (!project) return;
+    onClose();
+    if (isArchivedProject(project)) await unarchiveProject(project.id);
+    else await archiveProject(project.id);
+  };
+  
+  const handleDelete = () => {
+    if (!project) return;
+    showConfirm({
+      title: 'Delete project',
+      message: `Delete "${project.name}" and its sections? Its tasks will be moved to the Inbox.`,
+      type: 'delete',
+      onConfirm: () => {
+        onClose();
+        deleteProject(project.id);
+      },
+    });
+  };
+  
   if (!project) return null;
   
-  const projectColor = PROJECT_COLORS[project.id] || DEFAULT_PROJECT_COLOR;
+  const projectColor = getProjectColor(project.id);
+  const selectedColor = editColor ?? projectColor;
   
   return (
     <div
@@ -314,6 +353,31 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
         {isEditing ? (
           // Edit Form
           <>
+            {/* Color */}
+            <div style={{ marginBottom: 20 }}>
+              <label style={{ display: 'block', fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 8 }}>
+                Color
+              </label>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+                {PROJECT_COLOR_OPTIONS.map(color => (
+                  <button
+                    key={color.value}
+                    type="button"
+                    onClick={() => setEditColor(color.value)}
+                    title={color.label}
+                    style={{
+                      width: 28,
+                      height: 28,
+                      borderRadius: '50%',
+                      backgroundColor: color.value,
+                      border: selectedColor === color.value ? `3px solid ${colors.text}` : '3px solid transparent',
+                      cursor: 'pointer',
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+            
             {/* Timeline */}
             <div style={{ marginBottom: 20 }}>
               <h3 style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12, display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -645,6 +709,54 @@ export function ProjectDetailsPanel({ project, onClose, onSelectProject }: Proje
             View All Tasks
           </button>
         )}
+        
+        {/* Archive / Delete */}
+        {!isEditing && (
+          <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+            <button
+              onClick={handleArchive}
+              style={{
+                flex: 1,
+                padding: '10px 16px',
+                fontSize: 13,
+                fontWeight: 500,
+                borderRadius: 8,
+                border: `1px solid ${colors.border}`,
+                backgroundColor: 'transparent',
+                color: colors.text,
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: 6,
+              }}
+            >
+              {isArchivedProject(project) ? <ArrowCounterClockwise size={16} /> : <Archive size={16} />}
+              {isArchivedProject(project) ? 'Restore Project' : 'Archive Project'}
+            </button>
+            <button
+              onClick={handleDelete}
+              style={{
+                flex: 1,
+                padding: '10px 16px',
+                fontSize: 13,
+                fontWeight: 500,
+                borderRadius: 8,
+                border: `1px solid ${colors.border}`,
+                backgroundColor: 'transparent',
+                color: '#ef4444',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: 6,
+              }}
+            >
+              <Trash size={16} />
+              Delete Project
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,10 @@
 import { useState, useMemo } from 'react';
 import { CaretLeft, CaretRight } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
 import { parseLocalDate } from '../utils/dates';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR } from '../utils/constants';
+import { withoutArchivedTasks } from '../utils/projects';
 import type { Task } from '../types';
 
 interface ScheduleViewProps {
@@ -43,7 +45,8 @@ function parseDurationToHours(durationStr: string | null): number {
 }
 
 export function ScheduleView({ onEditTask }: ScheduleViewProps) {
-  const { tasks, showCompleted, isDarkMode } = useStore();
+  const { tasks, projects, showCompleted, isDarkMode } = useStore();
+  const { isDone } = useTaskOptions();
   
   const [viewMode, setViewMode] = useState<'day' | 'week'>('day');
   const [selectedDate, setSelectedDate] = useState(new Date());
@@ -83,8 +86,8 @@ export function ScheduleView({ onEditTask }: ScheduleViewProps) {
       result[dateKey] = { scheduled: [], unscheduled: [] };
     });
     
-    tasks.forEach(task => {
-      if (task.status === '✅ Done' && !showCompleted) return;
+    withoutArchivedTasks(tasks, projects).forEach(task => {
+      if (isDone(task.status) && !showCompleted) return;
       
       const startDate = task.startDate ? parseLocalDate(task.startDate) : null;
       const dueDate = task.dueDate ? parseLocalDate(task.dueDate) : null;
@@ -103,7 +106,7 @@ export function ScheduleView({ onEditTask }: ScheduleViewProps) {
     });
     
     return result;
-  }, [tasks, viewDates, showCompleted]);
+  }, [tasks, projects, viewDates, showCompleted, isDone]);
   
   const navigateDate = (direction: number) => {
     const newDate = new Date(selectedDate);
@@ -365,8 +368,10 @@ interface ScheduleTaskCardProps {
 }
 
 function ScheduleTaskCard({ task, colors, isDarkMode, onClick, compact }: ScheduleTaskCardProps) {
-  const projectColor = task.projectId ? PROJECT_COLORS[task.projectId] || DEFAULT_PROJECT_COLOR : null;
-  const isCompleted = task.status === '✅ Done';
+  const { isDone } = useTaskOptions();
+  const getProjectColor = useProjectColors();
+  const projectColor = task.projectId ? getProjectColor(task.projectId) : null;
+  const isCompleted = isDone(task.status);
   
   return (
     <div
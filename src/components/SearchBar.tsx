@@ -1,19 +1,29 @@
 import { useState, useRef, useEffect } from 'react';
-import { MagnifyingGlass, X } from '@phosphor-icons/react';
+import { MagnifyingGlass, X, CheckCircle, Circle, Hash, Rows, Tag } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { SEARCH_OPERATOR_HINTS } from '../utils/searchQuery';
+import { formatDate } from '../utils/dates';
+import type { SearchResult, HighlightSegment } from '../utils/searchIndex';
 import type { Task } from '../types';
 
+// Results are kept with the query they answer, so they never show for another one
+const NO_RESULTS: { query: string; results: SearchResult[] } = { query: '', results: [] };
+
 interface SearchBarProps {
   onSelectTask: (task: Task) => void;
 }
 
 export function SearchBar({ onSelectTask }: SearchBarProps) {
-  const { tasks, projects, isDarkMode } = useStore();
+  const { tasks, isDarkMode, isSearchOpen: isOpen, setSearchOpen: setIsOpen, setView } = useStore();
+  const search = useSearchIndex();
   
-  const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState('');
+  const [found, setFound] = useState(NO_RESULTS);
+  const [activeIndex, setActiveIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   
   const colors = {
     bg: isDarkMode ? '#282828' : '#ffffff',
@@ -22,36 +32,103 @@ export function SearchBar({ onSelectTask }: SearchBarProps) {
     textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
     primary: '#d1453b',
     resultBg: isDarkMode ? '#333333' : '#f5f5f5',
+    highlight: isDarkMode ? 'rgba(209, 69, 59, 0.35)' : 'rgba(209, 69, 59, 0.15)',
   };
   
+  const results = found.query === query ? found.results : [];
+  const isSearching = !!query.trim() && found.query !== query;
+  
   // Close on click outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
       if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setQuery('');
+        setFound(NO_RESULTS);
+        setActiveIndex(0);
         setIsOpen(false);
       }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
+  }, [setIsOpen]);
+  
+  // Search in the worker; a slow answer to an older query is dropped
+  useEffect(() => {
+    if (!query.trim()) return;
+    let isCurrent = true;
+    search(query).then(results => {
+      if (!isCurrent) return;
+      setFound({ query, results });
+      setActiveIndex(0);
+    });
+    return () => { isCurrent = false; };
+  }, [query, search]);
   
-  // Filter tasks based on query
-  const filteredTasks = query.trim()
-    ? tasks.filter(task => 
-        task.name.toLowerCase().includes(query.toLowerCase()) ||
-        task.notes?.toLowerCase().includes(query.toLowerCase())
-      ).slice(0, 10)
-    : [];
+  // Keep the active result in view while arrowing through
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
   
-  const handleSelect = (task: Task) => {
-    onSelectTask(task);
+  const close = () => {
     setQuery('');
+    setFound(NO_RESULTS);
+    setActiveIndex(0);
     setIsOpen(false);
   };
   
-  const getProjectName = (projectId: string | null) => {
-    if (!projectId) return null;
-    return projects.find(p => p.id === projectId)?.name;
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    if (!value.trim()) {
+      setFound(NO_RESULTS);
+      setActiveIndex(0);
+    }
+  };
+  
+  const handleSelect = ({ doc }: SearchResult) => {
+    if (doc.kind === 'task') {
+      const task = tasks.find(t => t.id === doc.id);
+      if (task) onSelectTask(task);
+    } else if (doc.kind === 'tag') {
+      setView('tag', doc.id);
+    } else if (doc.projectId) {
+      // Sections open their project
+      setView('project', doc.projectId);
+    }
+    close();
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (query.trim() && results[activeIndex]) handleSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+  
+  const renderHighlighted = (segments: HighlightSegment[]) => segments.map((segment, i) =>
+    segment.match ? (
+      <mark key={i} style={{ backgroundColor: colors.highlight, color: 'inherit', borderRadius: 2 }}>
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={i}>{segment.text}</span>
+    )
+  );
+  
+  const getIcon = ({ doc }: SearchResult) => {
+    switch (doc.kind) {
+      case 'task': return doc.isDone ? <CheckCircle size={16} weight="fill" /> : <Circle size={16} />;
+      case 'project': return <Hash size={16} />;
+      case 'section': return <Rows size={16} />;
+      case 'tag': return <Tag size={16} />;
+    }
   };
   
   return (
@@ -73,8 +150,9 @@ export function SearchBar({ onSelectTask }: SearchBarProps) {
             ref={inputRef}
             type="text"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder="Search tasks..."
+            onChange={(e) => handleQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks, projects, tags..."
             autoFocus
             style={{
               flex: 1,
@@ -86,7 +164,7 @@ export function SearchBar({ onSelectTask }: SearchBarProps) {
             }}
           />
           <button
-            onClick={() => { setQuery(''); setIsOpen(false); }}
+            onClick={close}
             style={{
               padding: 2,
               border: 'none',
@@ -120,73 +198,95 @@ export function SearchBar({ onSelectTask }: SearchBarProps) {
       )}
       
       {/* Search Results Dropdown */}
-      {isOpen && query.trim() && (
+      {isOpen && (
         <div style={{
           position: 'absolute',
           top: '100%',
-          left: 0,
           right: 0,
+          width: 440,
           marginTop: 4,
           backgroundColor: colors.bg,
           border: `1px solid ${colors.border}`,
           borderRadius: 8,
           boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
-          maxHeight: 400,
+          maxHeight: 440,
           overflowY: 'auto',
           zIndex: 100,
         }}>
-          {filteredTasks.length === 0 ? (
+          {!query.trim() ? (
+            <div style={{ padding: '12px 16px', fontSize: 12, color: colors.textSecondary, lineHeight: 1.8 }}>
+              Search names and notes, or narrow it down with{' '}
+              {SEARCH_OPERATOR_HINTS.map((hint, i) => (
+                <span key={hint}>
+                  {i > 0 && ' '}
+                  <code style={{ padding: '1px 4px', borderRadius: 4, backgroundColor: colors.resultBg, color: colors.text }}>
+                    {hint}
+                  </code>
+                </span>
+              ))}
+            </div>
+          ) : results.length === 0 ? (
             <div style={{
               padding: 16,
               textAlign: 'center',
               color: colors.textSecondary,
               fontSize: 14,
             }}>
-              No tasks found
+              {isSearching ? 'Searching...' : 'No results'}
             </div>
           ) : (
-            filteredTasks.map(task => (
-              <button
-                key={task.id}
-                onClick={() => handleSelect(task)}
-                style={{
-                  display: 'block',
-                  width: '100%',
-                  padding: '12px 16px',
-                  border: 'none',
-                  backgroundColor: 'transparent',
-                  textAlign: 'left',
-                  cursor: 'pointer',
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = colors.resultBg}
-                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
-              >
-                <div style={{
-                  fontSize: 14,
-                  color: task.status === '✅ Done' ? colors.textSecondary : colors.text,
-                  textDecoration: task.status === '✅ Done' ? 'line-through' : 'none',
-                  marginBottom: 2,
-                }}>
-                  {task.name}
-                </div>
-                <div style={{
-                  fontSize: 12,
-                  color: colors.textSecondary,
-                  display: 'flex',
-                  gap: 8,
-                }}>
-                  {getProjectName(task.projectId) && (
-                    <span>{getProjectName(task.projectId)}</span>
-                  )}
-                  {task.dueDate && (
-                    <span>{new Date(task.dueDate).toLocaleDateString()}</span>
-                  )}
-                  {task.status && (
-                    <span>{task.status}</span>
-                  )}
-                </div>
-              </button>
-            ))
+            <div ref={listRef}>
+              {results.map((result, index) => {
+                const { doc } = result;
+                const details = [
+                  doc.kind === 'task' ? doc.project : null,
+                  doc.kind === 'section' ? `Section in ${doc.project ?? 'no project'}` : null,
+                  doc.kind === 'project' ? 'Project' : null,
+                  doc.kind === 'tag' ? 'Tag' : null,
+                  doc.dueDate ? formatDate(doc.dueDate) : null,
+                  doc.status,
+                ].filter(Boolean);
+                return (
+                  <button
+                    key={`${doc.kind}:${doc.id}`}
+                    onClick={() => handleSelect(result)}
+                    onMouseMove={() => index !== activeIndex && setActiveIndex(index)}
+                    style={{
+                      display: 'flex',
+                      gap: 10,
+                      width: '100%',
+                      padding: '10px 16px',
+                      border: 'none',
+                      backgroundColor: index === activeIndex ? colors.resultBg : 'transparent',
+                      textAlign: 'left',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <span style={{ display: 'flex', paddingTop: 2, color: colors.textSecondary }}>{getIcon(result)}</span>
+                    <span style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{
+                        fontSize: 14,
+                        color: doc.isDone ? colors.textSecondary : colors.text,
+                        textDecoration: doc.isDone ? 'line-through' : 'none',
+                        marginBottom: 2,
+                      }}>
+                        {renderHighlighted(result.title)}
+                      </div>
+                      {result.snippet && (
+                        <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 2 }}>
+                          {renderHighlighted(result.snippet)}
+                        </div>
+                      )}
+                      {details.length > 0 && (
+                        <div style={{ fontSize: 12, color: colors.textSecondary, display: 'flex', gap: 8 }}>
+                          {details.map(detail => <span key={detail}>{detail}</span>)}
+                        </div>
+                      )}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
           )}
         </div>
       )}
@@ -0,0 +1,389 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import {
+  ArrowRight,
+  CaretDown,
+  CaretRight,
+  Circle,
+  DotsSixVertical,
+  DotsThree,
+  PencilSimple,
+  Prohibit,
+  Trash,
+} from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { useProjectColors } from '../hooks/useProjectColors';
+import { SECTION_COLORS } from '../utils/constants';
+import { isArchivedProject } from '../utils/projects';
+import type { Section } from '../types';
+
+// Sortable ids for section headers, kept apart from the task and drop-zone ids
+export const SECTION_SORT_PREFIX = 'section-sort-';
+
+interface SectionHeaderProps {
+  section: Section;
+  taskCount: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  enableDragDrop?: boolean;
+}
+
+/**
+ * Collapsible header of a project section, with a drag handle for
+ * reordering and a menu to rename, recolor, move or delete the section.
+ */
+export function SectionHeader({ section, taskCount, isCollapsed, onToggle, enableDragDrop = true }: SectionHeaderProps) {
+  const {
+    projects,
+    tasks,
+    updateSections,
+    moveSection,
+    deleteSection,
+    showConfirm,
+    isDarkMode,
+  } = useStore();
+  const getProjectColor = useProjectColors();
+  const [showMenu, setShowMenu] = useState(false);
+  const [showMoveMenu, setShowMoveMenu] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(section.name);
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Escape leaves rename without saving on the blur that follows
+  const skipRenameRef = useRef(false);
+
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: `${SECTION_SORT_PREFIX}${section.id}`, disabled: !enableDragDrop });
+
+  const colors = {
+    groupBg: isDarkMode ? '#242424' : '#fafafa',
+    border: isDarkMode ? '#3a3a3a' : '#e0e0e0',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    textMuted: isDarkMode ? '#606060' : '#b0b0b0',
+    inputBg: isDarkMode ? '#333333' : '#ffffff',
+    menuBg: isDarkMode ? '#333333' : '#ffffff',
+    dragHandle: isDarkMode ? '#505050' : '#c0c0c0',
+  };
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setShowMenu(false);
+        setShowMoveMenu(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const closeMenu = () => {
+    setShowMenu(false);
+    setShowMoveMenu(false);
+  };
+
+  const startRename = () => {
+    closeMenu();
+    setDraftName(section.name);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    if (skipRenameRef.current) {
+      skipRenameRef.current = false;
+      return;
+    }
+    const name = draftName.trim();
+    if (name && name !== section.name) {
+      updateSections([{ id: section.id, updates: { name } }], { message: 'Section renamed', historyLabel: 'Rename section' });
+    }
+  };
+
+  const handleColor = (color: string | null) => {
+    closeMenu();
+    if (color === section.color) return;
+    updateSections([{ id: section.id, updates: { color } }], { message: 'Section color updated', historyLabel: 'Change section color' });
+  };
+
+  const handleMove = (projectId: string) => {
+    closeMenu();
+    moveSection(section.id, projectId);
+  };
+
+  const handleDelete = () => {
+    closeMenu();
+    // Count every task in the section, including hidden completed ones
+    const count = tasks.filter(t => t.sectionId === section.id).length;
+    if (count === 0) {
+      showConfirm({
+        title: 'Delete section',
+        message: `Delete "${section.name}"?`,
+        type: 'delete',
+        onConfirm: () => deleteSection(section.id),
+      });
+      return;
+    }
+    showConfirm({
+      title: 'Delete section',
+      message: `"${section.name}" has ${count} ${count === 1 ? 'task' : 'tasks'}. Delete them too, or move them to the project without a section?`,
+      type: 'delete',
+      confirmLabel: 'Delete tasks',
+      secondaryLabel: 'Move tasks',
+      onConfirm: () => deleteSection(section.id, { deleteTasks: true }),
+      onSecondary: () => deleteSection(section.id),
+    });
+  };
+
+  const moveTargets = projects.filter(p => p.id !== section.projectId && !isArchivedProject(p));
+
+  const menuItemStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    width: '100%',
+    padding: '10px 12px',
+    fontSize: 13,
+    border: 'none',
+    backgroundColor: 'transparent',
+    color: colors.text,
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        position: 'sticky',
+        top: 0,
+        zIndex: showMenu ? 20 : 10,
+        transform: CSS.Transform.toString(transform),
+        transition,
+        opacity: isDragging ? 0.5 : 1,
+        backgroundColor: colors.groupBg,
+        padding: '10px 32px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        borderBottom: `1px solid ${colors.border}`,
+      }}
+    >
+      {/* Drag handle */}
+      {enableDragDrop && (
+        <div
+          {...attributes}
+          {...listeners}
+          style={{
+            position: 'absolute',
+            left: 12,
+            display: 'flex',
+            alignItems: 'center',
+            cursor: 'grab',
+            color: colors.dragHandle,
+          }}
+          title="Drag to reorder"
+        >
+          <DotsSixVertical size={16} weight="bold" />
+        </div>
+      )}
+
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              skipRenameRef.current = true;
+              e.currentTarget.blur();
+            }
+          }}
+          style={{
+            flex: 1,
+            padding: '4px 8px',
+            fontSize: 13,
+            fontWeight: 600,
+            border: `1px solid ${colors.border}`,
+            borderRadius: 6,
+            backgroundColor: colors.inputBg,
+            color: colors.text,
+            outline: 'none',
+          }}
+        />
+      ) : (
+        <button
+          onClick={onToggle}
+          onDoubleClick={startRename}
+          style={{
+            flex: 1,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: 0,
+            border: 'none',
+            backgroundColor: 'transparent',
+            cursor: 'pointer',
+            textAlign: 'left',
+          }}
+        >
+          {isCollapsed ? (
+            <CaretRight size={14} style={{ color: colors.textSecondary }} />
+          ) : (
+            <CaretDown size={14} style={{ color: colors.textSecondary }} />
+          )}
+          {section.color && (
+            <Circle size={10} weight="fill" style={{ color: section.color }} />
+          )}
+          <span style={{
+            fontSize: 13,
+            fontWeight: 600,
+            color: section.color || colors.text,
+            flex: 1,
+          }}>
+            {section.name}
+          </span>
+          <span style={{
+            fontSize: 12,
+            padding: '2px 8px',
+            borderRadius: 12,
+            backgroundColor: isDarkMode ? '#3a3a3a' : '#e5e5e5',
+            color: colors.textSecondary,
+          }}>
+            {taskCount}
+          </span>
+        </button>
+      )}
+
+      {/* Section menu */}
+      <div ref={menuRef} style={{ position: 'relative' }}>
+        <button
+          onClick={() => {
+            setShowMenu(!showMenu);
+            setShowMoveMenu(false);
+          }}
+          style={{
+            padding: 4,
+            borderRadius: 4,
+            border: 'none',
+            backgroundColor: 'transparent',
+            color: colors.textSecondary,
+            cursor: 'pointer',
+            display: 'flex',
+          }}
+          title="Section options"
+        >
+          <DotsThree size={16} weight="bold" />
+        </button>
+
+        {showMenu && (
+          <div style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: 4,
+            width: 200,
+            backgroundColor: colors.menuBg,
+            borderRadius: 8,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+            zIndex: 100,
+            overflow: 'hidden',
+          }}>
+            {showMoveMenu ? (
+              <>
+                <div style={{ padding: '8px 12px', fontSize: 11, fontWeight: 600, color: colors.textMuted, textTransform: 'uppercase' }}>
+                  Move to project
+                </div>
+                {moveTargets.length === 0 ? (
+                  <div style={{ padding: '8px 12px 12px', fontSize: 13, color: colors.textSecondary }}>
+                    No other projects
+                  </div>
+                ) : (
+                  <div style={{ maxHeight: 240, overflowY: 'auto' }}>
+                    {moveTargets.map(project => (
+                      <button key={project.id} onClick={() => handleMove(project.id)} style={menuItemStyle}>
+                        <Circle size={8} weight="fill" style={{ color: getProjectColor(project.id) }} />
+                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {project.name}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <button onClick={startRename} style={menuItemStyle}>
+                  <PencilSimple size={16} />
+                  Rename
+                </button>
+                <button onClick={() => setShowMoveMenu(true)} style={menuItemStyle}>
+                  <ArrowRight size={16} />
+                  Move to project
+                </button>
+
+                {/* Color swatches */}
+                <div style={{ padding: '6px 12px 10px' }}>
+                  <div style={{ fontSize: 11, color: colors.textMuted, marginBottom: 6 }}>Color</div>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                    <button
+                      onClick={() => handleColor(null)}
+                      title="No color"
+                      style={{
+                        width: 20,
+                        height: 20,
+                        padding: 0,
+                        borderRadius: '50%',
+                        border: `2px solid ${!section.color ? colors.text : colors.border}`,
+                        backgroundColor: 'transparent',
+                        color: colors.textSecondary,
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      <Prohibit size={12} />
+                    </button>
+                    {SECTION_COLORS.map(color => (
+                      <button
+                        key={color.value}
+                        onClick={() => handleColor(color.value)}
+                        title={color.label}
+                        style={{
+                          width: 20,
+                          height: 20,
+                          padding: 0,
+                          borderRadius: '50%',
+                          border: section.color === color.value ? `2px solid ${colors.text}` : '2px solid transparent',
+                          backgroundColor: color.value,
+                          cursor: 'pointer',
+                        }}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div style={{ height: 1, backgroundColor: colors.border, margin: '4px 0' }} />
+                <button onClick={handleDelete} style={{ ...menuItemStyle, color: '#ef4444' }}>
+                  <Trash size={16} />
+                  Delete section
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
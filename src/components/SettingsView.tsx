@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { ArrowsClockwise, CheckCircle, Warning, XCircle } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { getDefaultAirtableSettings, validateAirtableSettings } from '../api/airtable';
+import { AIRTABLE_FIELD_PREFIXES } from '../utils/constants';
+import { STATUS_CATEGORY_LABELS } from '../utils/taskOptions';
+import type { AirtableSettings, StatusCategory, SubtaskSettings } from '../types';
+
+const TABLE_LABELS: Record<keyof AirtableSettings['tables'], string> = {
+  tasks: 'Tasks',
+  projects: 'Projects',
+  tags: 'Tags',
+  sections: 'Sections',
+};
+
+// "TASK_DUE_DATE" -> "Due date"
+function formatFieldKey(key: string, prefix: string): string {
+  const words = key.slice(prefix.length).toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function SettingsView() {
+  const {
+    airtableSettings,
+    saveAirtableSettings,
+    taskOptions,
+    refreshTaskOptions,
+    setStatusCategory,
+    subtaskSettings,
+    setSubtaskSettings,
+    showToast,
+    showConfirm,
+    isDarkMode,
+  } = useStore();
+
+  const [draft, setDraft] = useState<AirtableSettings>(() => {
+    const defaults = getDefaultAirtableSettings();
+    // Merge so fields added in newer versions still get a default name
+    return airtableSettings
+      ? { ...airtableSettings, fields: { ...defaults.fields, ...airtableSettings.fields } }
+      : defaults;
+  });
+  const [result, setResult] = useState<{ errors: string[]; warnings: string[] } | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const colors = {
+    cardBg: isDarkMode ? '#282828' : '#f9fafb',
+    cardBorder: isDarkMode ? '#3a3a3a' : '#e5e7eb',
+    inputBg: isDarkMode ? '#1f1f1f' : '#ffffff',
+    text: isDarkMode ? '#ffffff' : '#111827',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#6b7280',
+    textMuted: isDarkMode ? '#606060' : '#9ca3af',
+    primary: '#d1453b',
+  };
+
+  const inputStyle = {
+    width: '100%',
+    padding: '8px 10px',
+    borderRadius: 6,
+    border: `1px solid ${colors.cardBorder}`,
+    backgroundColor: colors.inputBg,
+    color: colors.text,
+    fontSize: 13,
+    boxSizing: 'border-box' as const,
+  };
+
+  const labelStyle = {
+    display: 'block',
+    marginBottom: 4,
+    fontSize: 12,
+    color: colors.textSecondary,
+  };
+
+  const cardStyle = {
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 8,
+    border: `1px solid ${colors.cardBorder}`,
+    backgroundColor: colors.cardBg,
+  };
+
+  const updateDraft = (updates: Partial<AirtableSettings>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setResult(null);
+  };
+
+  const handleValidate = async () => {
+    setIsValidating(true);
+    const validation = await validateAirtableSettings(draft);
+    setResult(validation);
+    setIsValidating(false);
+    return validation;
+  };
+
+  const handleSave = async () => {
+    const validation = await handleValidate();
+    if (validation.errors.length > 0) return;
+
+    showConfirm({
+      title: 'Connect to this base?',
+      message: 'Cached tasks and any unsynced changes on this device will be cleared, then data will be loaded from the configured base.',
+      type: 'warning',
+      confirmLabel: 'Connect',
+      onConfirm: async () => {
+        setIsSaving(true);
+        try {
+          await saveAirtableSettings({
+            ...draft,
+            baseId: draft.baseId.trim(),
+            apiKey: draft.apiKey.trim(),
+          });
+          showToast('Airtable settings saved');
+        } catch (error) {
+          console.error('Failed to save settings:', error);
+          showToast('Failed to save settings', 'error');
+        } finally {
+          setIsSaving(false);
+        }
+      },
+    });
+  };
+
+  const handleReset = () => {
+    showConfirm({
+      title: 'Reset to defaults?',
+      message: 'This restores the built-in base and field names and clears cached data on this device.',
+      type: 'warning',
+      confirmLabel: 'Reset',
+      onConfirm: async () => {
+        await saveAirtableSettings(null);
+        setDraft(getDefaultAirtableSettings());
+        setResult(null);
+        showToast('Airtable settings reset');
+      },
+    });
+  };
+
+  const handleRefreshChoices = async () => {
+    setIsRefreshing(true);
+    await refreshTaskOptions(true);
+    setIsRefreshing(false);
+  };
+
+  const buttonStyle = (primary: boolean, disabled: boolean) => ({
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: primary ? 'none' : `1px solid ${colors.cardBorder}`,
+    backgroundColor: primary ? colors.primary : 'transparent',
+    color: primary ? '#ffffff' : colors.text,
+    fontSize: 13,
+    fontWeight: 500,
+    cursor: disabled ? 'default' : 'pointer',
+    opacity: disabled ? 0.6 : 1,
+  });
+
+  const isBusy = isValidating || isSaving;
+
+  return (
+    <div style={{ maxWidth: 720, padding: '24px 32px' }}>
+      {/* Connection */}
+      <div style={cardStyle}>
+        <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>
+          Connection
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+          <div>
+            <label style={labelStyle}>Base ID</label>
+            <input
+              value={draft.baseId}
+              onChange={(e) => updateDraft({ baseId: e.target.value })}
+              placeholder="appXXXXXXXXXXXXXX"
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Personal access token</label>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => updateDraft({ apiKey: e.target.value })}
+              placeholder={import.meta.env.VITE_AIRTABLE_API_KEY ? 'Using VITE_AIRTABLE_API_KEY' : 'patXXXXXXXX...'}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+        <div style={{ marginTop: 8, fontSize: 11, color: colors.textMuted }}>
+          The token needs data.records:read, data.records:write and schema.bases:read scopes.
+          It is stored in this browser only.
+        </div>
+      </div>
+
+      {/* Tables and fields, one card per entity */}
+      {(Object.keys(TABLE_LABELS) as (keyof AirtableSettings['tables'])[]).map(entity => {
+        const prefix = AIRTABLE_FIELD_PREFIXES[entity];
+        const fieldKeys = Object.keys(draft.fields).filter(key => key.startsWith(prefix));
+
+        return (
+          <div key={entity} style={cardStyle}>
+            <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>
+              {TABLE_LABELS[entity]}
+            </div>
+            <div style={{ marginBottom: 12 }}>
+              <label style={labelStyle}>Table ID or name</label>
+              <input
+                value={draft.tables[entity]}
+                onChange={(e) => updateDraft({ tables: { ...draft.tables, [entity]: e.target.value } })}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+              {fieldKeys.map(key => (
+                <div key={key}>
+                  <label style={labelStyle}>{formatFieldKey(key, prefix)}</label>
+                  <input
+                    value={draft.fields[key]}
+                    onChange={(e) => updateDraft({ fields: { ...draft.fields, [key]: e.target.value } })}
+                    style={inputStyle}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Validation results */}
+      {result && (
+        <div style={cardStyle}>
+          {result.errors.length === 0 && result.warnings.length === 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#22c55e' }}>
+              <CheckCircle size={16} weight="fill" />
+              All tables and fields found
+            </div>
+          )}
+          {result.errors.map(message => (
+            <div key={message} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#ef4444', marginBottom: 4 }}>
+              <XCircle size={16} weight="fill" />
+              {message}
+            </div>
+          ))}
+          {result.warnings.map(message => (
+            <div key={message} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#d97706', marginBottom: 4 }}>
+              <Warning size={16} weight="fill" />
+              {message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button onClick={handleSave} disabled={isBusy} style={buttonStyle(true, isBusy)}>
+          {isSaving ? 'Saving...' : 'Save & connect'}
+        </button>
+        <button onClick={handleValidate} disabled={isBusy} style={buttonStyle(false, isBusy)}>
+          {isValidating ? 'Checking...' : 'Validate'}
+        </button>
+        {airtableSettings && (
+          <button onClick={handleReset} disabled={isBusy} style={buttonStyle(false, isBusy)}>
+            Reset to defaults
+          </button>
+        )}
+      </div>
+
+      {/* Status categories for the connected base */}
+      <div style={{ ...cardStyle, marginTop: 24 }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+          <span style={{ fontSize: 14, fontWeight: 600, color: colors.text }}>Statuses</span>
+          <button
+            onClick={handleRefreshChoices}
+            disabled={isRefreshing}
+            style={{ ...buttonStyle(false, isRefreshing), display: 'flex', alignItems: 'center', gap: 6, padding: '4px 10px', fontSize: 12 }}
+          >
+            <ArrowsClockwise size={14} />
+            {isRefreshing ? 'Refreshing...' : 'Refresh from base'}
+          </button>
+        </div>
+        <div style={{ fontSize: 11, color: colors.textMuted, marginBottom: 12 }}>
+          Choose what each status means. Done tasks are hidden unless "Show completed" is on;
+          active and blocked statuses are counted on project dashboards.
+        </div>
+        {taskOptions.statuses.map(status => (
+          <div
+            key={status.value}
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '6px 0' }}
+          >
+            <span style={{ fontSize: 13, color: colors.text }}>{status.label}</span>
+            <select
+              value={status.category}
+              onChange={(e) => setStatusCategory(status.value, e.target.value as StatusCategory)}
+              style={{ ...inputStyle, width: 140 }}
+            >
+              {(Object.keys(STATUS_CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                <option key={category} value={category}>{STATUS_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+        {taskOptions.fetchedAt && (
+          <div style={{ marginTop: 8, fontSize: 11, color: colors.textMuted }}>
+            Choices read from the base {new Date(taskOptions.fetchedAt).toLocaleString()}
+          </div>
+        )}
+      </div>
+
+      {/* What happens to subtasks when their parent changes (this device only) */}
+      <div style={cardStyle}>
+        <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>
+          Subtasks
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '6px 0' }}>
+          <span style={{ fontSize: 13, color: colors.text }}>When completing a parent task</span>
+          <select
+            value={subtaskSettings.completeSubtasks}
+            onChange={(e) => setSubtaskSettings({ completeSubtasks: e.target.value as SubtaskSettings['completeSubtasks'] })}
+            style={{ ...inputStyle, width: 200 }}
+          >
+            <option value="ask">Ask about open subtasks</option>
+            <option value="always">Complete open subtasks</option>
+            <option value="never">Leave subtasks open</option>
+          </select>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '6px 0' }}>
+          <span style={{ fontSize: 13, color: colors.text }}>When deleting a parent task</span>
+          <select
+            value={subtaskSettings.deleteSubtasks}
+            onChange={(e) => setSubtaskSettings({ deleteSubtasks: e.target.value as SubtaskSettings['deleteSubtasks'] })}
+            style={{ ...inputStyle, width: 200 }}
+          >
+            <option value="delete">Delete its subtasks</option>
+            <option value="promote">Keep subtasks, move them up</option>
+          </select>
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 0', fontSize: 13, color: colors.text, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={subtaskSettings.autoCompleteParent}
+            onChange={(e) => setSubtaskSettings({ autoCompleteParent: e.target.checked })}
+          />
+          Complete a parent task when its last subtask is completed
+        </label>
+        <div style={{ marginTop: 8, fontSize: 11, color: colors.textMuted }}>
+          Moving a parent to another project or section always moves its subtasks with it.
+        </div>
+      </div>
+    </div>
+  );
+}
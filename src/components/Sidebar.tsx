@@ -26,10 +26,18 @@ import {
   CaretDown,
   CaretRight,
   DotsSixVertical,
+  GearSix,
+  Trash,
+  Plus,
+  Archive,
 } from '@phosphor-icons/react';
 import { useStore } from '../store';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR, TAG_COLORS, STORAGE_KEYS } from '../utils/constants';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
+import { TAG_COLORS, STORAGE_KEYS } from '../utils/constants';
+import { isArchivedProject, withoutArchivedTasks } from '../utils/projects';
 import type { ViewType, Project, Tag as TagType, Filter } from '../types';
+import type { BackendType } from '../api/backend';
 
 // Storage keys for sidebar order preferences
 const ORDER_KEYS = {
@@ -72,7 +80,11 @@ interface NavItem {
   count?: number;
 }
 
-export function Sidebar() {
+interface SidebarProps {
+  onAddProject: () => void;
+}
+
+export function Sidebar({ onAddProject }: SidebarProps) {
   const {
     currentView,
     setCurrentView,
@@ -86,6 +98,7 @@ export function Sidebar() {
     projects,
     tags,
     filters,
+    trash,
     sidebarWidth,
     setSidebarWidth,
     isDarkMode,
@@ -93,7 +106,12 @@ export function Sidebar() {
     isSyncing,
     lastSyncTime,
     syncPendingChanges,
+    backendType,
+    setBackendType,
+    showConfirm,
   } = useStore();
+  const { isDone, defaultStatus } = useTaskOptions();
+  const getProjectColor = useProjectColors();
   
   const [projectsExpanded, setProjectsExpanded] = useState(true);
   const [tagsExpanded, setTagsExpanded] = useState(true);
@@ -129,9 +147,14 @@ export function Sidebar() {
     dragHandle: isDarkMode ? '#505050' : '#c0c0c0',
   };
   
+  // Archived projects and their tasks are left out of the counts
+  const activeProjects = projects.filter(p => !isArchivedProject(p));
+  const archivedCount = projects.length - activeProjects.length;
+  const activeTasks = withoutArchivedTasks(tasks, projects);
+  
   // Calculate counts
-  const todayCount = tasks.filter(t => {
-    if (t.status === '✅ Done') return false;
+  const todayCount = activeTasks.filter(t => {
+    if (isDone(t.status)) return false;
     if (!t.dueDate) return false;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -140,12 +163,12 @@ export function Sidebar() {
     return due <= today;
   }).length;
   
-  const inboxCount = tasks.filter(t => 
-    t.status === '📥 Inbox' || (!t.projectId && t.status !== '✅ Done')
+  const inboxCount = activeTasks.filter(t => 
+    t.status === defaultStatus || (!t.projectId && !isDone(t.status))
   ).length;
   
-  const upcomingCount = tasks.filter(t => {
-    if (t.status === '✅ Done') return false;
+  const upcomingCount = activeTasks.filter(t => {
+    if (isDone(t.status)) return false;
     if (!t.dueDate) return false;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -166,7 +189,10 @@ export function Sidebar() {
   ];
   
   // Sorted items
-  const sortedProjects = useMemo(() => sortByOrder(projects, projectOrder), [projects, projectOrder]);
+  const sortedProjects = useMemo(
+    () => sortByOrder(projects.filter(p => !isArchivedProject(p)), projectOrder),
+    [projects, projectOrder]
+  );
   const sortedTags = useMemo(() => sortByOrder(tags, tagOrder), [tags, tagOrder]);
   const sortedFilters = useMemo(() => sortByOrder(filters, filterOrder), [filters, filterOrder]);
   
@@ -194,8 +220,6 @@ export function Sidebar() {
     };
   }, [isResizing, setSidebarWidth]);
   
-  const getProjectColor = (projectId: string) => PROJECT_COLORS[projectId] || DEFAULT_PROJECT_COLOR;
-  
   const formatLastSync = () => {
     if (!lastSyncTime) return 'Never';
     const diff = Date.now() - lastSyncTime;
@@ -204,6 +228,19 @@ export function Sidebar() {
     return new Date(lastSyncTime).toLocaleTimeString();
   };
   
+  // Switching backend discards the local cache and any unsynced changes
+  const handleBackendChange = (type: BackendType) => {
+    showConfirm({
+      title: 'Switch storage?',
+      message: type === 'local'
+        ? 'Tasks will be stored on this device only. Unsynced Airtable changes will be discarded.'
+        : 'Tasks will be loaded from Airtable. Data stored on this device stays there but will not be shown.',
+      type: 'warning',
+      confirmLabel: 'Switch',
+      onConfirm: () => setBackendType(type),
+    });
+  };
+  
   const isViewActive = (viewId: ViewType) => {
     if (viewId === 'project' || viewId === 'tag' || viewId === 'filter') return false;
     return currentView === viewId && !selectedProjectId && !selectedTagId && !selectedFilterId;
@@ -389,27 +426,47 @@ export function Sidebar() {
         
         {/* Projects Section */}
         <div style={{ padding: '0 8px', marginBottom: 16 }}>
-          <button
-            onClick={() => setProjectsExpanded(!projectsExpanded)}
-            style={{
-              width: '100%',
-              display: 'flex',
-              alignItems: 'center',
-              gap: 8,
-              padding: '6px 12px',
-              border: 'none',
-              backgroundColor: 'transparent',
-              color: colors.textSecondary,
-              fontSize: 11,
-              fontWeight: 600,
-              textTransform: 'uppercase',
-              letterSpacing: 0.5,
-              cursor: 'pointer',
-            }}
-          >
-            {projectsExpanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
-            Projects
-          </button>
+          <div style={{ display: 'flex', alignItems: 'center' }}>
+            <button
+              onClick={() => setProjectsExpanded(!projectsExpanded)}
+              style={{
+                flex: 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '6px 12px',
+                border: 'none',
+                backgroundColor: 'transparent',
+                color: colors.textSecondary,
+                fontSize: 11,
+                fontWeight: 600,
+                textTransform: 'uppercase',
+                letterSpacing: 0.5,
+                cursor: 'pointer',
+              }}
+            >
+              {projectsExpanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
+              Projects
+            </button>
+            <button
+              onClick={onAddProject}
+              title="Add project"
+              style={{
+                display: 'flex',
+                padding: 4,
+                marginRight: 8,
+                border: 'none',
+                borderRadius: 4,
+                backgroundColor: 'transparent',
+                color: colors.textSecondary,
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = colors.bgHover; }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+            >
+              <Plus size={14} />
+            </button>
+          </div>
           {projectsExpanded && (
             <DndContext
               sensors={sensors}
@@ -421,12 +478,12 @@ export function Sidebar() {
                 strategy={verticalListSortingStrategy}
               >
                 <div style={{ marginTop: 4 }}>
-                  {projects.length === 0 && (
+                  {activeProjects.length === 0 && (
                     <p style={{ padding: '8px 12px', fontSize: 12, color: colors.textMuted }}>No projects found</p>
                   )}
                   {sortedProjects.map((project) => {
                     const taskCount = tasks.filter(t => 
-                      t.projectId === project.id && t.status !== '✅ Done'
+                      t.projectId === project.id && !isDone(t.status)
                     ).length;
                     return (
                       <SortableProjectItem
@@ -440,6 +497,29 @@ export function Sidebar() {
                       />
                     );
                   })}
+                  {archivedCount > 0 && (
+                    <button
+                      onClick={() => setCurrentView('archived')}
+                      style={{
+                        width: '100%',
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 12,
+                        padding: '6px 12px',
+                        borderRadius: 8,
+                        border: 'none',
+                        backgroundColor: currentView === 'archived' ? colors.bgActive : 'transparent',
+                        color: currentView === 'archived' ? colors.primary : colors.textSecondary,
+                        fontSize: 13,
+                        cursor: 'pointer',
+                        textAlign: 'left',
+                      }}
+                    >
+                      <Archive size={14} />
+                      <span style={{ flex: 1 }}>Archived projects</span>
+                      <span style={{ fontSize: 12, color: colors.textMuted }}>{archivedCount}</span>
+                    </button>
+                  )}
                 </div>
               </SortableContext>
             </DndContext>
@@ -448,27 +528,47 @@ export function Sidebar() {
         
         {/* Tags Section */}
         <div style={{ padding: '0 8px', marginBottom: 16 }}>
-          <button
-            onClick={() => setTagsExpanded(!tagsExpanded)}
-            style={{
-              width: '100%',
-              display: 'flex',
-              alignItems: 'center',
-              gap: 8,
-              padding: '6px 12px',
-              border: 'none',
-              backgroundColor: 'transparent',
-              color: colors.textSecondary,
-              fontSize: 11,
-              fontWeight: 600,
-              textTransform: 'uppercase',
-              letterSpacing: 0.5,
-              cursor: 'pointer',
-            }}
-          >
-            {tagsExpanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
-            Tags
-          </button>
+          <div style={{ display: 'flex', alignItems: 'center' }}>
+            <button
+              onClick={() => setTagsExpanded(!tagsExpanded)}
+              style={{
+                flex: 1,
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '6px 12px',
+                border: 'none',
+                backgroundColor: 'transparent',
+                color: colors.textSecondary,
+                fontSize: 11,
+                fontWeight: 600,
+                textTransform: 'uppercase',
+                letterSpacing: 0.5,
+                cursor: 'pointer',
+              }}
+            >
+              {tagsExpanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
+              Tags
+            </button>
+            <button
+              onClick={() => setCurrentView('tags')}
+              title="Manage tags"
+              style={{
+                display: 'flex',
+                padding: 4,
+                marginRight: 8,
+                border: 'none',
+                borderRadius: 4,
+                backgroundColor: currentView === 'tags' ? colors.bgActive : 'transparent',
+                color: currentView === 'tags' ? colors.primary : colors.textSecondary,
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = colors.bgHover; }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = currentView === 'tags' ? colors.bgActive : 'transparent'; }}
+            >
+              <GearSix size={14} />
+            </button>
+          </div>
           {tagsExpanded && (
             <DndContext
               sensors={sensors}
@@ -481,8 +581,8 @@ export function Sidebar() {
               >
                 <div style={{ marginTop: 4 }}>
                   {sortedTags.map((tag) => {
-                    const taskCount = tasks.filter(t => 
-                      t.tagIds.includes(tag.id) && t.status !== '✅ Done'
+                    const taskCount = activeTasks.filter(t => 
+                      t.tagIds.includes(tag.id) && !isDone(t.status)
                     ).length;
                     return (
                       <SortableTagItem
@@ -528,6 +628,71 @@ export function Sidebar() {
             Synced: {formatLastSync()}
           </span>
         </div>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginTop: 8,
+          fontSize: 12,
+        }}>
+          <span style={{ color: colors.textSecondary }}>Storage</span>
+          <select
+            value={backendType}
+            onChange={(e) => handleBackendChange(e.target.value as BackendType)}
+            style={{
+              padding: '2px 6px',
+              borderRadius: 6,
+              border: `1px solid ${colors.border}`,
+              backgroundColor: colors.bg,
+              color: colors.text,
+              fontSize: 12,
+            }}
+          >
+            <option value="airtable">Airtable</option>
+            <option value="local">This device</option>
+          </select>
+        </div>
+        <button
+          onClick={() => setCurrentView('settings')}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            marginTop: 8,
+            padding: 0,
+            border: 'none',
+            backgroundColor: 'transparent',
+            color: currentView === 'settings' ? colors.primary : colors.textSecondary,
+            fontSize: 12,
+            cursor: 'pointer',
+          }}
+        >
+          <GearSix size={14} />
+          Airtable settings
+        </button>
+        <button
+          onClick={() => setCurrentView('trash')}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            marginTop: 8,
+            padding: 0,
+            border: 'none',
+            backgroundColor: 'transparent',
+            color: currentView === 'trash' ? colors.primary : colors.textSecondary,
+            fontSize: 12,
+            cursor: 'pointer',
+          }}
+        >
+          <Trash size={14} />
+          Trash
+          {trash.some(item => item.id === item.rootId) && (
+            <span style={{ color: colors.textMuted }}>
+              {trash.filter(item => item.id === item.rootId).length}
+            </span>
+          )}
+        </button>
         {isOnline && (
           <button
             onClick={() => syncPendingChanges()}
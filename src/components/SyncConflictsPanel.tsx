@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { GitMerge, X } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import type { ConflictResolution } from '../store';
+import type { SyncConflict } from '../db';
+
+// Human-readable labels for synced fields
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  status: 'Status',
+  priority: 'Priority',
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  completedDate: 'Completed date',
+  projectId: 'Project',
+  sectionId: 'Section',
+  tagIds: 'Tags',
+  parentTaskId: 'Parent task',
+  notes: 'Notes',
+  description: 'Description',
+  targetDate: 'Target date',
+  scheduledTime: 'Scheduled time',
+  duration: 'Duration',
+  plannedEffort: 'Planned effort',
+  actualEffort: 'Actual effort',
+  recurrence: 'Repeat',
+};
+
+export function SyncConflictsPanel() {
+  const { conflicts, projects, sections, tags, tasks, isDarkMode, resolveConflict } = useStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  if (conflicts.length === 0) return null;
+
+  const colors = {
+    bg: isDarkMode ? '#2a2a2a' : '#ffffff',
+    border: isDarkMode ? '#3a3a3a' : '#e5e5e5',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    surface: isDarkMode ? '#333333' : '#f5f5f5',
+  };
+
+  // Show linked records by name rather than record ID
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (field === 'projectId') return projects.find(p => p.id === value)?.name || String(value);
+    if (field === 'sectionId') return sections.find(s => s.id === value)?.name || String(value);
+    if (field === 'parentTaskId') return tasks.find(t => t.id === value)?.name || String(value);
+    if (field === 'tagIds' && Array.isArray(value)) {
+      return value.map(id => tags.find(t => t.id === id)?.name || id).join(', ') || '(empty)';
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    if (conflict.id === undefined) return;
+    setResolvingId(conflict.id);
+    await resolveConflict(conflict.id, resolution);
+    setResolvingId(null);
+  };
+
+  const actionButton = (label: string, onClick: () => void, disabled: boolean, primary = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        padding: '4px 10px',
+        borderRadius: 6,
+        border: primary ? 'none' : `1px solid ${colors.border}`,
+        backgroundColor: primary ? '#d1453b' : 'transparent',
+        color: primary ? '#ffffff' : colors.text,
+        fontSize: 11,
+        fontWeight: 500,
+        cursor: disabled ? 'default' : 'pointer',
+        opacity: disabled ? 0.6 : 1,
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '6px 12px',
+          borderRadius: 8,
+          border: 'none',
+          backgroundColor: isDarkMode ? 'rgba(217, 119, 6, 0.15)' : '#fef3c7',
+          color: '#d97706',
+          fontSize: 12,
+          fontWeight: 500,
+          cursor: 'pointer',
+        }}
+        title="Review sync conflicts"
+      >
+        <GitMerge size={16} />
+        <span>{conflicts.length} conflict{conflicts.length !== 1 ? 's' : ''}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: 8,
+            width: 380,
+            maxHeight: 480,
+            overflowY: 'auto',
+            backgroundColor: colors.bg,
+            border: `1px solid ${colors.border}`,
+            borderRadius: 8,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+            zIndex: 1000,
+          }}
+        >
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            padding: '12px 16px',
+            borderBottom: `1px solid ${colors.border}`,
+          }}>
+            <span style={{ fontWeight: 600, fontSize: 14, color: colors.text }}>
+              Sync Conflicts
+            </span>
+            <button
+              onClick={() => setIsOpen(false)}
+              style={{
+                padding: 4,
+                border: 'none',
+                backgroundColor: 'transparent',
+                color: colors.textSecondary,
+                cursor: 'pointer',
+              }}
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          {conflicts.map(conflict => {
+            const isResolving = resolvingId === conflict.id;
+
+            return (
+              <div
+                key={conflict.id}
+                style={{
+                  padding: '12px 16px',
+                  borderBottom: `1px solid ${colors.border}`,
+                }}
+              >
+                <div style={{ fontSize: 13, fontWeight: 500, color: colors.text }}>
+                  {conflict.recordName || conflict.recordId}
+                </div>
+                <div style={{ fontSize: 11, color: colors.textSecondary, marginTop: 2 }}>
+                  {conflict.table === 'tasks' ? 'Task' : 'Project'} · {FIELD_LABELS[conflict.field] || conflict.field}
+                </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 8 }}>
+                  {[
+                    { label: 'Mine', value: conflict.mine },
+                    { label: 'Theirs', value: conflict.theirs },
+                  ].map(({ label, value }) => (
+                    <div
+                      key={label}
+                      style={{
+                        padding: 8,
+                        borderRadius: 6,
+                        backgroundColor: colors.surface,
+                        fontSize: 12,
+                        color: colors.text,
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-word',
+                        maxHeight: 120,
+                        overflowY: 'auto',
+                      }}
+                    >
+                      <div style={{ fontSize: 10, fontWeight: 600, color: colors.textSecondary, marginBottom: 4 }}>
+                        {label.toUpperCase()}
+                      </div>
+                      {formatValue(conflict.field, value)}
+                    </div>
+                  ))}
+                </div>
+
+                <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+                  {actionButton('Keep mine', () => handleResolve(conflict, 'mine'), isResolving, true)}
+                  {actionButton('Keep theirs', () => handleResolve(conflict, 'theirs'), isResolving)}
+                  {conflict.field === 'notes' &&
+                    actionButton('Merge notes', () => handleResolve(conflict, 'merge'), isResolving)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,139 @@ import {
   CloudArrowUp, 
   CheckCircle,
   Warning,
+  WarningOctagon,
   ArrowsClockwise 
 } from '@phosphor-icons/react';
 import { useStore } from '../store';
 import { getPendingSyncItems } from '../db';
+import type { DeadLetterItem } from '../db';
 
-type SyncState = 'synced' | 'syncing' | 'offline' | 'pending' | 'error';
+type SyncState = 'synced' | 'syncing' | 'offline' | 'pending' | 'error' | 'failed';
+
+interface FailedChangeRowProps {
+  item: DeadLetterItem;
+  recordName: string;
+  isDarkMode: boolean;
+  onRetry: (payload?: Record<string, unknown>) => void;
+  onDiscard: () => void;
+}
+
+// One dead-lettered queue item with inspect/edit/retry/discard controls
+function FailedChangeRow({ item, recordName, isDarkMode, onRetry, onDiscard }: FailedChangeRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  
+  const colors = {
+    border: isDarkMode ? '#3a3a3a' : '#e5e5e5',
+    text: isDarkMode ? '#ffffff' : '#202020',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
+    inputBg: isDarkMode ? '#333333' : '#f5f5f5',
+  };
+  
+  const startEditing = () => {
+    setDraft(JSON.stringify(item.payload, null, 2));
+    setParseError(null);
+    setIsEditing(true);
+  };
+  
+  const handleRetry = () => {
+    if (!isEditing) {
+      onRetry();
+      return;
+    }
+    try {
+      const payload = JSON.parse(draft);
+      if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+        setParseError('Payload must be a JSON object');
+        return;
+      }
+      onRetry(payload);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+  
+  const buttonStyle = {
+    padding: '4px 10px',
+    borderRadius: 6,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 11,
+    fontWeight: 500,
+    cursor: 'pointer',
+  };
+  
+  return (
+    <div style={{ padding: '10px 0', borderTop: `1px solid ${colors.border}` }}>
+      <div style={{ fontSize: 12, fontWeight: 500, color: colors.text }}>
+        {item.type} {item.table.replace(/s$/, '')} · {recordName}
+      </div>
+      <div style={{ fontSize: 11, color: '#dc2626', marginTop: 2, wordBreak: 'break-word' }}>
+        {item.lastError || 'Unknown error'}
+      </div>
+      <div style={{ fontSize: 10, color: colors.textSecondary, marginTop: 2 }}>
+        {item.attempts} attempts · failed {new Date(item.failedAt).toLocaleString()}
+      </div>
+      
+      {isEditing ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={6}
+          spellCheck={false}
+          style={{
+            width: '100%',
+            marginTop: 8,
+            padding: 8,
+            borderRadius: 6,
+            border: `1px solid ${parseError ? '#dc2626' : colors.border}`,
+            backgroundColor: colors.inputBg,
+            color: colors.text,
+            fontFamily: 'monospace',
+            fontSize: 11,
+            resize: 'vertical',
+            boxSizing: 'border-box',
+          }}
+        />
+      ) : (
+        <pre style={{
+          margin: '8px 0 0',
+          padding: 8,
+          borderRadius: 6,
+          backgroundColor: colors.inputBg,
+          color: colors.textSecondary,
+          fontSize: 11,
+          maxHeight: 100,
+          overflow: 'auto',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+        }}>
+          {JSON.stringify(item.payload, null, 2)}
+        </pre>
+      )}
+      {parseError && (
+        <div style={{ fontSize: 11, color: '#dc2626', marginTop: 4 }}>{parseError}</div>
+      )}
+      
+      <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+        <button
+          onClick={handleRetry}
+          style={{ ...buttonStyle, border: 'none', backgroundColor: '#d1453b', color: '#ffffff' }}
+        >
+          Retry
+        </button>
+        {isEditing ? (
+          <button onClick={() => setIsEditing(false)} style={buttonStyle}>Cancel edit</button>
+        ) : (
+          <button onClick={startEditing} style={buttonStyle}>Edit payload</button>
+        )}
+        <button onClick={onDiscard} style={{ ...buttonStyle, color: '#dc2626' }}>Discard</button>
+      </div>
+    </div>
+  );
+}
 
 export function SyncStatusIndicator() {
   const { 
@@ -18,6 +145,14 @@ export function SyncStatusIndicator() {
     isSyncing, 
     lastSyncTime, 
     syncError,
+    requestQueue,
+    deadLetters,
+    tasks,
+    projects,
+    sections,
+    tags,
+    retryDeadLetter,
+    discardDeadLetter,
     isDarkMode,
     syncPendingChanges,
     setOnlineStatus,
@@ -26,17 +161,20 @@ export function SyncStatusIndicator() {
   
   const [isHovered, setIsHovered] = useState(false);
   const [pendingCount, setPendingCount] = useState(0);
+  const [showFailed, setShowFailed] = useState(false);
   
   // Determine current sync state
   const getSyncState = (): SyncState => {
     if (!isOnline) return 'offline';
     if (syncError) return 'error';
     if (isSyncing) return 'syncing';
+    if (deadLetters.length > 0) return 'failed';
     if (pendingCount > 0) return 'pending';
     return 'synced';
   };
   
   const syncState = getSyncState();
+  const queuedRequests = requestQueue.queued + requestQueue.inFlight;
   
   // Listen for online/offline events
   useEffect(() => {
@@ -109,8 +247,10 @@ export function SyncStatusIndicator() {
       icon: ArrowsClockwise,
       color: '#2563eb',
       bgColor: isDarkMode ? 'rgba(37, 99, 235, 0.15)' : '#dbeafe',
-      label: 'Syncing...',
-      description: 'Updating your data',
+      label: queuedRequests > 0 ? `Syncing (${queuedRequests})...` : 'Syncing...',
+      description: queuedRequests > 0
+        ? `Updating your data - ${queuedRequests} request${queuedRequests !== 1 ? 's' : ''} queued`
+        : 'Updating your data',
     },
     offline: {
       icon: CloudSlash,
@@ -133,6 +273,27 @@ export function SyncStatusIndicator() {
       label: 'Sync error',
       description: syncError || 'Failed to sync',
     },
+    failed: {
+      icon: WarningOctagon,
+      color: '#dc2626',
+      bgColor: isDarkMode ? 'rgba(220, 38, 38, 0.15)' : '#fee2e2',
+      label: `${deadLetters.length} failed`,
+      description: 'Some changes could not be synced after several attempts',
+    },
+  };
+  
+  // Name of the record a failed change targets
+  const getRecordName = (item: DeadLetterItem): string => {
+    const id = item.localId || item.recordId;
+    const record = item.table === 'tasks'
+      ? tasks.find(t => t.id === id)
+      : item.table === 'projects'
+        ? projects.find(p => p.id === id)
+        : item.table === 'tags'
+          ? tags.find(t => t.id === id)
+          : sections.find(s => s.id === id);
+    const payloadName = typeof item.payload.name === 'string' ? item.payload.name : null;
+    return record?.name || payloadName || item.recordId;
   };
   
   const config = stateConfig[syncState];
@@ -175,7 +336,7 @@ export function SyncStatusIndicator() {
       </button>
       
       {/* Tooltip on hover */}
-      {isHovered && (
+      {isHovered && !showFailed && (
         <div
           style={{
             position: 'absolute',
@@ -207,6 +368,7 @@ export function SyncStatusIndicator() {
                syncState === 'syncing' ? 'Syncing Data' :
                syncState === 'pending' ? 'Pending Changes' :
                syncState === 'error' ? 'Sync Error' :
+               syncState === 'failed' ? 'Failed Changes' :
                'All Synced'}
             </span>
           </div>
@@ -220,6 +382,18 @@ export function SyncStatusIndicator() {
             {config.description}
           </p>
           
+          {/* Airtable rate limit pause */}
+          {requestQueue.rateLimitedUntil && (
+            <p style={{ 
+              fontSize: 12, 
+              color: '#d97706',
+              margin: '8px 0 0',
+              lineHeight: 1.4,
+            }}>
+              Rate limited by Airtable - resuming at {new Date(requestQueue.rateLimitedUntil).toLocaleTimeString()}
+            </p>
+          )}
+          
           {/* Show sync button if pending and online */}
           {syncState === 'pending' && isOnline && (
             <button
@@ -262,6 +436,27 @@ export function SyncStatusIndicator() {
             </button>
           )}
           
+          {/* Review failed changes */}
+          {deadLetters.length > 0 && (
+            <button
+              onClick={() => setShowFailed(true)}
+              style={{
+                marginTop: 12,
+                width: '100%',
+                padding: '8px 12px',
+                borderRadius: 6,
+                border: '1px solid #dc2626',
+                backgroundColor: 'transparent',
+                color: '#dc2626',
+                fontSize: 12,
+                fontWeight: 500,
+                cursor: 'pointer',
+              }}
+            >
+              Review {deadLetters.length} failed change{deadLetters.length !== 1 ? 's' : ''}
+            </button>
+          )}
+          
           {/* Last sync info */}
           {lastSyncTime && syncState !== 'syncing' && (
             <div style={{
@@ -284,6 +479,71 @@ export function SyncStatusIndicator() {
         </div>
       )}
       
+      {/* Failed changes (dead-letter queue) */}
+      {showFailed && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: 8,
+            padding: '12px 16px',
+            width: 360,
+            maxHeight: 480,
+            overflowY: 'auto',
+            backgroundColor: isDarkMode ? '#2a2a2a' : '#ffffff',
+            border: `1px solid ${isDarkMode ? '#3a3a3a' : '#e5e5e5'}`,
+            borderRadius: 8,
+            boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+            zIndex: 1000,
+          }}
+        >
+          <div style={{ 
+            display: 'flex', 
+            alignItems: 'center', 
+            justifyContent: 'space-between',
+            marginBottom: 8,
+          }}>
+            <span style={{ 
+              fontWeight: 600, 
+              color: isDarkMode ? '#ffffff' : '#202020',
+              fontSize: 14,
+            }}>
+              Failed Changes
+            </span>
+            <button
+              onClick={() => setShowFailed(false)}
+              style={{
+                border: 'none',
+                backgroundColor: 'transparent',
+                color: isDarkMode ? '#a0a0a0' : '#808080',
+                fontSize: 12,
+                cursor: 'pointer',
+              }}
+            >
+              Close
+            </button>
+          </div>
+          
+          {deadLetters.length === 0 ? (
+            <p style={{ fontSize: 12, color: isDarkMode ? '#a0a0a0' : '#808080', margin: 0 }}>
+              No failed changes
+            </p>
+          ) : (
+            deadLetters.map(item => (
+              <FailedChangeRow
+                key={item.id}
+                item={item}
+                recordName={getRecordName(item)}
+                isDarkMode={isDarkMode}
+                onRetry={(payload) => retryDeadLetter(item.id!, payload)}
+                onDiscard={() => discardDeadLetter(item.id!)}
+              />
+            ))
+          )}
+        </div>
+      )}
+      
       {/* CSS for spin animation */}
       <style>{`
         @keyframes spin {
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { ArrowsMerge, Check, PencilSimple, Plus, Tag as TagIcon, Trash, X } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { TAG_COLORS } from '../utils/constants';
+import type { Tag } from '../types';
+
+const DEFAULT_TAG_COLOR = '#6b7280';
+
+/**
+ * Every tag with its usage, where tags are created, renamed, given a type,
+ * deleted, or merged into one another.
+ */
+export function TagsView() {
+  const {
+    tags,
+    tasks,
+    createTag,
+    updateTag,
+    deleteTag,
+    mergeTags,
+    setSelectedTag,
+    showConfirm,
+    isDarkMode,
+  } = useStore();
+  const { isDone } = useTaskOptions();
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', type: '', description: '' });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+
+  const colors = {
+    cardBg: isDarkMode ? '#282828' : '#f9fafb',
+    cardBorder: isDarkMode ? '#3a3a3a' : '#e5e7eb',
+    text: isDarkMode ? '#ffffff' : '#111827',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#6b7280',
+    textMuted: isDarkMode ? '#606060' : '#9ca3af',
+    inputBg: isDarkMode ? '#333333' : '#ffffff',
+    primary: '#d1453b',
+  };
+
+  const sortedTags = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+  // Built-in types plus any already used in the base
+  const typeOptions = [...new Set([...Object.keys(TAG_COLORS), ...tags.map(t => t.type).filter((t): t is string => !!t)])];
+  const selectedTags = sortedTags.filter(t => selectedIds.includes(t.id));
+  const mergeTarget = selectedTags.find(t => t.id === mergeTargetId) ?? selectedTags[0];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const tag = await createTag({ name: newName.trim(), type: newType || null });
+    if (tag) {
+      setNewName('');
+      setNewType('');
+    }
+  };
+
+  const startEdit = (tag: Tag) => {
+    setEditingId(tag.id);
+    setDraft({ name: tag.name, type: tag.type || '', description: tag.description });
+  };
+
+  const handleSave = (tag: Tag) => {
+    setEditingId(null);
+    const name = draft.name.trim() || tag.name;
+    const updates: Partial<Tag> = {};
+    if (name !== tag.name) updates.name = name;
+    if ((draft.type || null) !== tag.type) updates.type = draft.type || null;
+    if (draft.description !== tag.description) updates.description = draft.description;
+    if (Object.keys(updates).length > 0) updateTag(tag.id, updates);
+  };
+
+  const handleDelete = (tag: Tag, usage: number) => {
+    showConfirm({
+      title: 'Delete tag',
+      message: usage > 0
+        ? `Delete "${tag.name}"? It will be removed from ${usage} ${usage === 1 ? 'task' : 'tasks'}.`
+        : `Delete "${tag.name}"?`,
+      type: 'delete',
+      onConfirm: () => {
+        setSelectedIds(ids => ids.filter(id => id !== tag.id));
+        deleteTag(tag.id);
+      },
+    });
+  };
+
+  const toggleSelected = (tagId: string) => {
+    setSelectedIds(ids => (ids.includes(tagId) ? ids.filter(id => id !== tagId) : [...ids, tagId]));
+  };
+
+  const handleMerge = () => {
+    if (!mergeTarget) return;
+    const sources = selectedTags.filter(t => t.id !== mergeTarget.id);
+    showConfirm({
+      title: 'Merge tags',
+      message: `Merge ${sources.map(t => `"${t.name}"`).join(', ')} into "${mergeTarget.name}"? Their tasks get "${mergeTarget.name}" instead and the merged tags are deleted.`,
+      type: 'warning',
+      confirmLabel: 'Merge',
+      onConfirm: async () => {
+        await mergeTags(sources.map(t => t.id), mergeTarget.id);
+        setSelectedIds([]);
+        setMergeTargetId(null);
+      },
+    });
+  };
+
+  const inputStyle = {
+    padding: '6px 10px',
+    fontSize: 13,
+    border: `1px solid ${colors.cardBorder}`,
+    borderRadius: 8,
+    backgroundColor: colors.inputBg,
+    color: colors.text,
+    outline: 'none',
+  };
+
+  const buttonStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '4px 10px',
+    borderRadius: 8,
+    border: `1px solid ${colors.cardBorder}`,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: 500,
+    cursor: 'pointer',
+  };
+
+  const renderTypeSelect = (value: string, onChange: (type: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={inputStyle}>
+      <option value="">No type</option>
+      {typeOptions.map(type => (
+        <option key={type} value={type}>{type}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div style={{ maxWidth: 720, padding: '24px 32px' }}>
+      {/* New tag */}
+      <form onSubmit={handleCreate} style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New tag name"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        {renderTypeSelect(newType, setNewType)}
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          style={{
+            ...buttonStyle,
+            border: 'none',
+            backgroundColor: colors.primary,
+            color: '#ffffff',
+            cursor: newName.trim() ? 'pointer' : 'not-allowed',
+            opacity: newName.trim() ? 1 : 0.5,
+          }}
+        >
+          <Plus size={14} />
+          Add tag
+        </button>
+      </form>
+
+      {/* Merge bar */}
+      {selectedTags.length >= 2 && mergeTarget && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          padding: '8px 12px',
+          marginBottom: 12,
+          borderRadius: 8,
+          border: `1px solid ${colors.cardBorder}`,
+          backgroundColor: colors.cardBg,
+          fontSize: 13,
+          color: colors.text,
+        }}>
+          <ArrowsMerge size={16} style={{ color: colors.textSecondary }} />
+          <span>Merge {selectedTags.length} tags into</span>
+          <select
+            value={mergeTarget.id}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            style={inputStyle}
+          >
+            {selectedTags.map(tag => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+          <div style={{ flex: 1 }} />
+          <button onClick={() => setSelectedIds([])} style={buttonStyle}>
+            Cancel
+          </button>
+          <button onClick={handleMerge} style={{ ...buttonStyle, border: 'none', backgroundColor: colors.primary, color: '#ffffff' }}>
+            Merge
+          </button>
+        </div>
+      )}
+
+      {sortedTags.length === 0 && (
+        <div style={{ padding: '48px 0', textAlign: 'center', fontSize: 14, color: colors.textSecondary }}>
+          No tags yet
+        </div>
+      )}
+
+      {sortedTags.map(tag => {
+        const tagTasks = tasks.filter(t => t.tagIds.includes(tag.id));
+        const openCount = tagTasks.filter(t => !isDone(t.status)).length;
+        const tagColor = (tag.type && TAG_COLORS[tag.type]) || DEFAULT_TAG_COLOR;
+        const isEditing = editingId === tag.id;
+
+        return (
+          <div
+            key={tag.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 12,
+              padding: '10px 12px',
+              marginBottom: 8,
+              borderRadius: 8,
+              border: `1px solid ${colors.cardBorder}`,
+              backgroundColor: colors.cardBg,
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(tag.id)}
+              onChange={() => toggleSelected(tag.id)}
+              title="Select to merge"
+              style={{ cursor: 'pointer' }}
+            />
+            <TagIcon size={16} weight="fill" style={{ color: tagColor, flexShrink: 0 }} />
+
+            {isEditing ? (
+              <div
+                style={{ flex: 1, display: 'flex', flexWrap: 'wrap', gap: 8 }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSave(tag);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+              >
+                <input
+                  autoFocus
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Name"
+                  style={{ ...inputStyle, flex: 1, minWidth: 120 }}
+                />
+                {renderTypeSelect(draft.type, type => setDraft({ ...draft, type }))}
+                <input
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Description"
+                  style={{ ...inputStyle, width: '100%' }}
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => setSelectedTag(tag.id)}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  padding: 0,
+                  border: 'none',
+                  backgroundColor: 'transparent',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <span style={{ fontSize: 14, color: colors.text, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {tag.name}
+                  </span>
+                  {tag.type && (
+                    <span style={{
+                      fontSize: 11,
+                      padding: '1px 8px',
+                      borderRadius: 10,
+                      backgroundColor: `${tagColor}20`,
+                      color: tagColor,
+                    }}>
+                      {tag.type}
+                    </span>
+                  )}
+                </div>
+                <div style={{ marginTop: 2, fontSize: 11, color: colors.textMuted }}>
+                  {tagTasks.length} {tagTasks.length === 1 ? 'task' : 'tasks'}
+                  {openCount > 0 && ` · ${openCount} open`}
+                  {tag.description && ` · ${tag.description}`}
+                </div>
+              </button>
+            )}
+
+            {isEditing ? (
+              <>
+                <button onClick={() => handleSave(tag)} style={buttonStyle}>
+                  <Check size={14} />
+                  Save
+                </button>
+                <button onClick={() => setEditingId(null)} style={buttonStyle} title="Cancel">
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => startEdit(tag)} style={buttonStyle}>
+                  <PencilSimple size={14} />
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(tag, tagTasks.length)} style={{ ...buttonStyle, color: '#ef4444' }}>
+                  <Trash size={14} />
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -12,10 +12,13 @@ import {
   TreeStructure,
   Play,
   Plus,
+  Repeat,
 } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
 import { getDueDateInfo, formatDateForInput, parseLocalDate } from '../utils/dates';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR, isHighPriority as checkHighPriority, getPriorityConfig } from '../utils/constants';
+import { getRenderedTaskIds, getTaskIdRange } from '../utils/taskNavigation';
 import type { Task } from '../types';
 
 interface TaskItemProps {
@@ -37,7 +40,15 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
     createTask,
     showCompleted,
     isDarkMode,
+    focusedTaskId,
+    setFocusedTask,
+    selectedTaskIds,
+    selectionAnchorId,
+    setTaskSelection,
+    subtaskSettings,
   } = useStore();
+  const { isDone, getStatusCategory, isHighPriority, getPriorityConfig, defaultStatus, reopenStatus } = useTaskOptions();
+  const getProjectColor = useProjectColors();
   
   const [isHovered, setIsHovered] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -47,6 +58,9 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
   const [showMoreMenu, setShowMoreMenu] = useState(false);
   const datePickerRef = useRef<HTMLDivElement>(null);
   const moreMenuRef = useRef<HTMLDivElement>(null);
+  const rowRef = useRef<HTMLDivElement>(null);
+  const isFocused = focusedTaskId === task.id;
+  const isSelected = selectedTaskIds.includes(task.id);
   
   // Colors based on dark mode
   const colors = {
@@ -57,6 +71,7 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
     textSecondary: isDarkMode ? '#a0a0a0' : '#808080',
     textMuted: isDarkMode ? '#606060' : '#b0b0b0',
     primary: '#d1453b',
+    selected: isDarkMode ? 'rgba(209, 69, 59, 0.15)' : '#fef2f2',
     checkboxBorder: isDarkMode ? '#505050' : '#d0d0d0',
     menuBg: isDarkMode ? '#333333' : '#ffffff',
   };
@@ -76,16 +91,21 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
   
+  // Keep the keyboard-focused row on screen
+  useEffect(() => {
+    if (isFocused) rowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isFocused]);
+  
   // Get subtasks
   const subtasks = tasks.filter(t => t.parentTaskId === task.id);
   const visibleSubtasks = showCompleted 
     ? subtasks 
-    : subtasks.filter(t => t.status !== '✅ Done');
+    : subtasks.filter(t => !isDone(t.status));
   const hasSubtasks = subtasks.length > 0;
   
   // Get project
   const project = projects.find(p => p.id === task.projectId);
-  const projectColor = task.projectId ? PROJECT_COLORS[task.projectId] || DEFAULT_PROJECT_COLOR : null;
+  const projectColor = task.projectId ? getProjectColor(task.projectId) : null;
   
   // Get tags
   const taskTags = tags.filter(t => task.tagIds.includes(t.id));
@@ -117,17 +137,38 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
   };
   const startDateInfo = getStartDateInfo();
   
-  const isCompleted = task.status === '✅ Done';
-  // Check for high priority (4 highest or 3 urgent)
-  const isTopPriority = checkHighPriority(task.priority);
+  const isCompleted = isDone(task.status);
+  // Check for high priority (the base's top two levels)
+  const isTopPriority = isHighPriority(task.priority);
   const priorityConfig = getPriorityConfig(task.priority);
   
+  // Shift-click selects a range from the anchor, Ctrl/Cmd-click toggles one task.
+  // Handled in the capture phase so the row's own click handlers don't also run.
+  const handleSelectClick = (e: React.MouseEvent) => {
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (e.shiftKey) {
+      const anchorId = selectionAnchorId ?? focusedTaskId ?? task.id;
+      const range = getTaskIdRange(getRenderedTaskIds(), anchorId, task.id);
+      const base = e.ctrlKey || e.metaKey ? selectedTaskIds.filter(id => !range.includes(id)) : [];
+      setTaskSelection([...base, ...range], anchorId);
+    } else {
+      setTaskSelection(
+        isSelected ? selectedTaskIds.filter(id => id !== task.id) : [...selectedTaskIds, task.id],
+        task.id
+      );
+    }
+    setFocusedTask(task.id);
+  };
+  
   const handleComplete = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!isCompleted) {
       await completeTask(task.id);
     } else {
-      await updateTask(task.id, { status: '📋 To Do', completedDate: null });
+      await updateTask(task.id, { status: reopenStatus, completedDate: null });
     }
   };
   
@@ -163,10 +204,11 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
   const { showConfirm } = useStore();
   
   const handleDelete = () => {
+    const keepSubtasks = subtaskSettings.deleteSubtasks === 'promote';
     setShowMoreMenu(false);
     showConfirm({
       title: 'Delete Task',
-      message: `Are you sure you want to delete "${task.name}"? This action cannot be undone.`,
+      message: `Move "${task.name}"${hasSubtasks && !keepSubtasks ? ' and its subtasks' : ''} to the trash?${hasSubtasks && keepSubtasks ? ' Its subtasks will be kept.' : ''} You can restore it from Trash.`,
       type: 'delete',
       onConfirm: () => deleteTask(task.id),
     });
@@ -176,7 +218,7 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
     setShowMoreMenu(false);
     await createTask({
       name: task.name + ' (copy)',
-      status: task.status || '📥 Inbox',
+      status: task.status || defaultStatus,
       priority: task.priority,
       projectId: task.projectId,
       tagIds: task.tagIds,
@@ -201,19 +243,28 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
   return (
     <>
       <div
+        ref={rowRef}
+        data-task-id={task.id}
         style={{
           position: 'relative',
           display: 'flex',
           alignItems: 'flex-start',
           gap: 12,
           padding: `10px 32px 10px ${16 + level * 28}px`,
-          backgroundColor: isHovered ? colors.bgHover : colors.bg,
+          backgroundColor: isSelected ? colors.selected : isHovered || isFocused ? colors.bgHover : colors.bg,
+          boxShadow: isFocused ? `inset 0 0 0 1px ${colors.primary}` : 'none',
           opacity: isCompleted ? 0.6 : 1,
           cursor: 'pointer',
           borderBottom: `1px solid ${isDarkMode ? '#2a2a2a' : '#f5f5f5'}`,
         }}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
+        onMouseDown={(e) => {
+          // Shift-click would otherwise select the row's text
+          if (e.shiftKey) e.preventDefault();
+          else setFocusedTask(task.id);
+        }}
+        onClickCapture={handleSelectClick}
       >
         {/* Priority indicator */}
         {priorityConfig && !isCompleted && (
@@ -252,7 +303,7 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
               fontSize: 11,
               fontWeight: 500,
             }}
-            title={`${subtasks.length} subtask${subtasks.length > 1 ? 's' : ''} (${subtasks.filter(s => s.status === '✅ Done').length} done)`}
+            title={`${subtasks.length} subtask${subtasks.length > 1 ? 's' : ''} (${subtasks.filter(s => isDone(s.status)).length} done)`}
           >
             {isExpanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
             <span>{subtasks.length}</span>
@@ -398,6 +449,16 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
               </span>
             )}
             
+            {/* Recurrence indicator */}
+            {task.recurrence && (
+              <span
+                title={task.recurrence}
+                style={{ display: 'inline-flex', alignItems: 'center', color: colors.textSecondary }}
+              >
+                <Repeat size={12} />
+              </span>
+            )}
+            
             {/* Calendar Sync Badge - show if sync is enabled or has a sync status */}
             {(task.syncToCalendar || task.calendarSyncStatus) && (
               <span
@@ -462,7 +523,7 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
             )}
             
             {/* Status badge */}
-            {task.status && !['📥 Inbox', '📋 To Do', '✅ Done'].includes(task.status) && (
+            {task.status && !['todo', 'done'].includes(getStatusCategory(task.status)) && (
               <span style={{
                 display: 'inline-flex',
                 alignItems: 'center',
@@ -479,7 +540,7 @@ export function TaskItem({ task, level = 0, showProject = true, onEditTask, onAd
             {/* Subtask count */}
             {hasSubtasks && (
               <span style={{ fontSize: 11, color: colors.textSecondary }}>
-                {subtasks.filter(s => s.status === '✅ Done').length}/{subtasks.length} subtasks
+                {subtasks.filter(s => isDone(s.status)).length}/{subtasks.length} subtasks
               </span>
             )}
           </div>
@@ -11,17 +11,20 @@ import {
 import type { DragEndEvent } from '@dnd-kit/core';
 import {
   SortableContext,
+  arrayMove,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CaretDown, CaretRight, Circle, Folder } from '@phosphor-icons/react';
 import { useStore } from '../store';
+import { useTaskOptions } from '../hooks/useTaskOptions';
+import { useProjectColors } from '../hooks/useProjectColors';
 import { TaskItem } from './TaskItem';
 import { DraggableTaskItem } from './DraggableTaskItem';
+import { SectionHeader, SECTION_SORT_PREFIX } from './SectionHeader';
 import { EmptyState } from './EmptyState';
 import type { EmptyStateType } from './EmptyState';
 import { parseLocalDate } from '../utils/dates';
-import { PROJECT_COLORS, DEFAULT_PROJECT_COLOR } from '../utils/constants';
 import type { Task } from '../types';
 
 interface TaskListProps {
@@ -48,7 +51,9 @@ export function TaskList({
   enableDragDrop = true,
   projectId,
 }: TaskListProps) {
-  const { showCompleted, projects, sections, isDarkMode, updateTask } = useStore();
+  const { showCompleted, projects, sections, isDarkMode, updateTask, updateSections } = useStore();
+  const { isDone } = useTaskOptions();
+  const getProjectColor = useProjectColors();
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   
   // Drag and drop sensors
@@ -81,8 +86,8 @@ export function TaskList({
   // Filter completed if needed
   const visibleTasks = useMemo(() => {
     if (showCompleted) return rootTasks;
-    return rootTasks.filter(t => t.status !== '✅ Done');
-  }, [rootTasks, showCompleted]);
+    return rootTasks.filter(t => !isDone(t.status));
+  }, [rootTasks, showCompleted, isDone]);
   
   // Group tasks
   const groupedTasks = useMemo(() => {
@@ -163,7 +168,7 @@ export function TaskList({
       
       return sortedKeys.map(projectId => {
         const project = projects.find(p => p.id === projectId);
-        const projectColor = PROJECT_COLORS[projectId] || DEFAULT_PROJECT_COLOR;
+        const projectColor = getProjectColor(projectId);
         return {
           key: projectId,
           title: project?.name || 'No Project',
@@ -216,7 +221,7 @@ export function TaskList({
     }
     
     return [{ key: 'all', title: null, tasks: visibleTasks, color: null, icon: null }];
-  }, [visibleTasks, groupBy, projects, sections, projectId]);
+  }, [visibleTasks, groupBy, projects, sections, projectId, getProjectColor]);
   
   const toggleGroup = (key: string) => {
     setCollapsedGroups(prev => {
@@ -230,19 +235,53 @@ export function TaskList({
     });
   };
   
+  const projectSections = useMemo(
+    () => sections.filter(s => s.projectId === projectId).sort((a, b) => a.order - b.order),
+    [sections, projectId]
+  );
+  
+  // Reorder a dragged section header; dropping on a task or drop zone
+  // counts as dropping on that task's section
+  const handleSectionDragEnd = async (sectionId: string, overId: string) => {
+    let targetId: string | null | undefined;
+    if (overId.startsWith(SECTION_SORT_PREFIX)) {
+      targetId = overId.slice(SECTION_SORT_PREFIX.length);
+    } else if (overId.startsWith('section-drop-')) {
+      targetId = overId.replace('section-drop-', '');
+    } else {
+      targetId = visibleTasks.find(t => t.id === overId)?.sectionId;
+    }
+    
+    const oldIndex = projectSections.findIndex(s => s.id === sectionId);
+    const newIndex = projectSections.findIndex(s => s.id === targetId);
+    if (oldIndex === -1 || newIndex === -1 || oldIndex === newIndex) return;
+    
+    const changes = arrayMove(projectSections, oldIndex, newIndex)
+      .map((section, index) => ({ section, order: index + 1 }))
+      .filter(({ section, order }) => section.order !== order)
+      .map(({ section, order }) => ({ id: section.id, updates: { order } }));
+    await updateSections(changes, { message: 'Sections reordered', historyLabel: 'Reorder sections' });
+  };
+  
   // Handle drag end
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
     
     if (!over) return;
     
+    const activeId = active.id as string;
+    if (activeId.startsWith(SECTION_SORT_PREFIX)) {
+      await handleSectionDragEnd(activeId.slice(SECTION_SORT_PREFIX.length), over.id as string);
+      return;
+    }
+    
     const activeTask = visibleTasks.find(t => t.id === active.id);
     if (!activeTask) return;
     
-    // Check if dropped on a section header (droppable zone)
+    // Check if dropped on a section header or its droppable zone
     const overId = over.id as string;
-    if (overId.startsWith('section-drop-')) {
-      const targetSectionId = overId.replace('section-drop-', '');
+    if (overId.startsWith('section-drop-') || overId.startsWith(SECTION_SORT_PREFIX)) {
+      const targetSectionId = overId.replace('section-drop-', '').replace(SECTION_SORT_PREFIX, '');
       const newSectionId = targetSectionId === 'no-section' ? null : targetSectionId;
       
       if (activeTask.sectionId !== newSectionId) {
@@ -313,112 +352,130 @@ export function TaskList({
     );
   };
   
-  const content = (
-    <div>
-      {groupedTasks.map((group) => {
-        const isCollapsed = collapsedGroups.has(group.key);
-        const showProjectBadge = showProject && groupBy !== 'project';
-        
-        return (
-          <div key={group.key}>
-            {group.title && (
-              <button
-                onClick={() => toggleGroup(group.key)}
-                style={{
-                  width: '100%',
-                  position: 'sticky',
-                  top: 0,
-                  zIndex: 10,
-                  backgroundColor: colors.groupBg,
-                  padding: '10px 32px',
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: 8,
-                  border: 'none',
-                  borderBottom: `1px solid ${colors.border}`,
-                  cursor: 'pointer',
-                  textAlign: 'left',
-                }}
-              >
-                {isCollapsed ? (
-                  <CaretRight size={14} style={{ color: colors.textSecondary }} />
-                ) : (
-                  <CaretDown size={14} style={{ color: colors.textSecondary }} />
-                )}
-                {group.icon}
-                {group.color && !group.icon && (
-                  <Circle size={10} weight="fill" style={{ color: group.color }} />
-                )}
-                <span style={{
-                  fontSize: 13,
-                  fontWeight: 600,
-                  color: group.color || colors.text,
-                  flex: 1,
-                }}>
-                  {group.title}
-                </span>
-                <span style={{
-                  fontSize: 12,
-                  padding: '2px 8px',
-                  borderRadius: 12,
-                  backgroundColor: isDarkMode ? '#3a3a3a' : '#e5e5e5',
-                  color: colors.textSecondary,
-                }}>
-                  {group.tasks.length}
-                </span>
-              </button>
+  const groups = groupedTasks.map((group) => {
+    const isCollapsed = collapsedGroups.has(group.key);
+    const showProjectBadge = showProject && groupBy !== 'project';
+    const section = groupBy === 'section' ? projectSections.find(s => s.id === group.key) : undefined;
+    
+    return (
+      <div key={group.key}>
+        {section ? (
+          <SectionHeader
+            section={section}
+            taskCount={group.tasks.length}
+            isCollapsed={isCollapsed}
+            onToggle={() => toggleGroup(group.key)}
+            enableDragDrop={enableDragDrop}
+          />
+        ) : group.title && (
+          <button
+            onClick={() => toggleGroup(group.key)}
+            style={{
+              width: '100%',
+              position: 'sticky',
+              top: 0,
+              zIndex: 10,
+              backgroundColor: colors.groupBg,
+              padding: '10px 32px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+              border: 'none',
+              borderBottom: `1px solid ${colors.border}`,
+              cursor: 'pointer',
+              textAlign: 'left',
+            }}
+          >
+            {isCollapsed ? (
+              <CaretRight size={14} style={{ color: colors.textSecondary }} />
+            ) : (
+              <CaretDown size={14} style={{ color: colors.textSecondary }} />
             )}
-            {!isCollapsed && (
-              enableDragDrop ? (
-                groupBy === 'section' ? (
-                  <DroppableSectionZone sectionId={group.key} isDarkMode={isDarkMode}>
-                    <SortableContext
-                      items={group.tasks.map(t => t.id)}
-                      strategy={verticalListSortingStrategy}
-                    >
-                      {group.tasks.length > 0 ? (
-                        group.tasks.map((task) => renderTaskItem(task, showProjectBadge))
-                      ) : group.title ? (
-                        <div style={{
-                          padding: '16px 32px',
-                          color: colors.textMuted,
-                          fontSize: 13,
-                          fontStyle: 'italic',
-                          borderBottom: `1px solid ${isDarkMode ? '#2a2a2a' : '#f5f5f5'}`,
-                          minHeight: 48,
-                        }}>
-                          Drop tasks here
-                        </div>
-                      ) : null}
-                    </SortableContext>
-                  </DroppableSectionZone>
-                ) : (
-                  <SortableContext
-                    items={group.tasks.map(t => t.id)}
-                    strategy={verticalListSortingStrategy}
-                  >
-                    {group.tasks.map((task) => renderTaskItem(task, showProjectBadge))}
-                  </SortableContext>
-                )
-              ) : (
-                group.tasks.length > 0 ? (
-                  group.tasks.map((task) => renderTaskItem(task, showProjectBadge))
-                ) : groupBy === 'section' && group.title ? (
-                  <div style={{
-                    padding: '16px 32px',
-                    color: colors.textMuted,
-                    fontSize: 13,
-                    fontStyle: 'italic',
-                    borderBottom: `1px solid ${isDarkMode ? '#2a2a2a' : '#f5f5f5'}`,
-                  }}>
-                    No tasks in this section
-                  </div>
-                ) : null
-              )
+            {group.icon}
+            {group.color && !group.icon && (
+              <Circle size={10} weight="fill" style={{ color: group.color }} />
             )}
-          </div>
-        );
-      })}
+            <span style={{
+              fontSize: 13,
+              fontWeight: 600,
+              color: group.color || colors.text,
+              flex: 1,
+            }}>
+              {group.title}
+            </span>
+            <span style={{
+              fontSize: 12,
+              padding: '2px 8px',
+              borderRadius: 12,
+              backgroundColor: isDarkMode ? '#3a3a3a' : '#e5e5e5',
+              color: colors.textSecondary,
+            }}>
+              {group.tasks.length}
+            </span>
+          </button>
+        )}
+        {!isCollapsed && (
+          enableDragDrop ? (
+            groupBy === 'section' ? (
+              <DroppableSectionZone sectionId={group.key} isDarkMode={isDarkMode}>
+                <SortableContext
+                  items={group.tasks.map(t => t.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  {group.tasks.length > 0 ? (
+                    group.tasks.map((task) => renderTaskItem(task, showProjectBadge))
+                  ) : group.title ? (
+                    <div style={{
+                      padding: '16px 32px',
+                      color: colors.textMuted,
+                      fontSize: 13,
+                      fontStyle: 'italic',
+                      borderBottom: `1px solid ${isDarkMode ? '#2a2a2a' : '#f5f5f5'}`,
+                      minHeight: 48,
+                    }}>
+                      Drop tasks here
+                    </div>
+                  ) : null}
+                </SortableContext>
+              </DroppableSectionZone>
+            ) : (
+              <SortableContext
+                items={group.tasks.map(t => t.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                {group.tasks.map((task) => renderTaskItem(task, showProjectBadge))}
+              </SortableContext>
+            )
+          ) : (
+            group.tasks.length > 0 ? (
+              group.tasks.map((task) => renderTaskItem(task, showProjectBadge))
+            ) : groupBy === 'section' && group.title ? (
+              <div style={{
+                padding: '16px 32px',
+                color: colors.textMuted,
+                fontSize: 13,
+                fontStyle: 'italic',
+                borderBottom: `1px solid ${isDarkMode ? '#2a2a2a' : '#f5f5f5'}`,
+              }}>
+                No tasks in this section
+              </div>
+            ) : null
+          )
+        )}
+      </div>
+    );
+  });
+  
+  const content = (
+    <div>
+      {enableDragDrop && groupBy === 'section' ? (
+        <SortableContext
+          items={projectSections.map(s => `${SECTION_SORT_PREFIX}${s.id}`)}
+          strategy={verticalListSortingStrategy}
+        >
+          {groups}
+        </SortableContext>
+      ) : groups}
     </div>
   );
   
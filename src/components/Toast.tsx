@@ -2,7 +2,7 @@ import { useStore } from '../store';
 import { CheckCircle, XCircle, Info, Warning, X } from '@phosphor-icons/react';
 
 export function Toast() {
-  const { toast, hideToast, isDarkMode } = useStore();
+  const { toast, hideToast, undo, isDarkMode } = useStore();
   
   if (!toast) return null;
   
@@ -61,6 +61,25 @@ export function Toast() {
           {toast.message}
         </span>
         
+        {toast.canUndo && (
+          <button
+            onClick={() => { hideToast(); undo(); }}
+            style={{
+              marginLeft: 4,
+              padding: '2px 8px',
+              border: 'none',
+              borderRadius: 4,
+              backgroundColor: 'transparent',
+              color: '#d1453b',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            Undo
+          </button>
+        )}
+        
         <button
           onClick={hideToast}
           style={{
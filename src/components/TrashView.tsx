@@ -0,0 +1,146 @@
+import { ArrowCounterClockwise, Trash } from '@phosphor-icons/react';
+import { useStore } from '../store';
+import { TRASH_RETENTION_OPTIONS } from '../utils/constants';
+import type { TrashItem } from '../db';
+
+/**
+ * Deleted tasks, one row per deleted task with its subtasks folded in.
+ * Restoring or permanently deleting a row acts on the whole subtree.
+ */
+export function TrashView() {
+  const {
+    trash,
+    projects,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    showConfirm,
+    isDarkMode,
+  } = useStore();
+
+  const colors = {
+    cardBg: isDarkMode ? '#282828' : '#f9fafb',
+    cardBorder: isDarkMode ? '#3a3a3a' : '#e5e7eb',
+    inputBg: isDarkMode ? '#1f1f1f' : '#ffffff',
+    text: isDarkMode ? '#ffffff' : '#111827',
+    textSecondary: isDarkMode ? '#a0a0a0' : '#6b7280',
+    textMuted: isDarkMode ? '#606060' : '#9ca3af',
+  };
+
+  // Top-level rows are the tasks the user deleted; the rest came along as subtasks
+  const roots = trash.filter(item => item.id === item.rootId);
+  const subtaskCount = (root: TrashItem) =>
+    trash.filter(item => item.rootId === root.id && item.id !== root.id).length;
+
+  const handleDelete = (root: TrashItem) => {
+    showConfirm({
+      title: 'Delete permanently',
+      message: `Permanently delete "${root.task.name}"? This can't be undone.`,
+      type: 'delete',
+      onConfirm: () => deleteFromTrash([root.id]),
+    });
+  };
+
+  const handleEmpty = () => {
+    showConfirm({
+      title: 'Empty trash',
+      message: `Permanently delete ${roots.length} ${roots.length === 1 ? 'task' : 'tasks'} in the trash? This can't be undone.`,
+      type: 'delete',
+      confirmLabel: 'Empty trash',
+      onConfirm: emptyTrash,
+    });
+  };
+
+  const buttonStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '4px 10px',
+    borderRadius: 8,
+    border: `1px solid ${colors.cardBorder}`,
+    backgroundColor: 'transparent',
+    color: colors.text,
+    fontSize: 12,
+    fontWeight: 500,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ maxWidth: 720, padding: '24px 32px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: colors.textSecondary }}>
+          Delete tasks in the trash after
+          <select
+            value={trashRetentionDays}
+            onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+            style={{
+              padding: '4px 8px',
+              borderRadius: 6,
+              border: `1px solid ${colors.cardBorder}`,
+              backgroundColor: colors.inputBg,
+              color: colors.text,
+              fontSize: 13,
+            }}
+          >
+            {TRASH_RETENTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {roots.length > 0 && (
+          <button onClick={handleEmpty} style={{ ...buttonStyle, color: '#ef4444' }}>
+            <Trash size={14} />
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {roots.length === 0 ? (
+        <div style={{ padding: '48px 0', textAlign: 'center', fontSize: 14, color: colors.textSecondary }}>
+          Trash is empty
+        </div>
+      ) : (
+        roots.map(root => {
+          const project = projects.find(p => p.id === root.task.projectId);
+          const subtasks = subtaskCount(root);
+          return (
+            <div
+              key={root.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 12,
+                padding: '10px 12px',
+                marginBottom: 8,
+                borderRadius: 8,
+                border: `1px solid ${colors.cardBorder}`,
+                backgroundColor: colors.cardBg,
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 14, color: colors.text, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {root.task.name}
+                </div>
+                <div style={{ marginTop: 2, fontSize: 11, color: colors.textMuted }}>
+                  {project ? `#${project.name} · ` : ''}
+                  Deleted {new Date(root.deletedAt).toLocaleString()}
+                  {subtasks > 0 && ` · ${subtasks} ${subtasks === 1 ? 'subtask' : 'subtasks'}`}
+                </div>
+              </div>
+              <button onClick={() => restoreFromTrash([root.id])} style={buttonStyle}>
+                <ArrowCounterClockwise size={14} />
+                Restore
+              </button>
+              <button onClick={() => handleDelete(root)} style={{ ...buttonStyle, color: '#ef4444' }}>
+                <Trash size={14} />
+                Delete
+              </button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
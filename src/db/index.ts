@@ -2,7 +2,8 @@
 // Enables offline-first functionality
 
 import Dexie, { type Table } from 'dexie';
-import type { Task, Project, Tag, Section, Filter } from '../types';
+import type { Task, Project, Tag, Section, Filter, AirtableSettings, TaskOptions } from '../types';
+import type { IndexedDoc } from '../utils/searchIndex';
 
 // Extend types with local sync metadata
 export interface LocalTask extends Task {
@@ -17,6 +18,11 @@ export interface LocalProject extends Project {
   _modifiedAt: number;
 }
 
+export interface LocalTag extends Tag {
+  _syncStatus: 'synced' | 'pending' | 'error';
+  _modifiedAt: number;
+}
+
 export interface LocalSection extends Section {
   _syncStatus: 'synced' | 'pending' | 'error';
   _modifiedAt: number;
@@ -26,23 +32,59 @@ export interface LocalSection extends Section {
 export interface SyncQueueItem {
   id?: number;
   type: 'CREATE' | 'UPDATE' | 'DELETE';
-  table: 'tasks' | 'projects' | 'sections';
+  table: 'tasks' | 'projects' | 'tags' | 'sections';
   recordId: string;
   localId?: string;
   payload: Record<string, unknown>;
   createdAt: number;
   attempts: number;
   lastError?: string;
+  // Field values the UPDATE was made against (for conflict detection)
+  baseValues?: Record<string, unknown>;
+  // Earliest time the next automatic retry may run
+  nextAttemptAt?: number;
+}
+
+// Sync queue item that exhausted its retries
+export interface DeadLetterItem extends SyncQueueItem {
+  failedAt: number;
+}
+
+// Field changed both locally and in Airtable since the local edit was made
+export interface SyncConflict {
+  id?: number;
+  table: 'tasks' | 'projects';
+  recordId: string;
+  recordName: string;
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  createdAt: number;
+}
+
+// Deleted task kept for restoring. rootId is the task the user deleted -
+// the task itself, or the ancestor it was deleted along with.
+export interface TrashItem {
+  id: string;
+  task: Task;
+  rootId: string;
+  deletedAt: number;
 }
 
 class AirTodoistDB extends Dexie {
   tasks!: Table<LocalTask, string>;
   projects!: Table<LocalProject, string>;
-  tags!: Table<Tag, string>;
+  tags!: Table<LocalTag, string>;
   sections!: Table<LocalSection, string>;
   filters!: Table<Filter, string>;
   syncQueue!: Table<SyncQueueItem, number>;
+  conflicts!: Table<SyncConflict, number>;
+  deadLetters!: Table<DeadLetterItem, number>;
   metadata!: Table<{ key: string; value: unknown }, string>;
+  settings!: Table<{ key: string; value: unknown }, string>;
+  trash!: Table<TrashItem, string>;
+  searchIndex!: Table<IndexedDoc, string>;
 
   constructor() {
     super('AirTodoistDB');
@@ -57,6 +99,28 @@ class AirTodoistDB extends Dexie {
       syncQueue: '++id, type, table, recordId, createdAt',
       metadata: 'key',
     });
+    
+    this.version(2).stores({
+      conflicts: '++id, table, recordId, createdAt',
+    });
+    
+    this.version(3).stores({
+      deadLetters: '++id, table, recordId, createdAt, failedAt',
+    });
+    
+    // Kept apart from metadata so clearing the cache doesn't drop user settings
+    this.version(4).stores({
+      settings: 'key',
+    });
+    
+    this.version(5).stores({
+      trash: 'id, rootId, deletedAt',
+    });
+    
+    // Written by the search worker
+    this.version(6).stores({
+      searchIndex: 'key',
+    });
   }
 }
 
@@ -66,6 +130,13 @@ export const db = new AirTodoistDB();
 // SYNC OPERATIONS
 // ============================================================================
 
+// IDs of records with changes still queued or failed to sync (call inside a transaction with both)
+async function getUnsyncedRecordIds(): Promise<Set<string>> {
+  const queued = await db.syncQueue.toArray();
+  const failed = await db.deadLetters.toArray();
+  return new Set([...queued, ...failed].map(item => item.recordId));
+}
+
 /**
  * Save all fetched data to local database
  */
@@ -74,31 +145,122 @@ export async function saveAllToLocal(data: {
   projects: Project[];
   tags: Tag[];
   sections: Section[];
-}): Promise<void> {
+}, syncedAt: number = Date.now()): Promise<void> {
   const now = Date.now();
   
-  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections], async () => {
+  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections, db.syncQueue, db.deadLetters], async () => {
+    // Rows with unsynced edits keep their local values
+    const unsynced = await getUnsyncedRecordIds();
+    const isFresh = (record: { id: string }) => !unsynced.has(record.id);
+    // Tags cached before they had a sync status count as synced
+    const isSynced = (record: { id: string; _syncStatus?: string }) =>
+      (record._syncStatus ?? 'synced') === 'synced' && isFresh(record);
+    
     // Clear existing synced data (keep pending changes)
-    await db.tasks.where('_syncStatus').equals('synced').delete();
-    await db.projects.where('_syncStatus').equals('synced').delete();
-    await db.sections.where('_syncStatus').equals('synced').delete();
-    await db.tags.clear();
+    await db.tasks.filter(isSynced).delete();
+    await db.projects.filter(isSynced).delete();
+    await db.sections.filter(isSynced).delete();
+    await db.tags.filter(isSynced).delete();
     
     // Insert fresh data
     await db.tasks.bulkPut(
-      data.tasks.map(t => ({ ...t, _syncStatus: 'synced' as const, _modifiedAt: now }))
+      data.tasks.filter(isFresh).map(t => ({ ...t, _syncStatus: 'synced' as const, _modifiedAt: now }))
+    );
+    await db.projects.bulkPut(
+      data.projects.filter(isFresh).map(p => ({ ...p, _syncStatus: 'synced' as const, _modifiedAt: now }))
+    );
+    await db.tags.bulkPut(
+      data.tags.filter(isFresh).map(t => ({ ...t, _syncStatus: 'synced' as const, _modifiedAt: now }))
+    );
+    await db.sections.bulkPut(
+      data.sections.filter(isFresh).map(s => ({ ...s, _syncStatus: 'synced' as const, _modifiedAt: now }))
+    );
+  });
+  
+  // Update last sync time (a full fetch also accounts for deletions)
+  await db.metadata.bulkPut([
+    { key: 'lastSync', value: syncedAt },
+    { key: 'lastDeletionSweep', value: syncedAt },
+  ]);
+}
+
+/**
+ * Merge records changed since the last sync into the local database,
+ * except rows whose own edits haven't synced yet
+ */
+export async function mergeChangesToLocal(data: {
+  tasks: Task[];
+  projects: Project[];
+  tags: Tag[];
+  sections: Section[];
+}, syncedAt: number): Promise<void> {
+  const now = Date.now();
+  
+  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections, db.syncQueue, db.deadLetters], async () => {
+    const unsynced = await getUnsyncedRecordIds();
+    const isFresh = (record: { id: string }) => !unsynced.has(record.id);
+    
+    await db.tasks.bulkPut(
+      data.tasks.filter(isFresh).map(t => ({ ...t, _syncStatus: 'synced' as const, _modifiedAt: now }))
     );
     await db.projects.bulkPut(
-      data.projects.map(p => ({ ...p, _syncStatus: 'synced' as const, _modifiedAt: now }))
+      data.projects.filter(isFresh).map(p => ({ ...p, _syncStatus: 'synced' as const, _modifiedAt: now }))
+    );
+    await db.tags.bulkPut(
+      data.tags.filter(isFresh).map(t => ({ ...t, _syncStatus: 'synced' as const, _modifiedAt: now }))
     );
-    await db.tags.bulkPut(data.tags);
     await db.sections.bulkPut(
-      data.sections.map(s => ({ ...s, _syncStatus: 'synced' as const, _modifiedAt: now }))
+      data.sections.filter(isFresh).map(s => ({ ...s, _syncStatus: 'synced' as const, _modifiedAt: now }))
     );
   });
   
-  // Update last sync time
-  await db.metadata.put({ key: 'lastSync', value: now });
+  await db.metadata.put({ key: 'lastSync', value: syncedAt });
+}
+
+/**
+ * Remove local records that no longer exist in Airtable (records created
+ * offline and not yet synced are kept)
+ */
+export async function removeDeletedFromLocal(ids: {
+  tasks: string[];
+  projects: string[];
+  tags: string[];
+  sections: string[] | null;
+}, sweptAt: number): Promise<void> {
+  const isGone = (remoteIds: Set<string>) => (record: { id: string }) =>
+    !record.id.startsWith('local_') && !remoteIds.has(record.id);
+  
+  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections], async () => {
+    await db.tasks.filter(isGone(new Set(ids.tasks))).delete();
+    await db.projects.filter(isGone(new Set(ids.projects))).delete();
+    await db.tags.filter(isGone(new Set(ids.tags))).delete();
+    if (ids.sections) {
+      await db.sections.filter(isGone(new Set(ids.sections))).delete();
+    }
+  });
+  
+  await db.metadata.put({ key: 'lastDeletionSweep', value: sweptAt });
+}
+
+/**
+ * Drop all cached records and sync state (used when switching storage backend)
+ */
+export async function clearLocalCache(): Promise<void> {
+  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections, db.syncQueue, db.conflicts, db.deadLetters, db.metadata, db.trash, db.searchIndex], async () => {
+    await Promise.all([
+      db.tasks.clear(),
+      db.projects.clear(),
+      db.tags.clear(),
+      db.sections.clear(),
+      db.syncQueue.clear(),
+      db.conflicts.clear(),
+      db.deadLetters.clear(),
+      db.metadata.clear(),
+      // Trashed records link to projects and tags of the old data source
+      db.trash.clear(),
+      db.searchIndex.clear(),
+    ]);
+  });
 }
 
 /**
@@ -109,6 +271,14 @@ export async function getLastSyncTime(): Promise<number | null> {
   return record?.value as number | null;
 }
 
+/**
+ * Get timestamp of the last deletion sweep
+ */
+export async function getLastDeletionSweepTime(): Promise<number | null> {
+  const record = await db.metadata.get('lastDeletionSweep');
+  return (record?.value as number | undefined) ?? null;
+}
+
 /**
  * Add item to sync queue (for offline changes)
  */
@@ -141,6 +311,150 @@ export async function updateSyncQueueItem(id: number, updates: Partial<SyncQueue
   await db.syncQueue.update(id, updates);
 }
 
+/**
+ * Merge queued UPDATEs on the same record into the earliest one, as long as no
+ * CREATE or DELETE of that record sits between them. Returns the remaining queue.
+ */
+export async function coalesceSyncQueue(): Promise<SyncQueueItem[]> {
+  return db.transaction('rw', db.syncQueue, async () => {
+    const items = await db.syncQueue.orderBy('createdAt').toArray();
+    const result: SyncQueueItem[] = [];
+    // Latest mergeable UPDATE per record
+    const openUpdates = new Map<string, SyncQueueItem>();
+    
+    for (const item of items) {
+      const key = `${item.table}:${item.recordId}`;
+      const target = openUpdates.get(key);
+      
+      // Pulling a reference to an offline-created record earlier could put it ahead of that CREATE
+      const referencesLocal = getReferences(item.payload).some(ref => ref.startsWith('local_'));
+      
+      if (item.type === 'UPDATE' && target && !referencesLocal) {
+        // Later values win; the earliest base value is what Airtable should still hold
+        target.payload = { ...target.payload, ...item.payload };
+        if (target.baseValues || item.baseValues) {
+          target.baseValues = { ...item.baseValues, ...target.baseValues };
+        }
+        
+        // Fields changed back to their original value (e.g. by undo) have nothing left to send
+        const baseValues = target.baseValues;
+        if (baseValues) {
+          for (const field of Object.keys(target.payload)) {
+            if (field in baseValues && isSameValue(target.payload[field], baseValues[field])) {
+              delete target.payload[field];
+              delete baseValues[field];
+            }
+          }
+        }
+        await db.syncQueue.delete(item.id!);
+        
+        if (Object.keys(target.payload).length === 0) {
+          await db.syncQueue.delete(target.id!);
+          result.splice(result.indexOf(target), 1);
+          openUpdates.delete(key);
+        } else {
+          await db.syncQueue.put(target);
+        }
+        continue;
+      }
+      
+      if (item.type === 'UPDATE') {
+        openUpdates.set(key, item);
+      } else {
+        openUpdates.delete(key);
+      }
+      result.push(item);
+    }
+    
+    return result;
+  });
+}
+
+// ============================================================================
+// DEAD-LETTER QUEUE
+// ============================================================================
+
+/**
+ * Move a sync queue item that exhausted its retries to the dead-letter list.
+ * A failed CREATE takes the queued changes that depend on its local ID along,
+ * since they can't sync without it. Returns how many items were moved.
+ */
+export async function moveToDeadLetter(item: SyncQueueItem, lastError: string): Promise<number> {
+  const { id, ...rest } = item;
+  return db.transaction('rw', [db.syncQueue, db.deadLetters], async () => {
+    const failedAt = Date.now();
+    await db.deadLetters.add({ ...rest, lastError, failedAt });
+    await db.syncQueue.delete(id!);
+    
+    let moved = 1;
+    const blockedIds = item.type === 'CREATE' && item.localId ? [item.localId] : [];
+    while (blockedIds.length > 0) {
+      const localId = blockedIds.pop()!;
+      const dependents = await db.syncQueue
+        .filter(q => q.recordId === localId || getReferences(q.payload).includes(localId))
+        .toArray();
+      for (const { id: dependentId, ...dependent } of dependents) {
+        await db.deadLetters.add({ ...dependent, lastError: 'Depends on a change that failed to sync', failedAt });
+        await db.syncQueue.delete(dependentId!);
+        if (dependent.type === 'CREATE' && dependent.localId) blockedIds.push(dependent.localId);
+      }
+      moved += dependents.length;
+    }
+    return moved;
+  });
+}
+
+export async function getDeadLetterItems(): Promise<DeadLetterItem[]> {
+  return db.deadLetters.orderBy('failedAt').toArray();
+}
+
+/**
+ * Put a dead-letter item back on the sync queue (optionally with an edited payload)
+ */
+export async function retryDeadLetterItem(id: number, payload?: Record<string, unknown>): Promise<void> {
+  await db.transaction('rw', [db.syncQueue, db.deadLetters], async () => {
+    const item = await db.deadLetters.get(id);
+    if (!item) return;
+    
+    // Keep the original createdAt so it replays in its original order
+    await db.syncQueue.add({
+      type: item.type,
+      table: item.table,
+      recordId: item.recordId,
+      localId: item.localId,
+      payload: payload ?? item.payload,
+      baseValues: item.baseValues,
+      createdAt: item.createdAt,
+      attempts: 0,
+      lastError: item.lastError,
+    });
+    await db.deadLetters.delete(id);
+  });
+}
+
+/**
+ * Drop a dead-letter item, along with the local-only record it would have created
+ * and every queued or failed change that still refers to it
+ */
+export async function discardDeadLetterItem(id: number): Promise<void> {
+  await db.transaction('rw', [db.deadLetters, db.syncQueue, db.tasks, db.projects, db.tags, db.sections], async () => {
+    const item = await db.deadLetters.get(id);
+    await db.deadLetters.delete(id);
+    if (item?.type === 'CREATE' && item.localId) {
+      const localId = item.localId;
+      await db.table(item.table).delete(localId);
+      await dropQueuedLocalId(localId);
+      await db.deadLetters.where('recordId').equals(localId).delete();
+      await db.deadLetters
+        .filter(d => getReferences(d.payload).includes(localId))
+        .modify(d => {
+          d.payload = withoutReference(d.payload, localId);
+        });
+      await unlinkLocalTasks(localId);
+    }
+  });
+}
+
 // ============================================================================
 // LOCAL CRUD OPERATIONS (Offline-first)
 // ============================================================================
@@ -155,7 +469,7 @@ export async function createTaskLocally(task: Partial<Task>): Promise<LocalTask>
   const localTask: LocalTask = {
     id: localId,
     name: task.name || '',
-    status: task.status || '📥 Inbox',
+    status: task.status || null,
     priority: task.priority || null,
     startDate: task.startDate || null,
     dueDate: task.dueDate || null,
@@ -173,6 +487,7 @@ export async function createTaskLocally(task: Partial<Task>): Promise<LocalTask>
     calendarSyncStatus: null,
     plannedEffort: task.plannedEffort || null,
     actualEffort: task.actualEffort || null,
+    recurrence: task.recurrence || null,
     _localId: localId,
     _syncStatus: 'pending',
     _modifiedAt: now,
@@ -198,6 +513,7 @@ export async function createTaskLocally(task: Partial<Task>): Promise<LocalTask>
  */
 export async function updateTaskLocally(taskId: string, updates: Partial<Task>): Promise<void> {
   const now = Date.now();
+  const current = await db.tasks.get(taskId);
   
   await db.tasks.update(taskId, {
     ...updates,
@@ -211,6 +527,7 @@ export async function updateTaskLocally(taskId: string, updates: Partial<Task>):
     table: 'tasks',
     recordId: taskId,
     payload: updates,
+    baseValues: pickBaseValues(current, updates),
   });
 }
 
@@ -218,30 +535,574 @@ export async function updateTaskLocally(taskId: string, updates: Partial<Task>):
  * Delete task locally (queued for sync)
  */
 export async function deleteTaskLocally(taskId: string): Promise<void> {
-  // Check if it's a local-only task (not yet synced)
-  const task = await db.tasks.get(taskId);
-  if (task?._localId && task._syncStatus === 'pending') {
-    // Just delete locally, remove from sync queue
+  await db.transaction('rw', [db.tasks, db.syncQueue], async () => {
+    // Check if it's a local-only task (not yet synced)
+    const task = await db.tasks.get(taskId);
+    if (task?._localId && task._syncStatus === 'pending') {
+      // Just delete locally; its queued changes go, and queued subtasks lose the parent link
+      await db.tasks.delete(taskId);
+      await dropQueuedLocalId(taskId);
+      return;
+    }
+    
+    // Mark for deletion and add to sync queue
+    await db.tasks.update(taskId, {
+      _syncStatus: 'pending',
+      _modifiedAt: Date.now(),
+    });
+    
+    await addToSyncQueue({
+      type: 'DELETE',
+      table: 'tasks',
+      recordId: taskId,
+      payload: {},
+    });
+    
+    // Remove from local DB
     await db.tasks.delete(taskId);
-    await db.syncQueue.where('localId').equals(taskId).delete();
-    return;
-  }
+  });
+}
+
+/**
+ * Undo a local delete that hasn't synced yet by dropping its queued DELETE and
+ * putting the record back under the same ID. Returns false if no DELETE is queued.
+ */
+export async function restoreTaskLocally(task: Task): Promise<boolean> {
+  return db.transaction('rw', [db.tasks, db.syncQueue], async () => {
+    const queued = await db.syncQueue
+      .where('recordId').equals(task.id)
+      .filter(item => item.table === 'tasks' && item.type === 'DELETE')
+      .first();
+    if (!queued) return false;
+    
+    await db.syncQueue.delete(queued.id!);
+    // Earlier offline edits of the task may still be waiting
+    const stillPending = await db.syncQueue.where('recordId').equals(task.id).count();
+    await db.tasks.put({
+      ...task,
+      _syncStatus: stillPending > 0 ? 'pending' : 'synced',
+      _modifiedAt: Date.now(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Update several tasks locally in one transaction (queued for sync)
+ */
+export async function updateTasksLocally(changes: { id: string; updates: Partial<Task> }[]): Promise<void> {
+  await db.transaction('rw', [db.tasks, db.syncQueue], async () => {
+    for (const { id, updates } of changes) {
+      await updateTaskLocally(id, updates);
+    }
+  });
+}
+
+/**
+ * Delete several tasks locally in one transaction (queued for sync)
+ */
+export async function deleteTasksLocally(taskIds: string[]): Promise<void> {
+  await db.transaction('rw', [db.tasks, db.syncQueue], async () => {
+    for (const taskId of taskIds) {
+      await deleteTaskLocally(taskId);
+    }
+  });
+}
+
+/**
+ * Create project locally (queued for sync)
+ */
+export async function createProjectLocally(project: Partial<Project>): Promise<LocalProject> {
+  const localId = `local_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+  const localProject: LocalProject = {
+    id: localId,
+    name: project.name || '',
+    status: project.status || null,
+    description: project.description || '',
+    startDate: project.startDate || null,
+    targetDate: project.targetDate || null,
+    notes: '',
+    taskIds: [],
+    color: project.color || null,
+    _syncStatus: 'pending',
+    _modifiedAt: Date.now(),
+  };
+
+  await db.projects.add(localProject);
+
+  // Add to sync queue
+  await addToSyncQueue({
+    type: 'CREATE',
+    table: 'projects',
+    recordId: localId,
+    localId,
+    payload: project,
+  });
+
+  return localProject;
+}
+
+/**
+ * Delete project locally (queued for sync)
+ */
+export async function deleteProjectLocally(projectId: string): Promise<void> {
+  await db.transaction('rw', [db.projects, db.syncQueue], async () => {
+    // Never reached Airtable - drop its queued CREATE and edits, and any
+    // queued task links to it, which could otherwise never be resolved
+    if (projectId.startsWith('local_')) {
+      await dropQueuedLocalId(projectId);
+    } else {
+      await addToSyncQueue({
+        type: 'DELETE',
+        table: 'projects',
+        recordId: projectId,
+        payload: {},
+      });
+    }
+    await db.projects.delete(projectId);
+  });
+}
+
+/**
+ * Update project locally (queued for sync)
+ */
+export async function updateProjectLocally(projectId: string, updates: Partial<Project>): Promise<void> {
+  const now = Date.now();
+  const current = await db.projects.get(projectId);
   
-  // Mark for deletion and add to sync queue
-  await db.tasks.update(taskId, {
+  await db.projects.update(projectId, {
+    ...updates,
+    _syncStatus: 'pending',
+    _modifiedAt: now,
+  });
+  
+  // Add to sync queue
+  await addToSyncQueue({
+    type: 'UPDATE',
+    table: 'projects',
+    recordId: projectId,
+    payload: updates,
+    baseValues: pickBaseValues(current, updates),
+  });
+}
+
+/**
+ * Create tag locally (queued for sync)
+ */
+export async function createTagLocally(tag: Partial<Tag>): Promise<LocalTag> {
+  const localId = `local_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+  const localTag: LocalTag = {
+    id: localId,
+    name: tag.name || '',
+    type: tag.type || null,
+    description: tag.description || '',
+    taskIds: [],
     _syncStatus: 'pending',
     _modifiedAt: Date.now(),
+  };
+
+  await db.tags.add(localTag);
+
+  // Add to sync queue
+  await addToSyncQueue({
+    type: 'CREATE',
+    table: 'tags',
+    recordId: localId,
+    localId,
+    payload: tag,
+  });
+
+  return localTag;
+}
+
+/**
+ * Update tag locally (queued for sync)
+ */
+export async function updateTagLocally(tagId: string, updates: Partial<Tag>): Promise<void> {
+  await db.tags.update(tagId, {
+    ...updates,
+    _syncStatus: 'pending',
+    _modifiedAt: Date.now(),
+  });
+
+  await addToSyncQueue({
+    type: 'UPDATE',
+    table: 'tags',
+    recordId: tagId,
+    payload: updates,
   });
+}
+
+/**
+ * Delete tag locally (queued for sync). Airtable unlinks it from its tasks,
+ * so only the local copies of those tasks are changed.
+ */
+export async function deleteTagLocally(tagId: string): Promise<void> {
+  await db.transaction('rw', [db.tags, db.tasks, db.syncQueue], async () => {
+    // Never reached Airtable - drop its queued CREATE and edits, and take it
+    // out of queued task changes, which could otherwise never be resolved
+    if (tagId.startsWith('local_')) {
+      await dropQueuedLocalId(tagId);
+    } else {
+      await addToSyncQueue({
+        type: 'DELETE',
+        table: 'tags',
+        recordId: tagId,
+        payload: {},
+      });
+    }
+    await db.tasks
+      .filter(t => t.tagIds.includes(tagId))
+      .modify(t => {
+        t.tagIds = t.tagIds.filter(id => id !== tagId);
+      });
+    await db.tags.delete(tagId);
+  });
+}
+
+/**
+ * Create section locally (queued for sync)
+ */
+export async function createSectionLocally(section: Partial<Section>): Promise<LocalSection> {
+  const localId = `local_${Date.now()}_${Math.random().toString(36).slice(2)}`;
   
+  const localSection: LocalSection = {
+    id: localId,
+    name: section.name || '',
+    projectId: section.projectId || null,
+    order: section.order ?? 0,
+    color: section.color || null,
+    _syncStatus: 'pending',
+    _modifiedAt: Date.now(),
+  };
+  
+  await db.sections.add(localSection);
+  
+  // Add to sync queue
   await addToSyncQueue({
-    type: 'DELETE',
-    table: 'tasks',
-    recordId: taskId,
-    payload: {},
+    type: 'CREATE',
+    table: 'sections',
+    recordId: localId,
+    localId,
+    payload: section,
+  });
+  
+  return localSection;
+}
+
+/**
+ * Update sections locally in one transaction (queued for sync)
+ */
+export async function updateSectionsLocally(changes: { id: string; updates: Partial<Section> }[]): Promise<void> {
+  const now = Date.now();
+  await db.transaction('rw', [db.sections, db.syncQueue], async () => {
+    for (const { id, updates } of changes) {
+      await db.sections.update(id, {
+        ...updates,
+        _syncStatus: 'pending',
+        _modifiedAt: now,
+      });
+      await addToSyncQueue({
+        type: 'UPDATE',
+        table: 'sections',
+        recordId: id,
+        payload: updates,
+      });
+    }
+  });
+}
+
+/**
+ * Delete section locally (queued for sync)
+ */
+export async function deleteSectionLocally(sectionId: string): Promise<void> {
+  await db.transaction('rw', [db.sections, db.syncQueue], async () => {
+    // Never reached Airtable - drop its queued changes and queued task links to it
+    if (sectionId.startsWith('local_')) {
+      await dropQueuedLocalId(sectionId);
+    } else {
+      await addToSyncQueue({
+        type: 'DELETE',
+        table: 'sections',
+        recordId: sectionId,
+        payload: {},
+      });
+    }
+    await db.sections.delete(sectionId);
+  });
+}
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+export async function addToTrash(items: TrashItem[]): Promise<void> {
+  await db.trash.bulkPut(items);
+}
+
+export async function getTrashItems(): Promise<TrashItem[]> {
+  return db.trash.orderBy('deletedAt').reverse().toArray();
+}
+
+export async function removeFromTrash(taskIds: string[]): Promise<void> {
+  await db.trash.bulkDelete(taskIds);
+}
+
+/**
+ * Permanently drop trashed tasks deleted before the given time. Returns how many were removed.
+ */
+export async function purgeTrash(deletedBefore: number): Promise<number> {
+  return db.trash.where('deletedAt').below(deletedBefore).delete();
+}
+
+// ============================================================================
+// SEARCH INDEX
+// ============================================================================
+
+export async function getSearchIndexEntries(): Promise<IndexedDoc[]> {
+  return db.searchIndex.toArray();
+}
+
+export async function saveSearchIndexEntries(changed: IndexedDoc[], removedKeys: string[]): Promise<void> {
+  await db.transaction('rw', db.searchIndex, async () => {
+    await db.searchIndex.bulkPut(changed);
+    await db.searchIndex.bulkDelete(removedKeys);
+  });
+}
+
+// ============================================================================
+// CONFLICT DETECTION
+// ============================================================================
+
+/**
+ * Snapshot the current values of the fields an update is about to change
+ */
+function pickBaseValues(record: object | undefined, updates: object): Record<string, unknown> | undefined {
+  if (!record) return undefined;
+  const current = record as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(updates).map(field => [field, current[field] ?? null]));
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Split a queued UPDATE into fields safe to send and fields that conflict with
+ * changes made in Airtable since the local edit was made
+ */
+export function detectConflicts(
+  item: SyncQueueItem,
+  server: object
+): { payload: Record<string, unknown>; conflicts: Omit<SyncConflict, 'id'>[] } {
+  const serverValues = server as Record<string, unknown>;
+  const payload: Record<string, unknown> = {};
+  const conflicts: Omit<SyncConflict, 'id'>[] = [];
+  
+  for (const [field, mine] of Object.entries(item.payload)) {
+    const theirs = serverValues[field] ?? null;
+    const hasBase = item.baseValues !== undefined && field in item.baseValues;
+    const base = hasBase ? item.baseValues![field] : theirs;
+    
+    // Conflict only when Airtable moved away from the base to something other than our value
+    if (!isSameValue(theirs, base) && !isSameValue(theirs, mine)) {
+      conflicts.push({
+        table: item.table as SyncConflict['table'],
+        recordId: item.recordId,
+        recordName: String(serverValues.name ?? ''),
+        field,
+        base,
+        mine,
+        theirs,
+        createdAt: Date.now(),
+      });
+    } else {
+      payload[field] = mine;
+    }
+  }
+  
+  return { payload, conflicts };
+}
+
+export async function addConflicts(conflicts: Omit<SyncConflict, 'id'>[]): Promise<void> {
+  await db.transaction('rw', db.conflicts, async () => {
+    for (const conflict of conflicts) {
+      // A newer conflict on the same field replaces the older one
+      await db.conflicts
+        .where('recordId').equals(conflict.recordId)
+        .filter(c => c.field === conflict.field)
+        .delete();
+      await db.conflicts.add(conflict);
+    }
   });
+}
+
+export async function getAllConflicts(): Promise<SyncConflict[]> {
+  return db.conflicts.orderBy('createdAt').toArray();
+}
+
+export async function removeConflict(id: number): Promise<void> {
+  await db.conflicts.delete(id);
+}
+
+// ============================================================================
+// LOCAL ID RECONCILIATION
+// ============================================================================
+
+// Payload fields that can hold a reference to another record
+const REFERENCE_FIELDS = ['parentTaskId', 'sectionId', 'projectId'] as const;
+// Payload fields that hold a list of references
+const REFERENCE_LIST_FIELDS = ['tagIds'] as const;
+
+// Every record ID a payload points at
+function getReferences(payload: Record<string, unknown>): string[] {
+  const refs = REFERENCE_FIELDS.map(f => payload[f]);
+  for (const field of REFERENCE_LIST_FIELDS) {
+    if (Array.isArray(payload[field])) refs.push(...payload[field]);
+  }
+  return refs.filter((ref): ref is string => typeof ref === 'string');
+}
+
+/**
+ * Rewrite a queue item's record ID and references using a local -> Airtable ID map
+ */
+export function applyIdMap(item: SyncQueueItem, idMap: Map<string, string>): SyncQueueItem {
+  if (idMap.size === 0) return item;
   
-  // Remove from local DB
-  await db.tasks.delete(taskId);
+  const payload = { ...item.payload };
+  for (const field of REFERENCE_FIELDS) {
+    const ref = payload[field];
+    if (typeof ref === 'string' && idMap.has(ref)) payload[field] = idMap.get(ref);
+  }
+  for (const field of REFERENCE_LIST_FIELDS) {
+    const refs = payload[field];
+    if (Array.isArray(refs)) payload[field] = refs.map(ref => idMap.get(ref) ?? ref);
+  }
+  
+  return {
+    ...item,
+    recordId: idMap.get(item.recordId) ?? item.recordId,
+    payload,
+  };
+}
+
+// A payload with every reference to the given ID cleared
+function withoutReference(payload: Record<string, unknown>, id: string): Record<string, unknown> {
+  const result = { ...payload };
+  for (const field of REFERENCE_FIELDS) {
+    if (result[field] === id) result[field] = null;
+  }
+  for (const field of REFERENCE_LIST_FIELDS) {
+    const refs = result[field];
+    if (Array.isArray(refs)) result[field] = refs.filter(ref => ref !== id);
+  }
+  return result;
+}
+
+/**
+ * Forget a record that never reached Airtable: drop its own queued changes and
+ * clear references to it from the rest, which could otherwise never be resolved.
+ * Call inside a transaction that includes the sync queue.
+ */
+async function dropQueuedLocalId(localId: string): Promise<void> {
+  await db.syncQueue.where('recordId').equals(localId).delete();
+  await db.syncQueue
+    .filter(item => getReferences(item.payload).includes(localId))
+    .modify(item => {
+      item.payload = withoutReference(item.payload, localId);
+    });
+}
+
+// Clear local task links to a record that is gone (inside a transaction with tasks)
+async function unlinkLocalTasks(recordId: string): Promise<void> {
+  for (const field of REFERENCE_FIELDS) {
+    await db.tasks.where(field).equals(recordId).modify(t => {
+      t[field] = null;
+    });
+  }
+  await db.tasks
+    .filter(t => t.subtaskIds.includes(recordId) || t.tagIds.includes(recordId))
+    .modify(t => {
+      t.subtaskIds = t.subtaskIds.filter(id => id !== recordId);
+      t.tagIds = t.tagIds.filter(id => id !== recordId);
+    });
+}
+
+/**
+ * Local IDs a queue item depends on that have not been created in Airtable yet
+ */
+export function getUnresolvedLocalIds(item: SyncQueueItem): string[] {
+  const refs = getReferences(item.payload);
+  if (item.type !== 'CREATE') refs.push(item.recordId);
+  return refs.filter(ref => ref.startsWith('local_'));
+}
+
+/**
+ * Whether a queue item still depends on a record that has not been created in Airtable yet
+ */
+export function hasUnresolvedLocalId(item: SyncQueueItem): boolean {
+  return getUnresolvedLocalIds(item).length > 0;
+}
+
+/**
+ * Replace a local ID with its Airtable record ID everywhere it is stored:
+ * the local record itself, task references, the remaining sync queue and
+ * failed changes waiting to be retried
+ */
+export async function remapLocalId(
+  table: 'tasks' | 'projects' | 'tags' | 'sections',
+  localId: string,
+  recordId: string
+): Promise<void> {
+  const idMap = new Map([[localId, recordId]]);
+  const now = Date.now();
+  
+  await db.transaction('rw', [db.tasks, db.projects, db.tags, db.sections, db.syncQueue, db.deadLetters], async () => {
+    // Rewrite queued and failed changes that still point at the local ID
+    for (const queue of [db.syncQueue, db.deadLetters]) {
+      await queue
+        .filter(item => item.recordId === localId || getReferences(item.payload).includes(localId))
+        .modify(item => {
+          const remapped = applyIdMap(item, idMap);
+          item.recordId = remapped.recordId;
+          item.payload = remapped.payload;
+        });
+    }
+    
+    // Move the local record to its real ID
+    const records = db.table(table);
+    const local = await records.get(localId);
+    if (local) {
+      const stillPending = await db.syncQueue
+        .where('recordId').equals(recordId)
+        .filter(item => item.type !== 'CREATE')
+        .count();
+      await records.delete(localId);
+      await records.put({
+        ...local,
+        id: recordId,
+        _localId: undefined,
+        _syncStatus: stillPending > 0 ? 'pending' : 'synced',
+        _modifiedAt: now,
+      });
+    }
+    
+    // Re-point task links
+    for (const field of REFERENCE_FIELDS) {
+      await db.tasks.where(field).equals(localId).modify({ [field]: recordId });
+    }
+    await db.tasks
+      .filter(t => t.subtaskIds.includes(localId))
+      .modify(t => {
+        t.subtaskIds = t.subtaskIds.map(id => (id === localId ? recordId : id));
+      });
+    await db.tasks
+      .filter(t => t.tagIds.includes(localId))
+      .modify(t => {
+        t.tagIds = t.tagIds.map(id => (id === localId ? recordId : id));
+      });
+  });
 }
 
 // ============================================================================
@@ -259,3 +1120,48 @@ export async function deleteFilter(filterId: string): Promise<void> {
 export async function getAllFilters(): Promise<Filter[]> {
   return db.filters.toArray();
 }
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getAirtableSettings(): Promise<AirtableSettings | null> {
+  const record = await db.settings.get('airtable');
+  return (record?.value as AirtableSettings | undefined) ?? null;
+}
+
+export async function saveAirtableSettings(settings: AirtableSettings | null): Promise<void> {
+  if (settings) {
+    await db.settings.put({ key: 'airtable', value: settings });
+  } else {
+    await db.settings.delete('airtable');
+  }
+}
+
+/**
+ * Project colors kept on this device, for bases whose Projects table has no color field
+ */
+export async function getLocalProjectColors(): Promise<Record<string, string>> {
+  const record = await db.settings.get('projectColors');
+  return (record?.value as Record<string, string> | undefined) ?? {};
+}
+
+export async function saveLocalProjectColor(projectId: string, color: string | null): Promise<Record<string, string>> {
+  const colors = { ...(await getLocalProjectColors()) };
+  if (color) colors[projectId] = color;
+  else delete colors[projectId];
+  await db.settings.put({ key: 'projectColors', value: colors });
+  return colors;
+}
+
+/**
+ * Cached status/priority choices and status categories, keyed by base ID (or backend type)
+ */
+export async function getTaskOptions(scope: string): Promise<TaskOptions | null> {
+  const record = await db.settings.get(`taskOptions:${scope}`);
+  return (record?.value as TaskOptions | undefined) ?? null;
+}
+
+export async function saveTaskOptions(scope: string, options: TaskOptions): Promise<void> {
+  await db.settings.put({ key: `taskOptions:${scope}`, value: options });
+}
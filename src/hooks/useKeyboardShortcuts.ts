@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+
+// Handlers keyed by shortcut: "q", "?", "enter", "mod+k" (Ctrl or Cmd), "g t" (g, then t).
+// Returning false leaves the key to the browser (e.g. Enter with nothing focused).
+export type ShortcutHandlers = Record<string, (event: KeyboardEvent) => void | boolean>;
+
+// How long to wait for the second key of a sequence
+const SEQUENCE_TIMEOUT = 1000;
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+function describeKey(event: KeyboardEvent): string | null {
+  if (event.altKey || ['Shift', 'Control', 'Meta', 'Alt'].includes(event.key)) return null;
+  const key = event.key.toLowerCase();
+  return event.ctrlKey || event.metaKey ? `mod+${key}` : key;
+}
+
+/**
+ * Global keyboard shortcuts. Plain keys are ignored while typing in a field;
+ * mod+ chords work everywhere.
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  // Latest handlers without re-subscribing on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let pendingPrefix: string | null = null;
+    let pendingAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      const key = describeKey(event);
+      if (!key) return;
+      if (!key.startsWith('mod+') && isEditableTarget(event.target)) return;
+
+      const current = handlersRef.current;
+      const prefix = pendingPrefix && Date.now() - pendingAt < SEQUENCE_TIMEOUT ? pendingPrefix : null;
+      pendingPrefix = null;
+
+      const handler = current[prefix ? `${prefix} ${key}` : key];
+      if (handler) {
+        if (handler(event) !== false) event.preventDefault();
+        return;
+      }
+
+      // First key of a sequence
+      if (!prefix && Object.keys(current).some(shortcut => shortcut.startsWith(`${key} `))) {
+        pendingPrefix = key;
+        pendingAt = Date.now();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
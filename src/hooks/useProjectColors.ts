@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useStore } from '../store';
+import { getProjectColor } from '../utils/projects';
+
+/**
+ * Color lookup by project ID - the one place views read project colors from
+ */
+export function useProjectColors() {
+  const projects = useStore(state => state.projects);
+  const localProjectColors = useStore(state => state.localProjectColors);
+
+  return useMemo(() => {
+    const byId = new Map(projects.map(p => [p.id, p]));
+    return (projectId: string) => getProjectColor(byId.get(projectId), localProjectColors);
+  }, [projects, localProjectColors]);
+}
@@ -0,0 +1,117 @@
+import { useEffect, useCallback } from 'react';
+import { useStore } from '../store';
+import { getStatusCategory } from '../utils/taskOptions';
+import type { SearchDoc, SearchResult, SearchWorkerRequest, SearchWorkerResponse } from '../utils/searchIndex';
+
+// Wait for edits to settle before re-sending the documents
+const INDEX_DELAY = 300;
+
+const EMPTY_CONTEXT = {
+  project: null,
+  section: null,
+  tags: [],
+  status: null,
+  statusCategory: null,
+  dueDate: null,
+  isDone: false,
+  isRecurring: false,
+  isSubtask: false,
+};
+
+// One worker for the whole app, started on first use
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingSearches = new Map<number, (results: SearchResult[]) => void>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const { requestId, results } = event.data;
+      pendingSearches.get(requestId)?.(results);
+      pendingSearches.delete(requestId);
+    };
+  }
+  return worker;
+}
+
+function post(request: SearchWorkerRequest) {
+  getWorker().postMessage(request);
+}
+
+/**
+ * Keeps the search worker's index in step with the store and returns a
+ * search function. Results come back ranked, with highlighted snippets.
+ */
+export function useSearchIndex() {
+  const { tasks, projects, sections, tags, taskOptions } = useStore();
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const projectNames = new Map(projects.map(p => [p.id, p.name]));
+      const sectionNames = new Map(sections.map(s => [s.id, s.name]));
+      const tagNames = new Map(tags.map(t => [t.id, t.name]));
+
+      const docs: SearchDoc[] = [
+        ...tasks.map(task => {
+          const statusCategory = getStatusCategory(taskOptions, task.status);
+          return {
+            id: task.id,
+            kind: 'task' as const,
+            title: task.name,
+            body: task.notes || '',
+            projectId: task.projectId,
+            updatedAt: task._modifiedAt ?? task._createdAt ?? 0,
+            project: (task.projectId && projectNames.get(task.projectId)) || null,
+            section: (task.sectionId && sectionNames.get(task.sectionId)) || null,
+            tags: task.tagIds.flatMap(id => tagNames.get(id) ?? []),
+            status: task.status,
+            statusCategory,
+            dueDate: task.dueDate,
+            isDone: statusCategory === 'done',
+            isRecurring: !!task.recurrence,
+            isSubtask: !!task.parentTaskId,
+          };
+        }),
+        ...projects.map(project => ({
+          ...EMPTY_CONTEXT,
+          id: project.id,
+          kind: 'project' as const,
+          title: project.name,
+          body: [project.description, project.notes].filter(Boolean).join('\n'),
+          projectId: project.id,
+          updatedAt: project._modifiedAt ?? 0,
+        })),
+        ...sections.map(section => ({
+          ...EMPTY_CONTEXT,
+          id: section.id,
+          kind: 'section' as const,
+          title: section.name,
+          body: '',
+          project: (section.projectId && projectNames.get(section.projectId)) || null,
+          projectId: section.projectId,
+          updatedAt: section._modifiedAt ?? 0,
+        })),
+        ...tags.map(tag => ({
+          ...EMPTY_CONTEXT,
+          id: tag.id,
+          kind: 'tag' as const,
+          title: tag.name,
+          body: tag.description || '',
+          projectId: null,
+          updatedAt: 0,
+        })),
+      ];
+      post({ type: 'index', docs });
+    }, INDEX_DELAY);
+    return () => clearTimeout(timer);
+  }, [tasks, projects, sections, tags, taskOptions]);
+
+  return useCallback((query: string, limit = 50): Promise<SearchResult[]> => {
+    const requestId = ++nextRequestId;
+    return new Promise(resolve => {
+      pendingSearches.set(requestId, resolve);
+      post({ type: 'search', requestId, query, limit });
+    });
+  }, []);
+}
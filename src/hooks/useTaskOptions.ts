@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { useStore } from '../store';
+import {
+  getStatusCategory,
+  isDoneStatus,
+  getDoneStatus,
+  getDefaultStatus,
+  getReopenStatus,
+  getPriorityConfig,
+  isHighPriority,
+} from '../utils/taskOptions';
+
+/**
+ * Status/priority choices for the current base, with helpers bound to them
+ */
+export function useTaskOptions() {
+  const taskOptions = useStore(state => state.taskOptions);
+
+  return useMemo(() => ({
+    statuses: taskOptions.statuses,
+    priorities: taskOptions.priorities,
+    doneStatus: getDoneStatus(taskOptions),
+    defaultStatus: getDefaultStatus(taskOptions),
+    reopenStatus: getReopenStatus(taskOptions),
+    getStatusCategory: (status: string | null | undefined) => getStatusCategory(taskOptions, status),
+    isDone: (status: string | null | undefined) => isDoneStatus(taskOptions, status),
+    getPriorityConfig: (priority: string | null | undefined) => getPriorityConfig(taskOptions, priority),
+    isHighPriority: (priority: string | null | undefined) => isHighPriority(taskOptions, priority),
+  }), [taskOptions]);
+}
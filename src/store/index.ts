@@ -3,10 +3,19 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Task, Project, Tag, Section, Filter, ViewType } from '../types';
-import * as api from '../api/airtable';
+import type { Task, Project, Tag, Section, Filter, ViewType, AirtableSettings, TaskOptions, StatusCategory, SubtaskSettings, KanbanSettings } from '../types';
+import { getBackend, setBackend, createBackend, DEFAULT_BACKEND_TYPE } from '../api/backend';
+import { configureAirtable, getAirtableBaseId } from '../api/airtable';
+import type { BackendType } from '../api/backend';
+import { getRequestQueueStatus, subscribeToRequestQueue } from '../api/requestScheduler';
+import type { RequestQueueStatus } from '../api/requestScheduler';
 import * as db from '../db';
-import { STORAGE_KEYS } from '../utils/constants';
+import { STORAGE_KEYS, SYNC_CONFIG, DEFAULT_TASK_OPTIONS, DEFAULT_TRASH_RETENTION_DAYS, DEFAULT_SUBTASK_SETTINGS, DEFAULT_KANBAN_SETTINGS } from '../utils/constants';
+import { buildTaskOptions, getDefaultStatus, getDoneStatus, isDoneStatus } from '../utils/taskOptions';
+import { getNextOccurrence } from '../utils/recurrence';
+import { formatDate } from '../utils/dates';
+import { withDescendants, getParentsToAutoComplete, withMovedSubtasks } from '../utils/subtasks';
+import { ACTIVE_PROJECT_STATUS, ARCHIVED_PROJECT_STATUS } from '../utils/projects';
 
 interface AppState {
   // Data
@@ -15,6 +24,12 @@ interface AppState {
   tags: Tag[];
   sections: Section[];
   filters: Filter[];
+  // Project colors kept on this device, used when a project has no color of its own
+  localProjectColors: Record<string, string>;
+  conflicts: db.SyncConflict[];
+  deadLetters: db.DeadLetterItem[];
+  trash: db.TrashItem[];
+  taskOptions: TaskOptions;
   
   // UI State
   currentView: ViewType;
@@ -22,9 +37,20 @@ interface AppState {
   selectedFilterId: string | null;
   selectedTagId: string | null;
   editingTaskId: string | null;
+  // Task highlighted for keyboard navigation (j/k)
+  focusedTaskId: string | null;
+  // Multi-selection for bulk actions; the anchor is where shift-click ranges start
+  selectedTaskIds: string[];
+  selectionAnchorId: string | null;
+  isSearchOpen: boolean;
   showCompleted: boolean;
   isDarkMode: boolean;
   sidebarWidth: number;
+  trashRetentionDays: number;
+  subtaskSettings: SubtaskSettings;
+  kanbanSettings: KanbanSettings;
+  backendType: BackendType;
+  airtableSettings: AirtableSettings | null;
   
   // Sync State
   isLoading: boolean;
@@ -32,9 +58,14 @@ interface AppState {
   lastSyncTime: number | null;
   isOnline: boolean;
   syncError: string | null;
+  requestQueue: RequestQueueStatus;
   
   // Toast
-  toast: { message: string; type: 'success' | 'error' | 'info' | 'warning' } | null;
+  toast: { message: string; type: 'success' | 'error' | 'info' | 'warning'; canUndo?: boolean } | null;
+  
+  // Undo history (session only)
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
   
   // Confirm modal
   confirmModal: {
@@ -42,7 +73,14 @@ interface AppState {
     title: string;
     message: string;
     type: 'delete' | 'warning' | 'info';
+    confirmLabel?: string;
+    cancelLabel?: string;
     onConfirm: (() => void) | null;
+    // Runs on the cancel button only; dismissing the modal just closes it
+    onCancel?: () => void;
+    // Optional third choice next to confirm
+    secondaryLabel?: string;
+    onSecondary?: () => void;
   } | null;
   
   // Actions
@@ -52,35 +90,549 @@ interface AppState {
   setSelectedFilter: (filterId: string | null) => void;
   setSelectedTag: (tagId: string | null) => void;
   setEditingTask: (taskId: string | null) => void;
+  setFocusedTask: (taskId: string | null) => void;
+  setTaskSelection: (taskIds: string[], anchorId?: string | null) => void;
+  clearTaskSelection: () => void;
+  setSearchOpen: (open: boolean) => void;
   toggleShowCompleted: () => void;
   toggleDarkMode: () => void;
   setSidebarWidth: (width: number) => void;
+  setSubtaskSettings: (updates: Partial<SubtaskSettings>) => void;
+  setKanbanGroupBy: (groupBy: KanbanSettings['groupBy']) => void;
+  // A limit of 0 or less removes it
+  setKanbanWipLimit: (column: string, limit: number) => void;
+  setBackendType: (type: BackendType) => Promise<void>;
+  saveAirtableSettings: (settings: AirtableSettings | null) => Promise<void>;
+  refreshTaskOptions: (force?: boolean) => Promise<void>;
+  setStatusCategory: (status: string, category: StatusCategory) => Promise<void>;
   showToast: (message: string, type?: 'success' | 'error' | 'info' | 'warning') => void;
   hideToast: () => void;
-  showConfirm: (options: { title: string; message: string; type?: 'delete' | 'warning' | 'info'; onConfirm: () => void }) => void;
+  showConfirm: (options: {
+    title: string;
+    message: string;
+    type?: 'delete' | 'warning' | 'info';
+    confirmLabel?: string;
+    cancelLabel?: string;
+    onConfirm: () => void;
+    onCancel?: () => void;
+    secondaryLabel?: string;
+    onSecondary?: () => void;
+  }) => void;
   hideConfirm: () => void;
   confirmAction: () => void;
+  cancelAction: () => void;
+  secondaryAction: () => void;
   
   // Data Actions
   fetchAllData: () => Promise<void>;
   createTask: (task: Partial<Task>) => Promise<Task | null>;
-  updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  updateTask: (taskId: string, updates: Partial<Task>, options?: { historyLabel?: string }) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
   completeTask: (taskId: string) => Promise<void>;
+  updateTasks: (changes: TaskChange[], options?: { message?: string; historyLabel?: string }) => Promise<void>;
+  completeTasks: (taskIds: string[]) => Promise<void>;
+  // skipTrash deletes without a trash snapshot (undoing an add)
+  deleteTasks: (taskIds: string[], options?: { skipTrash?: boolean }) => Promise<void>;
+  
+  // Trash Actions
+  restoreFromTrash: (rootIds: string[]) => Promise<void>;
+  deleteFromTrash: (rootIds: string[]) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  setTrashRetentionDays: (days: number) => Promise<void>;
   
   // Project Actions
-  updateProject: (projectId: string, updates: Partial<Project>) => Promise<void>;
+  createProject: (project: Partial<Project>) => Promise<Project | null>;
+  updateProject: (projectId: string, updates: Partial<Project>, options?: { message?: string; historyLabel?: string }) => Promise<void>;
+  deleteProject: (projectId: string) => Promise<void>;
+  archiveProject: (projectId: string) => Promise<void>;
+  unarchiveProject: (projectId: string) => Promise<void>;
+  
+  // Tag Actions
+  createTag: (tag: Partial<Tag>) => Promise<Tag | null>;
+  updateTag: (tagId: string, updates: Partial<Tag>, options?: { message?: string; historyLabel?: string }) => Promise<void>;
+  deleteTag: (tagId: string) => Promise<void>;
+  // Re-point tasks from the source tags to the target, then delete the sources
+  mergeTags: (sourceIds: string[], targetId: string) => Promise<void>;
   
   // Section Actions
   createSection: (section: Partial<Section>) => Promise<Section | null>;
+  updateSections: (changes: SectionChange[], options?: { message?: string; historyLabel?: string }) => Promise<void>;
+  moveSection: (sectionId: string, projectId: string) => Promise<void>;
+  // Tasks in the section move to "No section" unless deleteTasks is set
+  deleteSection: (sectionId: string, options?: { deleteTasks?: boolean }) => Promise<void>;
+  
+  // History Actions
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
   
   // Filter Actions
   saveFilter: (filter: Filter) => Promise<void>;
   deleteFilter: (filterId: string) => Promise<void>;
   
   // Sync Actions
-  syncPendingChanges: () => Promise<void>;
+  syncPendingChanges: (options?: { background?: boolean }) => Promise<void>;
   setOnlineStatus: (online: boolean) => void;
+  retryDeadLetter: (itemId: number, payload?: Record<string, unknown>) => Promise<void>;
+  discardDeadLetter: (itemId: number) => Promise<void>;
+  
+  // Conflict Actions
+  resolveConflict: (conflictId: number, resolution: ConflictResolution) => Promise<void>;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// Combine both versions of a notes field, skipping one that already contains the other
+function mergeNotes(theirs: unknown, mine: unknown): string {
+  const a = typeof theirs === 'string' ? theirs.trim() : '';
+  const b = typeof mine === 'string' ? mine.trim() : '';
+  if (!a || b.includes(a)) return b;
+  if (!b || a.includes(b)) return a;
+  return `${a}\n\n${b}`;
+}
+
+// Exponential backoff with jitter, so many failed items don't retry in lockstep
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(SYNC_CONFIG.RETRY_MAX_DELAY, SYNC_CONFIG.RETRY_BASE_DELAY * 2 ** (attempts - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Send one queued change to Airtable. Returns the number of conflicts found.
+async function replaySyncItem(item: db.SyncQueueItem, idMap: Map<string, string>): Promise<number> {
+  switch (item.type) {
+    case 'CREATE':
+      if (item.table === 'tasks') {
+        const newTask = await getBackend().createTask(item.payload as Partial<Task>);
+        idMap.set(item.localId!, newTask.id);
+        // Move local record and everything referencing it to the real ID
+        await db.remapLocalId('tasks', item.localId!, newTask.id);
+      } else if (item.table === 'projects') {
+        const newProject = await getBackend().createProject(item.payload as Partial<Project>);
+        idMap.set(item.localId!, newProject.id);
+        await db.remapLocalId('projects', item.localId!, newProject.id);
+      } else if (item.table === 'tags') {
+        const newTag = await getBackend().createTag(item.payload as Partial<Tag>);
+        idMap.set(item.localId!, newTag.id);
+        await db.remapLocalId('tags', item.localId!, newTag.id);
+      } else if (item.table === 'sections') {
+        const newSection = await getBackend().createSection(item.payload as Partial<Section>);
+        idMap.set(item.localId!, newSection.id);
+        await db.remapLocalId('sections', item.localId!, newSection.id);
+      }
+      return 0;
+      
+    case 'UPDATE': {
+      // Sections and tags have no conflict check - only a few descriptive fields are edited
+      if (item.table === 'sections') {
+        await getBackend().updateSection(item.recordId, item.payload as Partial<Section>);
+        return 0;
+      }
+      if (item.table === 'tags') {
+        await getBackend().updateTag(item.recordId, item.payload as Partial<Tag>);
+        return 0;
+      }
+      
+      // Hold back fields that were also changed in Airtable since the edit
+      let payload = item.payload;
+      let conflictCount = 0;
+      if (item.baseValues) {
+        const server = item.table === 'tasks'
+          ? await getBackend().fetchTask(item.recordId)
+          : await getBackend().fetchProject(item.recordId);
+        const result = db.detectConflicts(item, server);
+        payload = result.payload;
+        if (result.conflicts.length > 0) {
+          await db.addConflicts(result.conflicts);
+          conflictCount = result.conflicts.length;
+        }
+      }
+      
+      if (Object.keys(payload).length > 0) {
+        if (item.table === 'tasks') {
+          await getBackend().updateTask(item.recordId, payload as Partial<Task>);
+        } else {
+          await getBackend().updateProject(item.recordId, payload as Partial<Project>);
+        }
+      }
+      return conflictCount;
+    }
+      
+    case 'DELETE':
+      if (item.table === 'tasks') {
+        await getBackend().deleteTask(item.recordId);
+      } else if (item.table === 'projects') {
+        await getBackend().deleteProject(item.recordId);
+      } else if (item.table === 'tags') {
+        await getBackend().deleteTag(item.recordId);
+      } else if (item.table === 'sections') {
+        await getBackend().deleteSection(item.recordId);
+      }
+      return 0;
+  }
+}
+
+// Send a run of same-type task changes using Airtable's batch endpoints.
+// Returns the number of conflicts found.
+async function replayTaskBatch(items: db.SyncQueueItem[], idMap: Map<string, string>): Promise<number> {
+  switch (items[0].type) {
+    case 'CREATE': {
+      const created = await getBackend().createTasks(items.map(item => item.payload as Partial<Task>));
+      for (let i = 0; i < items.length; i++) {
+        idMap.set(items[i].localId!, created[i].id);
+        await db.remapLocalId('tasks', items[i].localId!, created[i].id);
+      }
+      return 0;
+    }
+      
+    case 'UPDATE': {
+      // One lookup for every record that needs a conflict check
+      const toCheck = items.filter(item => item.baseValues).map(item => item.recordId);
+      const serverTasks = new Map((await getBackend().fetchTasksByIds(toCheck)).map(t => [t.id, t]));
+      
+      const changes: { id: string; updates: Partial<Task> }[] = [];
+      const conflicts: Omit<db.SyncConflict, 'id'>[] = [];
+      for (const item of items) {
+        const server = serverTasks.get(item.recordId);
+        const result = item.baseValues && server
+          ? db.detectConflicts(item, server)
+          : { payload: item.payload, conflicts: [] };
+        conflicts.push(...result.conflicts);
+        if (Object.keys(result.payload).length > 0) {
+          changes.push({ id: item.recordId, updates: result.payload as Partial<Task> });
+        }
+      }
+      
+      if (changes.length > 0) await getBackend().updateTasks(changes);
+      if (conflicts.length > 0) await db.addConflicts(conflicts);
+      return conflicts.length;
+    }
+      
+    case 'DELETE':
+      await getBackend().deleteTasks(items.map(item => item.recordId));
+      return 0;
+  }
+}
+
+// ============================================================================
+// UNDO HISTORY
+// ============================================================================
+
+type TaskChange = { id: string; updates: Partial<Task> };
+type SectionChange = { id: string; updates: Partial<Section> };
+
+// One reversible step. An entry stores the steps that undo an action and the steps that redo it.
+type HistoryOperation =
+  | { type: 'createTasks'; tasks: Task[] }
+  | { type: 'deleteTasks'; taskIds: string[]; skipTrash?: boolean }
+  | { type: 'updateTasks'; changes: TaskChange[] }
+  | { type: 'createProject'; project: Project }
+  | { type: 'deleteProject'; projectId: string }
+  | { type: 'updateProject'; projectId: string; updates: Partial<Project> }
+  | { type: 'createTag'; tag: Tag }
+  | { type: 'deleteTag'; tagId: string }
+  | { type: 'updateTag'; tagId: string; updates: Partial<Tag> }
+  | { type: 'createSection'; section: Section }
+  | { type: 'updateSections'; changes: SectionChange[] }
+  | { type: 'deleteSection'; sectionId: string };
+
+export interface HistoryEntry {
+  label: string;
+  undo: HistoryOperation[];
+  redo: HistoryOperation[];
+}
+
+const MAX_HISTORY = 50;
+
+// Set while undo/redo replays operations, so the actions they call don't record new entries
+let isApplyingHistory = false;
+
+// Current values of the fields about to change, to restore on undo
+function pickPrevious<T extends object>(record: T, updates: Partial<T>): Partial<T> {
+  const current = record as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(updates).map(field => [field, current[field] ?? null])) as Partial<T>;
+}
+
+// Restoring a deleted record may give it a new ID; point every reference at it
+function remapOperation(op: HistoryOperation, idMap: Map<string, string>): HistoryOperation {
+  const map = (id: string) => idMap.get(id) ?? id;
+  const mapRefs = <T extends object>(fields: T): T => {
+    const result = { ...fields } as Record<string, unknown>;
+    for (const field of ['parentTaskId', 'sectionId', 'projectId']) {
+      if (typeof result[field] === 'string') result[field] = map(result[field] as string);
+    }
+    if (Array.isArray(result.tagIds)) result.tagIds = result.tagIds.map(map);
+    return result as T;
+  };
+  
+  switch (op.type) {
+    case 'createTasks':
+      return { ...op, tasks: op.tasks.map(task => ({ ...mapRefs(task), id: map(task.id) })) };
+    case 'deleteTasks':
+      return { ...op, taskIds: op.taskIds.map(map) };
+    case 'updateTasks':
+      return { ...op, changes: op.changes.map(c => ({ id: map(c.id), updates: mapRefs(c.updates) })) };
+    case 'createProject':
+      return { ...op, project: { ...op.project, id: map(op.project.id) } };
+    case 'deleteProject':
+    case 'updateProject':
+      return { ...op, projectId: map(op.projectId) };
+    case 'createTag':
+      return { ...op, tag: { ...op.tag, id: map(op.tag.id) } };
+    case 'deleteTag':
+    case 'updateTag':
+      return { ...op, tagId: map(op.tagId) };
+    case 'createSection':
+      return { ...op, section: { ...mapRefs(op.section), id: map(op.section.id) } };
+    case 'updateSections':
+      return { ...op, changes: op.changes.map(c => ({ id: map(c.id), updates: mapRefs(c.updates) })) };
+    case 'deleteSection':
+      return { ...op, sectionId: map(op.sectionId) };
+  }
+}
+
+function remapEntry(entry: HistoryEntry, idMap: Map<string, string>): HistoryEntry {
+  if (idMap.size === 0) return entry;
+  return {
+    ...entry,
+    undo: entry.undo.map(op => remapOperation(op, idMap)),
+    redo: entry.redo.map(op => remapOperation(op, idMap)),
+  };
+}
+
+function remapHistory(idMap: Map<string, string>): void {
+  if (idMap.size === 0) return;
+  useStore.setState(state => ({
+    undoStack: state.undoStack.map(entry => remapEntry(entry, idMap)),
+    redoStack: state.redoStack.map(entry => remapEntry(entry, idMap)),
+  }));
+}
+
+/**
+ * Record an action on the undo stack and offer "Undo" on the toast it just showed
+ */
+function recordHistory(entry: HistoryEntry): void {
+  if (isApplyingHistory) return;
+  const { toast } = useStore.getState();
+  const canUndo = !!toast && toast.type !== 'error';
+  useStore.setState(state => ({
+    undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY),
+    redoStack: [],
+    toast: canUndo && state.toast ? { ...state.toast, canUndo } : state.toast,
+  }));
+  
+  // Leave a little longer to reach the Undo button
+  if (canUndo) {
+    if (toastTimer) clearTimeout(toastTimer);
+    toastTimer = setTimeout(() => useStore.getState().hideToast(), 5000);
+  }
+}
+
+// Bring back deleted tasks. A delete still waiting in the offline queue is cancelled so the
+// record keeps its ID; anything else is created again. Returns old -> new IDs.
+async function restoreTasks(tasks: Task[]): Promise<Map<string, string>> {
+  const { projects, tags, sections, tasks: currentTasks, isOnline } = useStore.getState();
+  const idMap = new Map<string, string>();
+  const restored: Task[] = [];
+  let remaining: Task[] = [];
+  
+  for (const task of tasks) {
+    if (await db.restoreTaskLocally(task)) restored.push(task);
+    else remaining.push(task);
+  }
+  
+  // Links to records that are gone by now are dropped rather than sent to the backend
+  const exists = (id: string | null, records: { id: string }[]) => !!id && records.some(r => r.id === id);
+  const toFields = (task: Task): Partial<Task> => {
+    const parentId = task.parentTaskId ? idMap.get(task.parentTaskId) ?? task.parentTaskId : null;
+    const copy: Partial<Task> = {
+      ...task,
+      projectId: exists(task.projectId, projects) ? task.projectId : null,
+      sectionId: exists(task.sectionId, sections) ? task.sectionId : null,
+      tagIds: task.tagIds.filter(id => exists(id, tags)),
+      parentTaskId: exists(parentId, [...currentTasks, ...restored]) ? parentId : null,
+    };
+    delete copy.id;
+    delete copy.subtaskIds;
+    return copy;
+  };
+  
+  // Parents first, so subtasks can point at their parent's new ID
+  while (remaining.length > 0) {
+    const pendingIds = new Set(remaining.map(t => t.id));
+    const layer = remaining.filter(t => !t.parentTaskId || !pendingIds.has(t.parentTaskId));
+    remaining = remaining.filter(t => !layer.includes(t));
+    
+    const fields = layer.map(toFields);
+    const created = isOnline
+      ? await getBackend().createTasks(fields)
+      : await Promise.all(fields.map(db.createTaskLocally));
+    layer.forEach((task, i) => idMap.set(task.id, created[i].id));
+    restored.push(...created);
+  }
+  
+  await db.removeFromTrash(tasks.map(t => t.id));
+  const trash = await db.getTrashItems();
+  useStore.setState(state => ({ tasks: [...state.tasks, ...restored], trash }));
+  return idMap;
+}
+
+// Drop trashed tasks older than the retention period
+async function purgeExpiredTrash(): Promise<void> {
+  const { trashRetentionDays } = useStore.getState();
+  if (trashRetentionDays > 0) {
+    const purged = await db.purgeTrash(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000);
+    if (purged > 0) console.log(`[Trash] Purged ${purged} expired task(s)`);
+  }
+  useStore.setState({ trash: await db.getTrashItems() });
+}
+
+// Complete tasks plus the given subtasks in one batch, adding any parents that
+// are left with nothing open when auto-complete is on
+async function completeWithSubtasks(taskIds: string[], subtaskIds: string[]): Promise<void> {
+  const { tasks, taskOptions, subtaskSettings, updateTasks } = useStore.getState();
+  const ids = [...taskIds, ...subtaskIds];
+  if (subtaskSettings.autoCompleteParent) {
+    // A recurring parent would roll forward instead, so it's left for the user
+    const parents = getParentsToAutoComplete(tasks, ids, t => isDoneStatus(taskOptions, t.status));
+    ids.push(...parents.filter(id => !tasks.find(t => t.id === id)?.recurrence));
+  }
+  
+  const completedDate = new Date().toISOString().split('T')[0];
+  const changes = tasks
+    .filter(t => ids.includes(t.id))
+    .map(task => ({
+      id: task.id,
+      updates: getNextOccurrence(task) ?? { status: getDoneStatus(taskOptions), completedDate },
+    }));
+  
+  const count = changes.length === 1 ? 'task' : `${changes.length} tasks`;
+  await updateTasks(changes, {
+    message: `${count.charAt(0).toUpperCase()}${count.slice(1)} completed`,
+    historyLabel: `Complete ${count}`,
+  });
+}
+
+// Run one step through the regular store actions. Returns IDs that changed.
+async function applyHistoryOperation(op: HistoryOperation): Promise<Map<string, string>> {
+  const state = useStore.getState();
+  switch (op.type) {
+    case 'createTasks':
+      return restoreTasks(op.tasks);
+    case 'deleteTasks':
+      await state.deleteTasks(op.taskIds, { skipTrash: op.skipTrash });
+      break;
+    case 'updateTasks':
+      await state.updateTasks(op.changes);
+      break;
+    case 'createProject': {
+      const created = await state.createProject(op.project);
+      if (created) return new Map([[op.project.id, created.id]]);
+      break;
+    }
+    case 'deleteProject':
+      await state.deleteProject(op.projectId);
+      break;
+    case 'updateProject':
+      await state.updateProject(op.projectId, op.updates);
+      break;
+    case 'createTag': {
+      const created = await state.createTag(op.tag);
+      if (created) return new Map([[op.tag.id, created.id]]);
+      break;
+    }
+    case 'deleteTag':
+      await state.deleteTag(op.tagId);
+      break;
+    case 'updateTag':
+      await state.updateTag(op.tagId, op.updates);
+      break;
+    case 'createSection': {
+      const created = await state.createSection(op.section);
+      if (created) return new Map([[op.section.id, created.id]]);
+      break;
+    }
+    case 'updateSections':
+      await state.updateSections(op.changes);
+      break;
+    case 'deleteSection':
+      await state.deleteSection(op.sectionId);
+      break;
+  }
+  return new Map();
+}
+
+// Apply the steps in order; each store action reports its own failure through an error toast.
+// On failure the returned entry keeps only the steps that haven't run, so a retry
+// doesn't repeat the ones that already went through.
+async function applyHistory(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<{ ok: boolean; entry: HistoryEntry }> {
+  let current = entry;
+  let step = 0;
+  const remaining = () => ({ ...current, [direction]: current[direction].slice(step) });
+  isApplyingHistory = true;
+  useStore.setState({ toast: null });
+  try {
+    for (; step < current[direction].length; step++) {
+      const idMap = await applyHistoryOperation(current[direction][step]);
+      current = remapEntry(current, idMap);
+      remapHistory(idMap);
+      if (useStore.getState().toast?.type === 'error') return { ok: false, entry: remaining() };
+    }
+    return { ok: true, entry: current };
+  } catch (error) {
+    console.error(`Failed to ${direction}:`, error);
+    return { ok: false, entry: remaining() };
+  } finally {
+    isApplyingHistory = false;
+  }
+}
+
+// Cached records belong to one backend/base - cleared whenever the data source changes
+const EMPTY_DATA = {
+  tasks: [],
+  projects: [],
+  tags: [],
+  sections: [],
+  conflicts: [],
+  deadLetters: [],
+  trash: [],
+};
+
+// Saved connection settings must be applied before the first Airtable request
+const airtableSettingsReady: Promise<AirtableSettings | null> = db.getAirtableSettings()
+  .then(settings => {
+    configureAirtable(settings);
+    return settings;
+  })
+  .catch((error) => {
+    console.error('[Store] Failed to load Airtable settings:', error);
+    return null;
+  });
+
+// Status categories are configured per base, so options are cached per base
+function getTaskOptionsScope(backendType: BackendType): string {
+  return backendType === 'airtable' ? getAirtableBaseId() : backendType;
+}
+
+let toastTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Background retry timer for failed sync queue items
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function scheduleBackgroundRetry(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  
+  const items = await db.getPendingSyncItems();
+  const retryTimes = items
+    .map(item => item.nextAttemptAt)
+    .filter((time): time is number => time !== undefined);
+  if (retryTimes.length === 0) return;
+  
+  const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    const { isOnline, isSyncing, syncPendingChanges } = useStore.getState();
+    if (isOnline && !isSyncing) syncPendingChanges({ background: true });
+  }, delay);
 }
 
 export const useStore = create<AppState>()(
@@ -92,6 +644,11 @@ export const useStore = create<AppState>()(
       tags: [],
       sections: [],
       filters: [],
+      localProjectColors: {},
+      conflicts: [],
+      deadLetters: [],
+      trash: [],
+      taskOptions: DEFAULT_TASK_OPTIONS,
       
       // Initial UI state
       currentView: 'today',
@@ -99,9 +656,18 @@ export const useStore = create<AppState>()(
       selectedFilterId: null,
       selectedTagId: null,
       editingTaskId: null,
+      focusedTaskId: null,
+      selectedTaskIds: [],
+      selectionAnchorId: null,
+      isSearchOpen: false,
       showCompleted: false,
       isDarkMode: true, // Default to dark mode
       sidebarWidth: 280,
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      subtaskSettings: DEFAULT_SUBTASK_SETTINGS,
+      kanbanSettings: DEFAULT_KANBAN_SETTINGS,
+      backendType: DEFAULT_BACKEND_TYPE,
+      airtableSettings: null,
       
       // Initial sync state
       isLoading: true,
@@ -109,17 +675,20 @@ export const useStore = create<AppState>()(
       lastSyncTime: null,
       isOnline: navigator.onLine,
       syncError: null,
+      requestQueue: getRequestQueueStatus(),
       
       // Toast
       toast: null,
+      undoStack: [],
+      redoStack: [],
       
       // Confirm modal
       confirmModal: null,
       
       // UI Actions
-      setCurrentView: (view) => set({ currentView: view }),
+      setCurrentView: (view) => set({ currentView: view, focusedTaskId: null, selectedTaskIds: [], selectionAnchorId: null }),
       setView: (view, entityId) => {
-        const updates: Partial<AppState> = { currentView: view };
+        const updates: Partial<AppState> = { currentView: view, focusedTaskId: null, selectedTaskIds: [], selectionAnchorId: null };
         if (view === 'project') updates.selectedProjectId = entityId || null;
         else if (view === 'filter') updates.selectedFilterId = entityId || null;
         else if (view === 'tag') updates.selectedTagId = entityId || null;
@@ -129,24 +698,104 @@ export const useStore = create<AppState>()(
       setSelectedFilter: (filterId) => set({ selectedFilterId: filterId, currentView: 'filter' }),
       setSelectedTag: (tagId) => set({ selectedTagId: tagId, currentView: 'tag' }),
       setEditingTask: (taskId) => set({ editingTaskId: taskId }),
+      setFocusedTask: (taskId) => set({ focusedTaskId: taskId }),
+      setTaskSelection: (taskIds, anchorId) => set((state) => ({
+        selectedTaskIds: taskIds,
+        selectionAnchorId: anchorId === undefined ? state.selectionAnchorId : anchorId,
+      })),
+      clearTaskSelection: () => set({ selectedTaskIds: [], selectionAnchorId: null }),
+      setSearchOpen: (open) => set({ isSearchOpen: open }),
       toggleShowCompleted: () => set((state) => ({ showCompleted: !state.showCompleted })),
       toggleDarkMode: () => set((state) => ({ isDarkMode: !state.isDarkMode })),
       setSidebarWidth: (width) => set({ sidebarWidth: width }),
+      setSubtaskSettings: (updates) => set(state => ({ subtaskSettings: { ...state.subtaskSettings, ...updates } })),
+      setKanbanGroupBy: (groupBy) => set(state => ({ kanbanSettings: { ...state.kanbanSettings, groupBy } })),
+      setKanbanWipLimit: (column, limit) => set(state => {
+        const wipLimits = { ...state.kanbanSettings.wipLimits };
+        if (limit > 0) wipLimits[column] = limit;
+        else delete wipLimits[column];
+        return { kanbanSettings: { ...state.kanbanSettings, wipLimits } };
+      }),
+      
+      // Switch storage backend - the local cache belongs to the old backend, so start fresh
+      setBackendType: async (type) => {
+        if (type === get().backendType) return;
+        
+        setBackend(createBackend(type));
+        await db.clearLocalCache();
+        set({ ...EMPTY_DATA, backendType: type });
+        await get().fetchAllData();
+      },
+      
+      // Connect to a different Airtable base/mapping (null restores the built-in defaults)
+      saveAirtableSettings: async (settings) => {
+        await db.saveAirtableSettings(settings);
+        configureAirtable(settings);
+        setBackend(createBackend('airtable'));
+        await db.clearLocalCache();
+        set({ ...EMPTY_DATA, airtableSettings: settings, backendType: 'airtable' });
+        await get().fetchAllData();
+      },
+      
+      // Load cached status/priority choices, re-reading the schema when stale
+      refreshTaskOptions: async (force = false) => {
+        const { backendType, isOnline } = get();
+        const scope = getTaskOptionsScope(backendType);
+        const cached = await db.getTaskOptions(scope);
+        set({ taskOptions: cached ?? DEFAULT_TASK_OPTIONS });
+        
+        const isStale = !cached?.fetchedAt || Date.now() - cached.fetchedAt > SYNC_CONFIG.SCHEMA_REFRESH_INTERVAL;
+        if (!isOnline || (!force && !isStale)) return;
+        
+        try {
+          const choices = await getBackend().fetchTaskFieldChoices();
+          // Fall back to defaults for a field without choices (e.g. not a single select)
+          const taskOptions = buildTaskOptions(
+            {
+              statuses: choices?.statuses.length ? choices.statuses : DEFAULT_TASK_OPTIONS.statuses.map(s => s.value),
+              priorities: choices?.priorities.length ? choices.priorities : DEFAULT_TASK_OPTIONS.priorities.map(p => p.value),
+            },
+            cached ?? DEFAULT_TASK_OPTIONS
+          );
+          await db.saveTaskOptions(scope, taskOptions);
+          set({ taskOptions });
+        } catch (error) {
+          // Not fatal - keep using cached or default choices
+          console.warn('[Store] Failed to load status/priority choices:', error);
+        }
+      },
+      
+      setStatusCategory: async (status, category) => {
+        const { backendType, taskOptions } = get();
+        const updated: TaskOptions = {
+          ...taskOptions,
+          statuses: taskOptions.statuses.map(s => (s.value === status ? { ...s, category } : s)),
+        };
+        set({ taskOptions: updated });
+        await db.saveTaskOptions(getTaskOptionsScope(backendType), updated);
+      },
       
       showToast: (message, type = 'success') => {
         set({ toast: { message, type } });
-        setTimeout(() => get().hideToast(), 3000);
+        // A newer toast gets its own full time on screen
+        if (toastTimer) clearTimeout(toastTimer);
+        toastTimer = setTimeout(() => get().hideToast(), 3000);
       },
       hideToast: () => set({ toast: null }),
       
-      showConfirm: ({ title, message, type = 'warning', onConfirm }) => {
+      showConfirm: ({ title, message, type = 'warning', confirmLabel, cancelLabel, onConfirm, onCancel, secondaryLabel, onSecondary }) => {
         set({
           confirmModal: {
             isOpen: true,
             title,
             message,
             type,
+            confirmLabel,
+            cancelLabel,
             onConfirm,
+            onCancel,
+            secondaryLabel,
+            onSecondary,
           }
         });
       },
@@ -158,6 +807,16 @@ export const useStore = create<AppState>()(
         }
         hideConfirm();
       },
+      cancelAction: () => {
+        const { confirmModal, hideConfirm } = get();
+        confirmModal?.onCancel?.();
+        hideConfirm();
+      },
+      secondaryAction: () => {
+        const { confirmModal, hideConfirm } = get();
+        confirmModal?.onSecondary?.();
+        hideConfirm();
+      },
       
       // Fetch all data from Airtable and save to local DB
       fetchAllData: async () => {
@@ -165,9 +824,49 @@ export const useStore = create<AppState>()(
         set({ isLoading: true, syncError: null });
         
         try {
-          if (isOnline) {
-            // Fetch from Airtable
-            const data = await api.fetchAllData();
+          await airtableSettingsReady;
+          const lastSync = await db.getLastSyncTime();
+          
+          if (isOnline && lastSync) {
+            // Delta sync: only fetch records modified since the last sync
+            const syncStartedAt = Date.now();
+            const changes = await getBackend().fetchChangedData(lastSync - SYNC_CONFIG.CLOCK_SKEW_MARGIN);
+            
+            console.log('[Store] Fetched changes:', {
+              tasks: changes.tasks.length,
+              projects: changes.projects.length,
+              tags: changes.tags.length,
+              sections: changes.sections.length,
+            });
+            
+            await db.mergeChangesToLocal(changes, syncStartedAt);
+            
+            // Deleted records don't show up in a delta, so periodically sweep IDs
+            const lastSweep = await db.getLastDeletionSweepTime();
+            if (!lastSweep || syncStartedAt - lastSweep > SYNC_CONFIG.DELETION_SWEEP_INTERVAL) {
+              const ids = await getBackend().fetchAllRecordIds();
+              await db.removeDeletedFromLocal(ids, syncStartedAt);
+            }
+            
+            const [tasks, projects, tags, sections] = await Promise.all([
+              db.db.tasks.toArray(),
+              db.db.projects.toArray(),
+              db.db.tags.toArray(),
+              db.db.sections.toArray(),
+            ]);
+            
+            set({
+              tasks,
+              projects,
+              tags,
+              sections,
+              lastSyncTime: syncStartedAt,
+              isLoading: false,
+            });
+          } else if (isOnline) {
+            // First sync: fetch everything from Airtable
+            const syncStartedAt = Date.now();
+            const data = await getBackend().fetchAllData();
             
             console.log('[Store] Fetched data:', {
               tasks: data.tasks.length,
@@ -175,10 +874,9 @@ export const useStore = create<AppState>()(
               tags: data.tags.length,
               sections: data.sections.length,
             });
-            console.log('[Store] Projects:', data.projects);
             
             // Save to local DB
-            await db.saveAllToLocal(data);
+            await db.saveAllToLocal(data, syncStartedAt);
             
             // Update state
             set({
@@ -186,7 +884,7 @@ export const useStore = create<AppState>()(
               projects: data.projects,
               tags: data.tags,
               sections: data.sections,
-              lastSyncTime: Date.now(),
+              lastSyncTime: syncStartedAt,
               isLoading: false,
             });
             
@@ -200,8 +898,6 @@ export const useStore = create<AppState>()(
               db.db.sections.toArray(),
             ]);
             
-            const lastSync = await db.getLastSyncTime();
-            
             set({
               tasks,
               projects,
@@ -214,10 +910,16 @@ export const useStore = create<AppState>()(
             showToast('Working offline - using cached data', 'info');
           }
           
-          // Load filters from local DB
-          const filters = await db.getAllFilters();
-          set({ filters });
+          // Load filters, device project colors, unresolved conflicts and failed sync items from local DB
+          const [filters, localProjectColors, conflicts, deadLetters] = await Promise.all([
+            db.getAllFilters(),
+            db.getLocalProjectColors(),
+            db.getAllConflicts(),
+            db.getDeadLetterItems(),
+          ]);
+          set({ filters, localProjectColors, conflicts, deadLetters });
           
+          await get().refreshTaskOptions();
         } catch (error) {
           console.error('Failed to fetch data:', error);
           set({
@@ -245,14 +947,16 @@ export const useStore = create<AppState>()(
       
       // Create task
       createTask: async (taskData) => {
-        const { isOnline, showToast, tasks } = get();
+        const { isOnline, showToast, tasks, taskOptions } = get();
+        // New tasks start in the base's own default status
+        if (!taskData.status) taskData = { ...taskData, status: getDefaultStatus(taskOptions) };
         
         try {
           let newTask: Task;
           
           if (isOnline) {
             // Create directly in Airtable
-            newTask = await api.createTask(taskData);
+            newTask = await getBackend().createTask(taskData);
           } else {
             // Create locally (will sync later)
             newTask = await db.createTaskLocally(taskData);
@@ -261,6 +965,11 @@ export const useStore = create<AppState>()(
           // Update state
           set({ tasks: [...tasks, newTask] });
           showToast(`Task "${newTask.name}" created`);
+          recordHistory({
+            label: 'Add task',
+            undo: [{ type: 'deleteTasks', taskIds: [newTask.id], skipTrash: true }],
+            redo: [{ type: 'createTasks', tasks: [newTask] }],
+          });
           
           return newTask;
         } catch (error) {
@@ -271,8 +980,16 @@ export const useStore = create<AppState>()(
       },
       
       // Update task
-      updateTask: async (taskId, updates) => {
+      updateTask: async (taskId, updates, options) => {
         const { isOnline, showToast, tasks } = get();
+        const task = tasks.find(t => t.id === taskId);
+        
+        // Moving a parent takes its subtasks along, as one batch
+        const changes = isApplyingHistory ? [] : withMovedSubtasks(tasks, [{ id: taskId, updates }]);
+        if (changes.length > 1) {
+          await get().updateTasks(changes, { message: 'Task updated', historyLabel: options?.historyLabel ?? 'Edit task' });
+          return;
+        }
         
         // Optimistic update
         const updatedTasks = tasks.map(t =>
@@ -282,12 +999,19 @@ export const useStore = create<AppState>()(
         
         try {
           if (isOnline) {
-            await api.updateTask(taskId, updates);
+            await getBackend().updateTask(taskId, updates);
           } else {
             await db.updateTaskLocally(taskId, updates);
           }
           
           showToast('Task updated');
+          if (task) {
+            recordHistory({
+              label: options?.historyLabel ?? 'Edit task',
+              undo: [{ type: 'updateTasks', changes: [{ id: taskId, updates: pickPrevious(task, updates) }] }],
+              redo: [{ type: 'updateTasks', changes: [{ id: taskId, updates }] }],
+            });
+          }
         } catch (error) {
           console.error('Failed to update task:', error);
           // Revert optimistic update
@@ -296,41 +1020,244 @@ export const useStore = create<AppState>()(
         }
       },
       
-      // Delete task
+      // Delete task (and its subtasks) into the trash
       deleteTask: async (taskId) => {
+        await get().deleteTasks([taskId]);
+      },
+      
+      // Complete task
+      completeTask: async (taskId) => {
+        const { updateTask, completeTasks, tasks, showToast } = get();
+        const task = tasks.find(t => t.id === taskId);
+        
+        // Recurring tasks stay open and roll forward to the next occurrence
+        const next = task ? getNextOccurrence(task) : null;
+        if (next) {
+          await updateTask(taskId, next, { historyLabel: 'Complete task' });
+          // updateTask reports its own failure
+          const nextDate = next.dueDate || next.startDate;
+          if (nextDate && get().toast?.type !== 'error') showToast(`Next occurrence: ${formatDate(nextDate)}`);
+          return;
+        }
+        
+        // Subtasks and parents may complete along with it
+        await completeTasks([taskId]);
+      },
+      
+      // Update many tasks as one batch (bulk actions)
+      updateTasks: async (changes, options) => {
         const { isOnline, showToast, tasks } = get();
+        if (changes.length === 0) return;
+        
+        // Subtasks follow a parent moved to another project or section.
+        // Undo/redo already lists every task it touches.
+        const allChanges = isApplyingHistory ? changes : withMovedSubtasks(tasks, changes);
         
         // Optimistic update
-        const filteredTasks = tasks.filter(t => t.id !== taskId);
-        set({ tasks: filteredTasks });
+        const updatesById = new Map(allChanges.map(c => [c.id, c.updates]));
+        set({ tasks: tasks.map(t => (updatesById.has(t.id) ? { ...t, ...updatesById.get(t.id) } : t)) });
         
         try {
           if (isOnline) {
-            await api.deleteTask(taskId);
+            await getBackend().updateTasks(allChanges);
           } else {
-            await db.deleteTaskLocally(taskId);
+            await db.updateTasksLocally(allChanges);
           }
           
-          showToast('Task deleted');
+          const count = `${changes.length} ${changes.length === 1 ? 'task' : 'tasks'}`;
+          showToast(options?.message ?? `${count} updated`);
+          const previous = allChanges.flatMap(({ id, updates }) => {
+            const task = tasks.find(t => t.id === id);
+            return task ? [{ id, updates: pickPrevious(task, updates) }] : [];
+          });
+          recordHistory({
+            label: options?.historyLabel ?? `Edit ${count}`,
+            undo: [{ type: 'updateTasks', changes: previous }],
+            redo: [{ type: 'updateTasks', changes: allChanges }],
+          });
         } catch (error) {
-          console.error('Failed to delete task:', error);
+          console.error('Failed to update tasks:', error);
           // Revert optimistic update
           set({ tasks });
-          showToast('Failed to delete task', 'error');
+          showToast('Failed to update tasks', 'error');
         }
       },
       
-      // Complete task
-      completeTask: async (taskId) => {
-        const { updateTask } = get();
-        await updateTask(taskId, {
-          status: '✅ Done',
-          completedDate: new Date().toISOString().split('T')[0],
+      // Complete many tasks; recurring ones roll forward like completeTask.
+      // Open subtasks are completed too, or left open, per the subtask settings.
+      completeTasks: async (taskIds) => {
+        const { tasks, taskOptions, subtaskSettings, showConfirm } = get();
+        const openSubtasks = withDescendants(tasks, taskIds)
+          .filter(t => !taskIds.includes(t.id) && !isDoneStatus(taskOptions, t.status))
+          .map(t => t.id);
+        
+        if (openSubtasks.length === 0 || subtaskSettings.completeSubtasks !== 'ask') {
+          await completeWithSubtasks(taskIds, subtaskSettings.completeSubtasks === 'always' ? openSubtasks : []);
+          return;
+        }
+        
+        const task = taskIds.length === 1 ? tasks.find(t => t.id === taskIds[0]) : null;
+        const count = `${openSubtasks.length} open ${openSubtasks.length === 1 ? 'subtask' : 'subtasks'}`;
+        showConfirm({
+          title: 'Complete subtasks?',
+          message: task ? `"${task.name}" has ${count}. Complete them too?` : `The selected tasks have ${count}. Complete them too?`,
+          type: 'info',
+          confirmLabel: 'Complete all',
+          cancelLabel: task ? 'Only this task' : 'Only selected',
+          onConfirm: () => completeWithSubtasks(taskIds, openSubtasks),
+          onCancel: () => completeWithSubtasks(taskIds, []),
         });
       },
       
+      // Delete tasks as one batch. Subtasks go with their parent, and everything
+      // removed is snapshotted into the trash so it can be restored.
+      deleteTasks: async (taskIds, options) => {
+        const { isOnline, showToast, tasks, subtaskSettings } = get();
+        const promote = subtaskSettings.deleteSubtasks === 'promote';
+        const removed = promote ? tasks.filter(t => taskIds.includes(t.id)) : withDescendants(tasks, taskIds);
+        if (removed.length === 0) return;
+        const removedIds = removed.map(t => t.id);
+        
+        // Kept subtasks move up to the nearest ancestor that isn't being deleted
+        const promoted: TaskChange[] = tasks
+          .filter(t => t.parentTaskId && removedIds.includes(t.parentTaskId) && !removedIds.includes(t.id))
+          .map(t => {
+            let parentId = t.parentTaskId;
+            while (parentId && removedIds.includes(parentId)) {
+              parentId = tasks.find(p => p.id === parentId)?.parentTaskId ?? null;
+            }
+            return { id: t.id, updates: { parentTaskId: parentId } };
+          });
+        
+        // Optimistic update
+        const promotedById = new Map(promoted.map(c => [c.id, c.updates]));
+        set({
+          tasks: tasks
+            .filter(t => !removedIds.includes(t.id))
+            .map(t => (promotedById.has(t.id) ? { ...t, ...promotedById.get(t.id) } : t)),
+        });
+        
+        try {
+          if (isOnline) {
+            if (promoted.length > 0) await getBackend().updateTasks(promoted);
+            await getBackend().deleteTasks(removedIds);
+            await db.db.tasks.bulkDelete(removedIds);
+          } else {
+            if (promoted.length > 0) await db.updateTasksLocally(promoted);
+            await db.deleteTasksLocally(removedIds);
+          }
+          
+          if (!options?.skipTrash) {
+            // Group each subtask under the top-most task deleted with it
+            const removedById = new Map(removed.map(t => [t.id, t]));
+            const deletedAt = Date.now();
+            await db.addToTrash(removed.map(task => {
+              let root = task;
+              while (root.parentTaskId && removedById.has(root.parentTaskId)) root = removedById.get(root.parentTaskId)!;
+              return { id: task.id, task, rootId: root.id, deletedAt };
+            }));
+            set({ trash: await db.getTrashItems() });
+          }
+          
+          const count = taskIds.length === 1 ? 'task' : `${taskIds.length} tasks`;
+          showToast(`${count.charAt(0).toUpperCase()}${count.slice(1)} ${options?.skipTrash ? 'deleted' : 'moved to trash'}`);
+          const relinked = promoted.map(({ id }) => ({
+            id,
+            updates: { parentTaskId: tasks.find(t => t.id === id)?.parentTaskId ?? null },
+          }));
+          recordHistory({
+            label: `Delete ${count}`,
+            undo: [
+              { type: 'createTasks', tasks: removed },
+              ...(relinked.length > 0 ? [{ type: 'updateTasks' as const, changes: relinked }] : []),
+            ],
+            redo: [{ type: 'deleteTasks', taskIds, skipTrash: options?.skipTrash }],
+          });
+        } catch (error) {
+          console.error('Failed to delete tasks:', error);
+          // Revert optimistic update
+          set({ tasks });
+          showToast('Failed to delete tasks', 'error');
+        }
+      },
+      
+      // Restore trashed tasks along with the subtasks deleted with them
+      restoreFromTrash: async (rootIds) => {
+        const { trash, showToast } = get();
+        const items = trash.filter(item => rootIds.includes(item.rootId) || rootIds.includes(item.id));
+        if (items.length === 0) return;
+        
+        try {
+          const snapshots = items.map(item => item.task);
+          const idMap = await restoreTasks(snapshots);
+          
+          const count = rootIds.length === 1 ? 'task' : `${rootIds.length} tasks`;
+          showToast(`${count.charAt(0).toUpperCase()}${count.slice(1)} restored`);
+          recordHistory(remapEntry({
+            label: `Restore ${count}`,
+            undo: [{ type: 'deleteTasks', taskIds: rootIds }],
+            redo: [{ type: 'createTasks', tasks: snapshots }],
+          }, idMap));
+        } catch (error) {
+          console.error('Failed to restore tasks:', error);
+          showToast('Failed to restore tasks', 'error');
+        }
+      },
+      
+      // Permanently remove trashed tasks (and the subtasks deleted with them)
+      deleteFromTrash: async (rootIds) => {
+        const { trash, showToast } = get();
+        const ids = trash.filter(item => rootIds.includes(item.rootId)).map(item => item.id);
+        await db.removeFromTrash(ids);
+        set({ trash: await db.getTrashItems() });
+        showToast(rootIds.length === 1 ? 'Task deleted permanently' : `${rootIds.length} tasks deleted permanently`);
+      },
+      
+      emptyTrash: async () => {
+        const { trash, showToast } = get();
+        await db.removeFromTrash(trash.map(item => item.id));
+        set({ trash: [] });
+        showToast('Trash emptied');
+      },
+      
+      setTrashRetentionDays: async (days) => {
+        set({ trashRetentionDays: days });
+        await purgeExpiredTrash();
+      },
+      
+      // Create project
+      createProject: async (projectData) => {
+        const { isOnline, showToast } = get();
+        const fields = { status: ACTIVE_PROJECT_STATUS, ...projectData };
+        
+        try {
+          let newProject: Project;
+          
+          if (isOnline) {
+            newProject = await getBackend().createProject(fields);
+          } else {
+            // Create locally (will sync later)
+            newProject = await db.createProjectLocally(fields);
+          }
+          
+          set(state => ({ projects: [...state.projects, newProject] }));
+          showToast(`Project "${newProject.name}" created`);
+          recordHistory({
+            label: 'Add project',
+            undo: [{ type: 'deleteProject', projectId: newProject.id }],
+            redo: [{ type: 'createProject', project: newProject }],
+          });
+          
+          return newProject;
+        } catch (error) {
+          console.error('Failed to create project:', error);
+          showToast('Failed to create project', 'error');
+          return null;
+        }
+      },
+      
       // Update project
-      updateProject: async (projectId, updates) => {
+      updateProject: async (projectId, updates, options) => {
         const { isOnline, showToast, projects } = get();
         
         console.log('[Store] updateProject called:', { projectId, updates });
@@ -343,13 +1270,26 @@ export const useStore = create<AppState>()(
         
         try {
           if (isOnline) {
-            await api.updateProject(projectId, updates);
+            await getBackend().updateProject(projectId, updates);
+            showToast(options?.message ?? 'Project updated');
           } else {
-            // TODO: Queue for sync when back online
+            await db.updateProjectLocally(projectId, updates);
             showToast('Changes saved locally - will sync when online', 'info');
           }
           
-          showToast('Project updated');
+          // Also kept on this device, for bases without a color field
+          if (updates.color !== undefined) {
+            set({ localProjectColors: await db.saveLocalProjectColor(projectId, updates.color) });
+          }
+          
+          const project = projects.find(p => p.id === projectId);
+          if (project) {
+            recordHistory({
+              label: options?.historyLabel ?? 'Edit project',
+              undo: [{ type: 'updateProject', projectId, updates: pickPrevious(project, updates) }],
+              redo: [{ type: 'updateProject', projectId, updates }],
+            });
+          }
         } catch (error) {
           console.error('Failed to update project:', error);
           // Revert optimistic update
@@ -359,6 +1299,237 @@ export const useStore = create<AppState>()(
         }
       },
       
+      // Delete project along with its sections. Its tasks move to the Inbox.
+      deleteProject: async (projectId) => {
+        const { isOnline, showToast, projects, sections, tasks, selectedProjectId, currentView } = get();
+        const project = projects.find(p => p.id === projectId);
+        if (!project) return;
+        
+        const projectSections = sections.filter(s => s.projectId === projectId);
+        const projectTasks = tasks.filter(t => t.projectId === projectId);
+        const moved: TaskChange[] = projectTasks.map(t => ({ id: t.id, updates: { projectId: null, sectionId: null } }));
+        
+        // Optimistic update
+        set({
+          projects: projects.filter(p => p.id !== projectId),
+          sections: sections.filter(s => s.projectId !== projectId),
+          tasks: tasks.map(t => (t.projectId === projectId ? { ...t, projectId: null, sectionId: null } : t)),
+          ...(currentView === 'project' && selectedProjectId === projectId
+            ? { currentView: 'inbox' as const, selectedProjectId: null }
+            : {}),
+        });
+        
+        try {
+          if (isOnline) {
+            if (moved.length > 0) await getBackend().updateTasks(moved);
+            for (const section of projectSections) {
+              await getBackend().deleteSection(section.id);
+            }
+            await getBackend().deleteProject(projectId);
+            await db.db.sections.bulkDelete(projectSections.map(s => s.id));
+            await db.db.projects.delete(projectId);
+          } else {
+            if (moved.length > 0) await db.updateTasksLocally(moved);
+            for (const section of projectSections) {
+              await db.deleteSectionLocally(section.id);
+            }
+            await db.deleteProjectLocally(projectId);
+          }
+          
+          showToast(`Project "${project.name}" deleted`);
+          recordHistory({
+            label: 'Delete project',
+            undo: [
+              { type: 'createProject', project },
+              ...projectSections.map(section => ({ type: 'createSection' as const, section })),
+              ...(projectTasks.length > 0
+                ? [{
+                    type: 'updateTasks' as const,
+                    changes: projectTasks.map(t => ({ id: t.id, updates: { projectId, sectionId: t.sectionId } })),
+                  }]
+                : []),
+            ],
+            redo: [{ type: 'deleteProject', projectId }],
+          });
+        } catch (error) {
+          console.error('Failed to delete project:', error);
+          // Revert optimistic update
+          set({ projects, sections, tasks });
+          showToast('Failed to delete project', 'error');
+        }
+      },
+      
+      // Archived projects and their tasks drop out of the active views
+      archiveProject: async (projectId) => {
+        await get().updateProject(projectId, { status: ARCHIVED_PROJECT_STATUS }, {
+          message: 'Project archived',
+          historyLabel: 'Archive project',
+        });
+      },
+      
+      unarchiveProject: async (projectId) => {
+        await get().updateProject(projectId, { status: ACTIVE_PROJECT_STATUS }, {
+          message: 'Project restored',
+          historyLabel: 'Restore project',
+        });
+      },
+      
+      // Create tag
+      createTag: async (tagData) => {
+        const { isOnline, showToast } = get();
+
+        try {
+          const newTag = isOnline
+            ? await getBackend().createTag(tagData)
+            : await db.createTagLocally(tagData);
+
+          set(state => ({ tags: [...state.tags, newTag] }));
+          showToast(`Tag "${newTag.name}" created`);
+          recordHistory({
+            label: 'Add tag',
+            undo: [{ type: 'deleteTag', tagId: newTag.id }],
+            redo: [{ type: 'createTag', tag: newTag }],
+          });
+
+          return newTag;
+        } catch (error) {
+          console.error('Failed to create tag:', error);
+          showToast('Failed to create tag', 'error');
+          return null;
+        }
+      },
+
+      // Rename a tag or change its type or description
+      updateTag: async (tagId, updates, options) => {
+        const { isOnline, showToast, tags } = get();
+
+        // Optimistic update
+        set({ tags: tags.map(t => (t.id === tagId ? { ...t, ...updates } : t)) });
+
+        try {
+          if (isOnline) {
+            await getBackend().updateTag(tagId, updates);
+          } else {
+            await db.updateTagLocally(tagId, updates);
+          }
+
+          showToast(options?.message ?? 'Tag updated');
+          const tag = tags.find(t => t.id === tagId);
+          if (tag) {
+            recordHistory({
+              label: options?.historyLabel ?? 'Edit tag',
+              undo: [{ type: 'updateTag', tagId, updates: pickPrevious(tag, updates) }],
+              redo: [{ type: 'updateTag', tagId, updates }],
+            });
+          }
+        } catch (error) {
+          console.error('Failed to update tag:', error);
+          // Revert optimistic update
+          set({ tags });
+          showToast('Failed to update tag', 'error');
+        }
+      },
+
+      // Delete tag. The backend unlinks it from its tasks.
+      deleteTag: async (tagId) => {
+        const { isOnline, showToast, tags, tasks } = get();
+        const tag = tags.find(t => t.id === tagId);
+        if (!tag) return;
+
+        const taggedTasks = tasks.filter(t => t.tagIds.includes(tagId));
+
+        // Optimistic update
+        set({
+          tags: tags.filter(t => t.id !== tagId),
+          tasks: tasks.map(t => (t.tagIds.includes(tagId) ? { ...t, tagIds: t.tagIds.filter(id => id !== tagId) } : t)),
+        });
+
+        try {
+          if (isOnline) {
+            await getBackend().deleteTag(tagId);
+            await db.db.tags.delete(tagId);
+          } else {
+            await db.deleteTagLocally(tagId);
+          }
+
+          showToast(`Tag "${tag.name}" deleted`);
+          recordHistory({
+            label: 'Delete tag',
+            undo: [
+              { type: 'createTag', tag },
+              ...(taggedTasks.length > 0
+                ? [{ type: 'updateTasks' as const, changes: taggedTasks.map(t => ({ id: t.id, updates: { tagIds: t.tagIds } })) }]
+                : []),
+            ],
+            redo: [{ type: 'deleteTag', tagId }],
+          });
+        } catch (error) {
+          console.error('Failed to delete tag:', error);
+          // Revert optimistic update
+          set({ tags, tasks });
+          showToast('Failed to delete tag', 'error');
+        }
+      },
+
+      // Merge tags into one. Every affected task is re-pointed in a single batch
+      // before the merged tags are deleted, so no task loses a tag midway.
+      mergeTags: async (sourceIds, targetId) => {
+        const { isOnline, showToast, tags, tasks } = get();
+        const target = tags.find(t => t.id === targetId);
+        const merged = tags.filter(t => sourceIds.includes(t.id) && t.id !== targetId);
+        if (!target || merged.length === 0) return;
+
+        const mergedIds = new Set(merged.map(t => t.id));
+        const affected = tasks.filter(t => t.tagIds.some(id => mergedIds.has(id)));
+        const changes: TaskChange[] = affected.map(t => ({
+          id: t.id,
+          updates: { tagIds: [...new Set(t.tagIds.map(id => (mergedIds.has(id) ? targetId : id)))] },
+        }));
+
+        // Optimistic update
+        const updatesById = new Map(changes.map(c => [c.id, c.updates]));
+        set({
+          tags: tags.filter(t => !mergedIds.has(t.id)),
+          tasks: tasks.map(t => (updatesById.has(t.id) ? { ...t, ...updatesById.get(t.id) } : t)),
+        });
+
+        try {
+          if (isOnline) {
+            if (changes.length > 0) await getBackend().updateTasks(changes);
+            for (const tag of merged) {
+              await getBackend().deleteTag(tag.id);
+            }
+            await db.db.tags.bulkDelete([...mergedIds]);
+          } else {
+            if (changes.length > 0) await db.updateTasksLocally(changes);
+            for (const tag of merged) {
+              await db.deleteTagLocally(tag.id);
+            }
+          }
+
+          const count = merged.length === 1 ? `"${merged[0].name}"` : `${merged.length} tags`;
+          showToast(`Merged ${count} into "${target.name}"`);
+          recordHistory({
+            label: 'Merge tags',
+            undo: [
+              ...merged.map(tag => ({ type: 'createTag' as const, tag })),
+              ...(affected.length > 0
+                ? [{ type: 'updateTasks' as const, changes: affected.map(t => ({ id: t.id, updates: { tagIds: t.tagIds } })) }]
+                : []),
+            ],
+            redo: [
+              ...(changes.length > 0 ? [{ type: 'updateTasks' as const, changes }] : []),
+              ...merged.map(tag => ({ type: 'deleteTag' as const, tagId: tag.id })),
+            ],
+          });
+        } catch (error) {
+          console.error('Failed to merge tags:', error);
+          // Revert optimistic update
+          set({ tags, tasks });
+          showToast('Failed to merge tags', 'error');
+        }
+      },
+
       // Create section
       createSection: async (sectionData) => {
         const { isOnline, showToast, sections } = get();
@@ -367,15 +1538,19 @@ export const useStore = create<AppState>()(
           let newSection: Section;
           
           if (isOnline) {
-            newSection = await api.createSection(sectionData);
+            newSection = await getBackend().createSection(sectionData);
           } else {
-            // TODO: Create section locally
-            showToast('Cannot create sections while offline', 'error');
-            return null;
+            // Create locally (will sync later)
+            newSection = await db.createSectionLocally(sectionData);
           }
           
           set({ sections: [...sections, newSection] });
           showToast(`Section "${newSection.name}" created`);
+          recordHistory({
+            label: 'Add section',
+            undo: [{ type: 'deleteSection', sectionId: newSection.id }],
+            redo: [{ type: 'createSection', section: newSection }],
+          });
           
           return newSection;
         } catch (error) {
@@ -385,6 +1560,188 @@ export const useStore = create<AppState>()(
         }
       },
       
+      // Rename, recolor or reorder sections
+      updateSections: async (changes, options) => {
+        const { isOnline, showToast, sections } = get();
+        if (changes.length === 0) return;
+        
+        // Optimistic update
+        const updatesById = new Map(changes.map(c => [c.id, c.updates]));
+        set({ sections: sections.map(s => (updatesById.has(s.id) ? { ...s, ...updatesById.get(s.id) } : s)) });
+        
+        try {
+          if (isOnline) {
+            for (const { id, updates } of changes) {
+              await getBackend().updateSection(id, updates);
+            }
+          } else {
+            await db.updateSectionsLocally(changes);
+          }
+          
+          showToast(options?.message ?? 'Section updated');
+          const previous = changes.flatMap(({ id, updates }) => {
+            const section = sections.find(s => s.id === id);
+            return section ? [{ id, updates: pickPrevious(section, updates) }] : [];
+          });
+          recordHistory({
+            label: options?.historyLabel ?? 'Edit section',
+            undo: [{ type: 'updateSections', changes: previous }],
+            redo: [{ type: 'updateSections', changes }],
+          });
+        } catch (error) {
+          console.error('Failed to update sections:', error);
+          // Revert optimistic update
+          set({ sections });
+          showToast('Failed to update section', 'error');
+        }
+      },
+      
+      // Move a section and its tasks to the end of another project
+      moveSection: async (sectionId, projectId) => {
+        const { isOnline, showToast, sections, tasks, projects } = get();
+        const section = sections.find(s => s.id === sectionId);
+        if (!section || section.projectId === projectId) return;
+        
+        const targetSections = sections.filter(s => s.projectId === projectId);
+        const sectionUpdates: Partial<Section> = {
+          projectId,
+          order: targetSections.length > 0 ? Math.max(...targetSections.map(s => s.order)) + 1 : 1,
+        };
+        const taskChanges = withMovedSubtasks(tasks, tasks
+          .filter(t => t.sectionId === sectionId)
+          .map(t => ({ id: t.id, updates: { projectId } })));
+        
+        // Optimistic update
+        const taskUpdatesById = new Map(taskChanges.map(c => [c.id, c.updates]));
+        set({
+          sections: sections.map(s => (s.id === sectionId ? { ...s, ...sectionUpdates } : s)),
+          tasks: tasks.map(t => (taskUpdatesById.has(t.id) ? { ...t, ...taskUpdatesById.get(t.id) } : t)),
+        });
+        
+        try {
+          if (isOnline) {
+            await getBackend().updateSection(sectionId, sectionUpdates);
+            if (taskChanges.length > 0) await getBackend().updateTasks(taskChanges);
+          } else {
+            await db.updateSectionsLocally([{ id: sectionId, updates: sectionUpdates }]);
+            if (taskChanges.length > 0) await db.updateTasksLocally(taskChanges);
+          }
+          
+          const project = projects.find(p => p.id === projectId);
+          showToast(`Section moved to "${project?.name ?? 'project'}"`);
+          const previousTasks = taskChanges.flatMap(({ id, updates }) => {
+            const task = tasks.find(t => t.id === id);
+            return task ? [{ id, updates: pickPrevious(task, updates) }] : [];
+          });
+          recordHistory({
+            label: 'Move section',
+            undo: [
+              { type: 'updateSections', changes: [{ id: sectionId, updates: pickPrevious(section, sectionUpdates) }] },
+              ...(previousTasks.length > 0 ? [{ type: 'updateTasks' as const, changes: previousTasks }] : []),
+            ],
+            redo: [
+              { type: 'updateSections', changes: [{ id: sectionId, updates: sectionUpdates }] },
+              ...(taskChanges.length > 0 ? [{ type: 'updateTasks' as const, changes: taskChanges }] : []),
+            ],
+          });
+        } catch (error) {
+          console.error('Failed to move section:', error);
+          // Revert optimistic update
+          set({ sections, tasks });
+          showToast('Failed to move section', 'error');
+        }
+      },
+      
+      // Delete section
+      deleteSection: async (sectionId, options) => {
+        const { isOnline, showToast, sections, deleteTasks } = get();
+        const section = sections.find(s => s.id === sectionId);
+        
+        // Deleted tasks go to the trash and get their own undo step
+        if (options?.deleteTasks) {
+          const taskIds = get().tasks.filter(t => t.sectionId === sectionId).map(t => t.id);
+          if (taskIds.length > 0) {
+            await deleteTasks(taskIds);
+            if (get().toast?.type === 'error') return;
+          }
+        }
+        
+        const { tasks } = get();
+        const sectionTasks = tasks.filter(t => t.sectionId === sectionId);
+        const moved: TaskChange[] = sectionTasks.map(t => ({ id: t.id, updates: { sectionId: null } }));
+        
+        // Optimistic update
+        set({
+          sections: sections.filter(s => s.id !== sectionId),
+          tasks: tasks.map(t => (t.sectionId === sectionId ? { ...t, sectionId: null } : t)),
+        });
+        
+        try {
+          if (isOnline) {
+            if (moved.length > 0) await getBackend().updateTasks(moved);
+            await getBackend().deleteSection(sectionId);
+            await db.db.sections.delete(sectionId);
+          } else {
+            if (moved.length > 0) await db.updateTasksLocally(moved);
+            await db.deleteSectionLocally(sectionId);
+          }
+          
+          showToast('Section deleted');
+          if (section) {
+            recordHistory({
+              label: 'Delete section',
+              undo: [
+                { type: 'createSection', section },
+                ...(moved.length > 0
+                  ? [{ type: 'updateTasks' as const, changes: sectionTasks.map(t => ({ id: t.id, updates: { sectionId } })) }]
+                  : []),
+              ],
+              redo: [{ type: 'deleteSection', sectionId }],
+            });
+          }
+        } catch (error) {
+          console.error('Failed to delete section:', error);
+          // Revert optimistic update
+          set({ sections, tasks });
+          showToast('Failed to delete section', 'error');
+        }
+      },
+      
+      // Undo the most recent action
+      undo: async () => {
+        const { undoStack, showToast } = get();
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry || isApplyingHistory) return;
+        
+        set({ undoStack: undoStack.slice(0, -1) });
+        const result = await applyHistory(entry, 'undo');
+        if (result.ok) {
+          set(state => ({ redoStack: [...state.redoStack, result.entry] }));
+          showToast(`Undone: ${result.entry.label}`, 'info');
+        } else {
+          // Keep it so it can be tried again
+          set(state => ({ undoStack: [...state.undoStack, result.entry] }));
+          showToast(`Couldn't undo: ${result.entry.label}`, 'error');
+        }
+      },
+      
+      // Redo the most recently undone action
+      redo: async () => {
+        const { redoStack, showToast } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry || isApplyingHistory) return;
+        
+        set({ redoStack: redoStack.slice(0, -1) });
+        const result = await applyHistory(entry, 'redo');
+        if (result.ok) {
+          set(state => ({ undoStack: [...state.undoStack, result.entry].slice(-MAX_HISTORY) }));
+          showToast(`Redone: ${result.entry.label}`, 'info');
+        } else {
+          set(state => ({ redoStack: [...state.redoStack, result.entry] }));
+          showToast(`Couldn't redo: ${result.entry.label}`, 'error');
+        }
+      },
+      
       // Save filter (local only)
       saveFilter: async (filter) => {
         const { filters, showToast } = get();
@@ -413,69 +1770,149 @@ export const useStore = create<AppState>()(
       },
       
       // Sync pending changes
-      syncPendingChanges: async () => {
+      // Background runs only retry items whose backoff has elapsed and stay quiet
+      syncPendingChanges: async (options) => {
         const { isOnline, showToast, fetchAllData } = get();
+        const background = options?.background ?? false;
         
+        await airtableSettingsReady;
         if (!isOnline) {
-          showToast('Cannot sync while offline', 'info');
+          if (!background) showToast('Cannot sync while offline', 'info');
           return;
         }
         
         set({ isSyncing: true });
         
         try {
-          const pendingItems = await db.getPendingSyncItems();
+          // Fold repeated edits of the same record into one queue item
+          const pendingItems = await db.coalesceSyncQueue();
+          
+          // Local IDs resolved to Airtable record IDs during this replay
+          const idMap = new Map<string, string>();
+          let conflictCount = 0;
+          let syncedCount = 0;
+          let deadLetterCount = 0;
+          // Items held back because a record they depend on isn't created yet
+          const waiting: db.SyncQueueItem[] = [];
+          
+          const isReady = (item: db.SyncQueueItem) =>
+            // Leave it queued until the record it depends on has been created
+            !db.hasUnresolvedLocalId(item) &&
+            !(background && item.nextAttemptAt && item.nextAttemptAt > Date.now());
+          
+          const recordFailure = async (item: db.SyncQueueItem, error: unknown) => {
+            console.error(`Failed to sync item ${item.id}:`, error);
+            const attempts = item.attempts + 1;
+            const lastError = error instanceof Error ? error.message : 'Unknown error';
+            
+            if (attempts >= SYNC_CONFIG.MAX_ATTEMPTS) {
+              deadLetterCount += await db.moveToDeadLetter({ ...item, attempts }, lastError);
+            } else {
+              await db.updateSyncQueueItem(item.id!, {
+                attempts,
+                lastError,
+                nextAttemptAt: Date.now() + getRetryDelay(attempts),
+              });
+            }
+          };
           
-          for (const item of pendingItems) {
+          const replayOne = async (item: db.SyncQueueItem) => {
             try {
-              switch (item.type) {
-                case 'CREATE':
-                  if (item.table === 'tasks') {
-                    const newTask = await api.createTask(item.payload as Partial<Task>);
-                    // Update local record with real ID
-                    await db.db.tasks.delete(item.localId!);
-                    await db.db.tasks.put({
-                      ...(item.payload as unknown as Partial<Task>),
-                      id: newTask.id,
-                      _syncStatus: 'synced',
-                      _modifiedAt: Date.now(),
-                    } as db.LocalTask);
-                  }
-                  break;
-                  
-                case 'UPDATE':
-                  if (item.table === 'tasks') {
-                    await api.updateTask(item.recordId, item.payload as Partial<Task>);
-                  }
-                  break;
-                  
-                case 'DELETE':
-                  if (item.table === 'tasks') {
-                    await api.deleteTask(item.recordId);
-                  }
-                  break;
-              }
-              
+              conflictCount += await replaySyncItem(item, idMap);
               // Remove from queue on success
               await db.removeSyncQueueItem(item.id!);
+              syncedCount++;
             } catch (error) {
-              console.error(`Failed to sync item ${item.id}:`, error);
-              await db.updateSyncQueueItem(item.id!, {
-                attempts: item.attempts + 1,
-                lastError: error instanceof Error ? error.message : 'Unknown error',
-              });
+              await recordFailure(item, error);
+            }
+          };
+          
+          let index = 0;
+          while (index < pendingItems.length) {
+            const item = db.applyIdMap(pendingItems[index], idMap);
+            index++;
+            if (!isReady(item)) {
+              if (db.hasUnresolvedLocalId(item)) waiting.push(item);
+              continue;
+            }
+            
+            if (item.table !== 'tasks') {
+              await replayOne(item);
+              continue;
+            }
+            
+            // Gather following task changes of the same type into one batch request
+            const batch = [item];
+            while (index < pendingItems.length && batch.length < getBackend().batchSize) {
+              const next = db.applyIdMap(pendingItems[index], idMap);
+              if (next.table !== item.table || next.type !== item.type || !isReady(next)) break;
+              // A record can only appear once per request
+              if (batch.some(b => b.recordId === next.recordId)) break;
+              batch.push(next);
+              index++;
+            }
+            
+            if (batch.length === 1) {
+              await replayOne(item);
+              continue;
+            }
+            
+            try {
+              conflictCount += await replayTaskBatch(batch, idMap);
+              for (const done of batch) {
+                await db.removeSyncQueueItem(done.id!);
+              }
+              syncedCount += batch.length;
+            } catch (error) {
+              // Airtable rejects the whole batch if one record is bad - isolate it
+              console.warn('[Sync] Batch failed, retrying items individually:', error);
+              for (const single of batch) {
+                await replayOne(single);
+              }
             }
           }
           
-          // Refresh data after sync
-          await fetchAllData();
-          showToast('Sync complete');
+          // A change whose record will never be created can't sync either
+          const queued = new Map((await db.getPendingSyncItems()).map(q => [q.id, q]));
+          const pendingCreates = new Set([...queued.values()].filter(q => q.type === 'CREATE').map(q => q.localId));
+          let waitingCount = 0;
+          for (const { id } of waiting) {
+            // Read it back - references resolved later in this run were rewritten
+            const item = queued.get(id);
+            if (!item) continue;
+            if (db.getUnresolvedLocalIds(item).every(localId => pendingCreates.has(localId))) {
+              waitingCount++;
+            } else {
+              deadLetterCount += await db.moveToDeadLetter(item, 'Depends on a record that is no longer queued');
+            }
+          }
+          
+          // Undo entries made offline still refer to local IDs
+          remapHistory(idMap);
+          
+          // Refresh data after sync (background retries only when something went through)
+          if (!background || syncedCount > 0) {
+            await fetchAllData();
+          } else {
+            set({ deadLetters: await db.getDeadLetterItems() });
+          }
+          
+          if (deadLetterCount > 0) {
+            showToast(`${deadLetterCount} change${deadLetterCount !== 1 ? 's' : ''} failed to sync - review in sync status`, 'error');
+          } else if (conflictCount > 0) {
+            showToast(`${conflictCount} conflicting change${conflictCount !== 1 ? 's' : ''} need review`, 'warning');
+          } else if (waitingCount > 0 && !background) {
+            showToast(`${waitingCount} change${waitingCount !== 1 ? 's' : ''} waiting for new records to sync first`, 'info');
+          } else if (!background) {
+            showToast('Sync complete');
+          }
           
         } catch (error) {
           console.error('Sync failed:', error);
-          showToast('Sync failed', 'error');
+          if (!background) showToast('Sync failed', 'error');
         } finally {
           set({ isSyncing: false });
+          scheduleBackgroundRetry();
         }
       },
       
@@ -491,6 +1928,76 @@ export const useStore = create<AppState>()(
           showToast('You are offline - changes will sync when online', 'info');
         }
       },
+      
+      // Put a failed sync item back on the queue and try it again
+      retryDeadLetter: async (itemId, payload) => {
+        const { isOnline, syncPendingChanges, showToast } = get();
+        
+        await db.retryDeadLetterItem(itemId, payload);
+        set({ deadLetters: await db.getDeadLetterItems() });
+        
+        if (isOnline) {
+          await syncPendingChanges();
+        } else {
+          showToast('Change re-queued - will sync when online', 'info');
+        }
+      },
+      
+      // Give up on a failed sync item
+      discardDeadLetter: async (itemId) => {
+        const { deadLetters, tasks, projects, tags, sections, showToast } = get();
+        const item = deadLetters.find(d => d.id === itemId);
+        
+        await db.discardDeadLetterItem(itemId);
+        // Failed changes that referred to a discarded record were rewritten too
+        set({ deadLetters: await db.getDeadLetterItems() });
+        
+        // A discarded CREATE leaves nothing to show, and nothing to link to
+        const localId = item?.type === 'CREATE' ? item.localId : undefined;
+        if (localId) {
+          const unlink = (id: string | null) => (id === localId ? null : id);
+          set({
+            tasks: tasks
+              .filter(t => t.id !== localId)
+              .map(t => ([t.projectId, t.sectionId, t.parentTaskId, ...t.subtaskIds, ...t.tagIds].includes(localId) ? {
+                ...t,
+                projectId: unlink(t.projectId),
+                sectionId: unlink(t.sectionId),
+                parentTaskId: unlink(t.parentTaskId),
+                subtaskIds: t.subtaskIds.filter(id => id !== localId),
+                tagIds: t.tagIds.filter(id => id !== localId),
+              } : t)),
+            projects: projects.filter(p => p.id !== localId),
+            tags: tags.filter(t => t.id !== localId),
+            sections: sections.filter(s => s.id !== localId),
+          });
+        }
+        
+        showToast('Change discarded');
+      },
+      
+      // Resolve a field conflict detected during sync
+      resolveConflict: async (conflictId, resolution) => {
+        const { conflicts, updateTask, updateProject } = get();
+        const conflict = conflicts.find(c => c.id === conflictId);
+        if (!conflict) return;
+        
+        // Airtable already holds "theirs" after the post-sync refresh
+        if (resolution !== 'theirs') {
+          const value = resolution === 'merge'
+            ? mergeNotes(conflict.theirs, conflict.mine)
+            : conflict.mine;
+          const updates = { [conflict.field]: value };
+          if (conflict.table === 'tasks') {
+            await updateTask(conflict.recordId, updates as Partial<Task>);
+          } else {
+            await updateProject(conflict.recordId, updates as Partial<Project>);
+          }
+        }
+        
+        await db.removeConflict(conflictId);
+        set({ conflicts: get().conflicts.filter(c => c.id !== conflictId) });
+      },
     }),
     {
       name: STORAGE_KEYS.THEME,
@@ -498,13 +2005,39 @@ export const useStore = create<AppState>()(
         isDarkMode: state.isDarkMode,
         showCompleted: state.showCompleted,
         sidebarWidth: state.sidebarWidth,
+        trashRetentionDays: state.trashRetentionDays,
+        subtaskSettings: state.subtaskSettings,
+        kanbanSettings: state.kanbanSettings,
+        backendType: state.backendType,
       }),
     }
   )
 );
 
+// Use the persisted storage backend
+setBackend(createBackend(useStore.getState().backendType));
+airtableSettingsReady.then(airtableSettings => useStore.setState({ airtableSettings }));
+
+// Load the trash, dropping anything past the retention period
+purgeExpiredTrash();
+
 // Online/offline event listeners
 if (typeof window !== 'undefined') {
   window.addEventListener('online', () => useStore.getState().setOnlineStatus(true));
   window.addEventListener('offline', () => useStore.getState().setOnlineStatus(false));
+  
+  // Mirror Airtable request queue depth for the sync indicator
+  subscribeToRequestQueue((requestQueue) => {
+    const current = useStore.getState().requestQueue;
+    if (
+      current.queued !== requestQueue.queued ||
+      current.inFlight !== requestQueue.inFlight ||
+      current.rateLimitedUntil !== requestQueue.rateLimitedUntil
+    ) {
+      useStore.setState({ requestQueue });
+    }
+  });
+  
+  // Resume backoff timers for items that failed in a previous session
+  scheduleBackgroundRetry();
 }
@@ -25,6 +25,8 @@ export interface Task {
   // Effort tracking
   plannedEffort: number | null;
   actualEffort: number | null;
+  // Recurrence rule text, e.g. "every weekday" (see utils/recurrence)
+  recurrence: string | null;
   // Local-only fields for sync
   _localId?: string;
   _syncStatus?: SyncStatus;
@@ -41,6 +43,7 @@ export interface Project {
   targetDate: string | null;
   notes: string;
   taskIds: string[];
+  color: string | null;  // hex, e.g. "#d1453b"
   // Local-only
   _syncStatus?: SyncStatus;
   _modifiedAt?: number;
@@ -79,22 +82,36 @@ export interface FilterCriteria {
   projectIds?: string[];
   tagIds?: string[];
   dueDateRange?: 'overdue' | 'today' | 'tomorrow' | 'this_week' | 'no_date';
+  // Todoist-style query, e.g. "(today | overdue) & #Work & p1" (see utils/filterQuery)
+  query?: string;
 }
 
-// Enums matching Airtable select options
-export type TaskStatus = 
-  | '📥 Inbox'
-  | '📋 To Do'
-  | '🔄 In Progress'
-  | '✅ Done'
-  | '🚫 Blocked'
-  | '⏸️ Waiting';
-
-export type TaskPriority = 
-  | '4 (highest)'
-  | '3 (urgent)'
-  | '2 (standard)'
-  | '1 (low)';
+// Task status/priority values come from the base's single-select choices at
+// runtime (see TaskOptions), so they are plain strings
+export type TaskStatus = string;
+export type TaskPriority = string;
+
+// How a status behaves across views, configured per base
+export type StatusCategory = 'todo' | 'active' | 'blocked' | 'done';
+
+export interface StatusOption {
+  value: string;
+  label: string;
+  category: StatusCategory;
+}
+
+export interface PriorityOption {
+  value: string;
+  label: string;
+  color: string;
+  level: number;  // Higher is more important
+}
+
+export interface TaskOptions {
+  statuses: StatusOption[];
+  priorities: PriorityOption[];
+  fetchedAt: number | null;  // When choices were last read from the schema
+}
 
 export type ProjectStatus = 
   | 'Active'
@@ -130,7 +147,45 @@ export type ViewType =
   | 'filter'
   | 'tags'
   | 'tag'
-  | 'schedule';
+  | 'schedule'
+  | 'settings'
+  | 'trash'
+  | 'archived';
+
+// How actions on a parent task carry over to its subtasks (edited in Settings)
+export interface SubtaskSettings {
+  // Completing a parent that still has open subtasks
+  completeSubtasks: 'ask' | 'always' | 'never';
+  // Deleting a parent: trash the whole subtree, or keep the subtasks one level up
+  deleteSubtasks: 'delete' | 'promote';
+  // Complete a parent once its last open subtask is completed
+  autoCompleteParent: boolean;
+}
+
+// What the columns of the Kanban board stand for
+export type KanbanGroupBy = 'section' | 'status' | 'priority';
+
+export interface KanbanSettings {
+  // Sections only apply on a project's board; other views fall back to status
+  groupBy: KanbanGroupBy;
+  // Cards a column may hold before it is flagged, keyed by "<groupBy>:<column>"
+  wipLimits: Record<string, number>;
+}
+
+// Runtime Airtable connection settings (stored in IndexedDB, edited in Settings)
+export interface AirtableSettings {
+  baseId: string;
+  apiKey: string;
+  // Table ID (or name) per entity
+  tables: {
+    tasks: string;
+    projects: string;
+    tags: string;
+    sections: string;
+  };
+  // Airtable field name per AIRTABLE_CONFIG.FIELDS key, e.g. { TASK_NAME: 'Task' }
+  fields: Record<string, string>;
+}
 
 // Airtable API types
 export interface AirtableRecord<T> {
@@ -1,6 +1,8 @@
 // Airtable Base and Table Configuration
 // These IDs match your Air Todoist base
 
+import type { StatusOption, PriorityOption, TaskOptions, SubtaskSettings, KanbanSettings } from '../types';
+
 export const AIRTABLE_CONFIG = {
   BASE_ID: 'appUl0FdAjLrotIsG',
   
@@ -45,6 +47,7 @@ export const AIRTABLE_CONFIG = {
     TASK_CALENDAR_SYNC_STATUS: 'Calendar Sync Status',
     TASK_PLANNED_EFFORT: 'Planned Effort',
     TASK_ACTUAL_EFFORT: 'Actual Effort',
+    TASK_RECURRENCE: 'Recurrence',
     
     // Projects table fields
     PROJECT_NAME: 'Project Name',
@@ -54,6 +57,7 @@ export const AIRTABLE_CONFIG = {
     PROJECT_TARGET_DATE: 'Target Date',
     PROJECT_NOTES: 'Notes',
     PROJECT_TASKS: 'Tasks',
+    PROJECT_COLOR: 'Color',
     
     // Tags table fields
     TAG_NAME: 'Tag Name',
@@ -69,18 +73,43 @@ export const AIRTABLE_CONFIG = {
   },
 };
 
-// Project colors (matching your extension)
-export const PROJECT_COLORS: Record<string, string> = {
-  'recgI1LsOYTFcOB0A': '#d1453b', // EMEA Strategic Initiatives - Red
-  'rec9DQtFTWKWxEbHR': '#7c3aed', // GTM AI Labs - LI Analysis - Purple
-  'recjhoLOQUSp16G2j': '#2563eb', // GTM AI Labs - Coaching - Blue
-  'recb8hbP1pabRswAe': '#16a34a', // CEKO FY27 - Green
-  'recR7KzAxuR0R79r4': '#d97706', // Team Design & Development - Orange
-};
+// Which entity each AIRTABLE_CONFIG.FIELDS key belongs to, by key prefix
+export const AIRTABLE_FIELD_PREFIXES = {
+  tasks: 'TASK_',
+  projects: 'PROJECT_',
+  tags: 'TAG_',
+  sections: 'SECTION_',
+} as const;
+
+// Project color choices
+export const PROJECT_COLOR_OPTIONS = [
+  { value: '#d1453b', label: 'Red' },
+  { value: '#d97706', label: 'Orange' },
+  { value: '#ca8a04', label: 'Yellow' },
+  { value: '#16a34a', label: 'Green' },
+  { value: '#0891b2', label: 'Teal' },
+  { value: '#2563eb', label: 'Blue' },
+  { value: '#7c3aed', label: 'Purple' },
+  { value: '#db2777', label: 'Pink' },
+  { value: '#808080', label: 'Gray' },
+];
 
 // Default project color for new/unknown projects
 export const DEFAULT_PROJECT_COLOR = '#808080';
 
+// Section color choices
+export const SECTION_COLORS = [
+  { value: '#ef4444', label: 'Red' },
+  { value: '#f59e0b', label: 'Orange' },
+  { value: '#eab308', label: 'Yellow' },
+  { value: '#22c55e', label: 'Green' },
+  { value: '#06b6d4', label: 'Cyan' },
+  { value: '#3b82f6', label: 'Blue' },
+  { value: '#8b5cf6', label: 'Purple' },
+  { value: '#ec4899', label: 'Pink' },
+  { value: '#6b7280', label: 'Gray' },
+];
+
 // Tag colors by type
 export const TAG_COLORS: Record<string, string> = {
   'Priority': '#ef4444',
@@ -90,31 +119,28 @@ export const TAG_COLORS: Record<string, string> = {
 };
 
 // Status options
-export const STATUS_OPTIONS = [
-  { value: '📥 Inbox', label: '📥 Inbox' },
-  { value: '📋 To Do', label: '📋 To Do' },
-  { value: '🔄 In Progress', label: '🔄 In Progress' },
-  { value: '✅ Done', label: '✅ Done' },
-  { value: '🚫 Blocked', label: '🚫 Blocked' },
-  { value: '⏸️ Waiting', label: '⏸️ Waiting' },
+export const STATUS_OPTIONS: StatusOption[] = [
+  { value: '📥 Inbox', label: '📥 Inbox', category: 'todo' },
+  { value: '📋 To Do', label: '📋 To Do', category: 'todo' },
+  { value: '🔄 In Progress', label: '🔄 In Progress', category: 'active' },
+  { value: '✅ Done', label: '✅ Done', category: 'done' },
+  { value: '🚫 Blocked', label: '🚫 Blocked', category: 'blocked' },
+  { value: '⏸️ Waiting', label: '⏸️ Waiting', category: 'blocked' },
 ];
 
 // Priority options (matching actual Airtable single select options)
-export const PRIORITY_OPTIONS = [
+export const PRIORITY_OPTIONS: PriorityOption[] = [
   { value: '4 (highest)', label: '4 (highest)', color: '#dc2626', level: 4 },
   { value: '3 (urgent)', label: '3 (urgent)', color: '#f59e0b', level: 3 },
   { value: '2 (standard)', label: '2 (standard)', color: '#6b7280', level: 2 },
   { value: '1 (low)', label: '1 (low)', color: '#3b82f6', level: 1 },
 ];
 
-// Helper to get priority config by name
-export const getPriorityConfig = (priorityName: string | null | undefined) => {
-  return PRIORITY_OPTIONS.find(p => p.value === priorityName) || null;
-};
-
-// Helper to check if priority is high (4 or 3)
-export const isHighPriority = (priorityName: string | null | undefined) => {
-  return priorityName === '4 (highest)' || priorityName === '3 (urgent)';
+// Fallback status/priority choices until the base schema has been read
+export const DEFAULT_TASK_OPTIONS: TaskOptions = {
+  statuses: STATUS_OPTIONS,
+  priorities: PRIORITY_OPTIONS,
+  fetchedAt: null,
 };
 
 // Calendar sync options
@@ -156,6 +182,41 @@ export const THEME = {
   primaryLight: '#fee9e9',
 };
 
+// Delta sync configuration
+export const SYNC_CONFIG = {
+  // How often to run the ID-only sweep that detects records deleted in Airtable
+  DELETION_SWEEP_INTERVAL: 60 * 60 * 1000, // 1 hour
+  // Overlap each delta window to tolerate clock differences with Airtable
+  CLOCK_SKEW_MARGIN: 60 * 1000, // 1 minute
+  // Failed queue items are retried with exponential backoff, then dead-lettered
+  MAX_ATTEMPTS: 5,
+  RETRY_BASE_DELAY: 5 * 1000, // 5 seconds
+  RETRY_MAX_DELAY: 10 * 60 * 1000, // 10 minutes
+  // How often to re-read status/priority choices from the base schema
+  SCHEMA_REFRESH_INTERVAL: 60 * 60 * 1000, // 1 hour
+};
+
+export const DEFAULT_SUBTASK_SETTINGS: SubtaskSettings = {
+  completeSubtasks: 'ask',
+  deleteSubtasks: 'delete',
+  autoCompleteParent: false,
+};
+
+export const DEFAULT_KANBAN_SETTINGS: KanbanSettings = {
+  groupBy: 'section',
+  wipLimits: {},
+};
+
+// How long deleted tasks stay in the trash (0 = until emptied)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 14, label: '14 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 0, label: 'Never' },
+];
+
 // Local storage keys
 export const STORAGE_KEYS = {
   THEME: 'air-todoist-theme',
@@ -166,3 +227,25 @@ export const STORAGE_KEYS = {
   LAST_SYNC: 'air-todoist-last-sync',
   ACTIVE_TIMER: 'air-todoist-active-timer',
 };
+
+// Keyboard shortcuts, as listed in the cheat sheet ("g t" = press g, then t)
+export const KEYBOARD_SHORTCUTS = [
+  { group: 'General', keys: ['mod+k'], description: 'Open command palette' },
+  { group: 'General', keys: ['q'], description: 'Quick add task' },
+  { group: 'General', keys: ['/'], description: 'Search tasks' },
+  { group: 'General', keys: ['?'], description: 'Show keyboard shortcuts' },
+  { group: 'General', keys: ['mod+z'], description: 'Undo' },
+  { group: 'General', keys: ['mod+shift+z', 'mod+y'], description: 'Redo' },
+  { group: 'Navigation', keys: ['g t'], description: 'Go to Today' },
+  { group: 'Navigation', keys: ['g i'], description: 'Go to Inbox' },
+  { group: 'Navigation', keys: ['g u'], description: 'Go to Upcoming' },
+  { group: 'Navigation', keys: ['g p'], description: 'Go to projects' },
+  { group: 'Navigation', keys: ['g f'], description: 'Go to filters' },
+  { group: 'Tasks', keys: ['j', 'k'], description: 'Next / previous task' },
+  { group: 'Tasks', keys: ['enter'], description: 'Open task' },
+  { group: 'Tasks', keys: ['e'], description: 'Complete task or selection' },
+  { group: 'Tasks', keys: ['1', '2', '3', '4'], description: 'Set priority of task or selection (1 = highest)' },
+  { group: 'Selection', keys: ['x'], description: 'Select / deselect task' },
+  { group: 'Selection', keys: ['shift+j', 'shift+k'], description: 'Extend selection down / up' },
+  { group: 'Selection', keys: ['escape'], description: 'Clear selection' },
+];
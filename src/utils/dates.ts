@@ -43,7 +43,7 @@ export function formatDate(dateString: string | null | undefined): string {
 /**
  * Format date for input fields (YYYY-MM-DD)
  */
-export function formatDateForInput(dateString: string | null | undefined): string {
+export function formatDateForInput(dateString: string | Date | null | undefined): string {
   if (!dateString) return '';
   const date = parseLocalDate(dateString);
   if (!date) return '';
@@ -53,6 +53,14 @@ export function formatDateForInput(dateString: string | null | undefined): strin
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Shift a YYYY-MM-DD date by whole days (negative goes back)
+ */
+export function addDaysToDate(dateString: string, days: number): string {
+  const date = parseLocalDate(dateString) ?? new Date();
+  return formatDateForInput(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
 /**
  * Get relative date info for display badges
  */
@@ -0,0 +1,381 @@
+// Todoist-style filter queries for saved filters, e.g.
+//   (today | overdue) & #Work & !@waiting & p1
+//   due before: +7 days & no priority
+// "&" is and, "|" is or, "!" negates, parentheses group. Shared by the filter
+// view, the filters list and the filter editor's live preview.
+
+import { addDaysToDate, formatDateForInput, parseLocalDate } from './dates';
+import { getStatusCategory } from './taskOptions';
+import type { Task, Project, Section, Tag, FilterCriteria, TaskOptions } from '../types';
+
+// A date relative to today (in days) or a fixed YYYY-MM-DD
+type DateValue = { days: number } | { date: string };
+
+export type FilterTerm =
+  | { kind: 'all' }
+  | { kind: 'due'; op: 'on' | 'before' | 'after'; value: DateValue }
+  | { kind: 'overdue' }
+  | { kind: 'noDate' }
+  | { kind: 'nextDays'; days: number }
+  | { kind: 'recurring' }
+  | { kind: 'subtask' }
+  | { kind: 'project' | 'section' | 'tag'; pattern: string | null }
+  | { kind: 'priority'; level: number | null }
+  | { kind: 'status'; value: string }
+  | { kind: 'search'; text: string };
+
+export type FilterNode =
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'term'; term: FilterTerm };
+
+// Error with the character offset it refers to, for pointing at it in the editor
+export class FilterSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'FilterSyntaxError';
+    this.position = position;
+  }
+}
+
+export interface FilterContext {
+  today: string;
+  projects: Project[];
+  sections: Section[];
+  tags: Tag[];
+  taskOptions: TaskOptions;
+}
+
+// Examples for the filter editor
+export const FILTER_QUERY_EXAMPLES = [
+  '(today | overdue) & #Work',
+  'due before: +7 days & p1',
+  '@waiting & !no date',
+  'no date & !subtask',
+  'search: invoice',
+];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+type Token =
+  | { type: '&' | '|' | '!' | '(' | ')'; start: number }
+  | { type: 'term'; text: string; start: number };
+
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let termStart = -1;
+
+  const endTerm = (end: number) => {
+    if (termStart === -1) return;
+    const raw = query.slice(termStart, end);
+    const text = raw.trim();
+    if (text) tokens.push({ type: 'term', text, start: termStart + raw.indexOf(text) });
+    termStart = -1;
+  };
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if ('&|!()'.includes(char)) {
+      endTerm(i);
+      tokens.push({ type: char as '&' | '|' | '!' | '(' | ')', start: i });
+    } else if (termStart === -1 && char.trim()) {
+      termStart = i;
+    }
+  }
+  endTerm(query.length);
+  return tokens;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+// "today", "+7 days", "-1 week", "2024-05-01", "May 5", "5 May"
+function parseDateValue(text: string): DateValue | null {
+  if (text === 'today') return { days: 0 };
+  if (text === 'tomorrow') return { days: 1 };
+  if (text === 'yesterday') return { days: -1 };
+
+  const relative = text.match(/^([+-]?)\s*(\d+)\s*(day|week|month)s?$/);
+  if (relative) return { days: (relative[1] === '-' ? -1 : 1) * Number(relative[2]) * UNIT_DAYS[relative[3]] };
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { date: text };
+
+  const monthDay = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})$/) ?? text.match(/^(\d{1,2})\s+([a-z]{3})[a-z]*\.?$/);
+  if (monthDay) {
+    const [monthName, day] = /^\d/.test(monthDay[1]) ? [monthDay[2], monthDay[1]] : [monthDay[1], monthDay[2]];
+    const month = MONTHS.indexOf(monthName);
+    if (month !== -1) return { date: formatDateForInput(new Date(new Date().getFullYear(), month, Number(day))) };
+  }
+  return null;
+}
+
+function parseTerm(text: string, start: number): FilterTerm {
+  const term = text.toLowerCase().replace(/\s+/g, ' ');
+
+  switch (term) {
+    case 'all':
+    case '*': return { kind: 'all' };
+    case 'overdue':
+    case 'od': return { kind: 'overdue' };
+    case 'no date':
+    case 'no due date': return { kind: 'noDate' };
+    case 'recurring': return { kind: 'recurring' };
+    // Everything here is yours, so "assigned" subtasks are all subtasks
+    case 'subtask':
+    case 'subtasks':
+    case 'assigned subtasks': return { kind: 'subtask' };
+    case 'no project': return { kind: 'project', pattern: null };
+    case 'no section': return { kind: 'section', pattern: null };
+    case 'no labels':
+    case 'no tags': return { kind: 'tag', pattern: null };
+    case 'no priority': return { kind: 'priority', level: null };
+  }
+
+  const priority = term.match(/^p([1-4])$/);
+  if (priority) return { kind: 'priority', level: Number(priority[1]) };
+
+  const nextDays = term.match(/^(?:next )?(\d+) days?$/);
+  if (nextDays) return { kind: 'nextDays', days: Number(nextDays[1]) };
+
+  // #Project (## includes sub-projects in Todoist; projects here are flat), @tag, /Section
+  const named = text.match(/^(##?|@|\/)\s*(.+)$/);
+  if (named) {
+    const kind = named[1] === '@' ? 'tag' : named[1] === '/' ? 'section' : 'project';
+    return { kind, pattern: named[2].trim().toLowerCase() };
+  }
+
+  const keyed = term.match(/^([a-z ]+):\s*(.*)$/);
+  if (keyed) {
+    const [, key, value] = keyed;
+    if (!value) throw new FilterSyntaxError(`Missing value after "${key}:"`, start + text.length);
+    if (key === 'search') return { kind: 'search', text: value };
+    if (key === 'status') return { kind: 'status', value };
+
+    const op = ({ 'due': 'on', 'date': 'on', 'due before': 'before', 'date before': 'before', 'due after': 'after', 'date after': 'after' } as const)[key];
+    if (op) {
+      const date = parseDateValue(value);
+      if (!date) throw new FilterSyntaxError(`Unrecognized date "${value}"`, start + text.indexOf(':') + 1);
+      return { kind: 'due', op, value: date };
+    }
+    throw new FilterSyntaxError(`Unknown filter "${key}:"`, start);
+  }
+
+  const date = parseDateValue(term);
+  if (date) return { kind: 'due', op: 'on', value: date };
+
+  throw new FilterSyntaxError(`Unknown filter "${text}"`, start);
+}
+
+/**
+ * Parse a filter query. Returns null for an empty query; throws
+ * FilterSyntaxError for anything it can't read.
+ */
+export function parseFilterQuery(query: string): FilterNode | null {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return null;
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string): never => {
+    throw new FilterSyntaxError(message, peek()?.start ?? query.length);
+  };
+
+  const parseOr = (): FilterNode => {
+    let node = parseAnd();
+    while (peek()?.type === '|') {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): FilterNode => {
+    let node = parseUnary();
+    while (peek()?.type === '&') {
+      index++;
+      node = { type: 'and', left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FilterNode => {
+    const token = peek();
+    if (!token) return fail('Expected a filter after the operator');
+
+    if (token.type === '!') {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (token.type === '(') {
+      index++;
+      const node = parseOr();
+      if (peek()?.type !== ')') {
+        throw new FilterSyntaxError('Missing closing parenthesis', peek()?.start ?? query.length);
+      }
+      index++;
+      return node;
+    }
+    if (token.type === 'term') {
+      index++;
+      return { type: 'term', term: parseTerm(token.text, token.start) };
+    }
+    return fail(`Unexpected "${token.type}"`);
+  };
+
+  const node = parseOr();
+  const extra = peek();
+  if (extra) {
+    fail(extra.type === 'term' ? 'Expected "&" or "|" between filters' : `Unexpected "${extra.type}"`);
+  }
+  return node;
+}
+
+/**
+ * The syntax error in a query, if any
+ */
+export function validateFilterQuery(query: string): FilterSyntaxError | null {
+  try {
+    parseFilterQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) return error;
+    throw error;
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export function createFilterContext(data: Omit<FilterContext, 'today'>): FilterContext {
+  return { ...data, today: formatDateForInput(new Date()) };
+}
+
+// "Client*" -> matches "Client A", "client b"
+function matchesPattern(name: string | undefined, pattern: string): boolean {
+  if (!name) return false;
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+  return regex.test(name.trim());
+}
+
+function resolveDate(value: DateValue, today: string): string {
+  return 'date' in value ? value.date : addDaysToDate(today, value.days);
+}
+
+function matchesTerm(term: FilterTerm, task: Task, context: FilterContext): boolean {
+  const { today } = context;
+  switch (term.kind) {
+    case 'all':
+      return true;
+    case 'due': {
+      if (!task.dueDate) return false;
+      const date = resolveDate(term.value, today);
+      if (term.op === 'before') return task.dueDate < date;
+      if (term.op === 'after') return task.dueDate > date;
+      return task.dueDate === date;
+    }
+    case 'overdue':
+      return !!task.dueDate && task.dueDate < today;
+    case 'noDate':
+      return !task.dueDate;
+    case 'nextDays':
+      return !!task.dueDate && task.dueDate >= today && task.dueDate < addDaysToDate(today, term.days);
+    case 'recurring':
+      return !!task.recurrence;
+    case 'subtask':
+      return !!task.parentTaskId;
+    case 'project': {
+      if (term.pattern === null) return !task.projectId;
+      const pattern = term.pattern;
+      return matchesPattern(context.projects.find(p => p.id === task.projectId)?.name, pattern);
+    }
+    case 'section': {
+      if (term.pattern === null) return !task.sectionId;
+      const pattern = term.pattern;
+      return matchesPattern(context.sections.find(s => s.id === task.sectionId)?.name, pattern);
+    }
+    case 'tag': {
+      if (term.pattern === null) return task.tagIds.length === 0;
+      const pattern = term.pattern;
+      return task.tagIds.some(id => matchesPattern(context.tags.find(t => t.id === id)?.name, pattern));
+    }
+    case 'priority': {
+      if (term.level === null) return !task.priority;
+      // p1 is the most important choice; p4 means no priority when the base has fewer than four
+      const ordered = [...context.taskOptions.priorities].sort((a, b) => b.level - a.level);
+      const option = ordered[term.level - 1];
+      return option ? task.priority === option.value : term.level === 4 && !task.priority;
+    }
+    case 'status':
+      // A category ("done", "blocked") or the status name
+      return getStatusCategory(context.taskOptions, task.status) === term.value
+        || matchesPattern(task.status ?? undefined, term.value);
+    case 'search': {
+      const text = term.text.toLowerCase();
+      return task.name.toLowerCase().includes(text) || (task.notes || '').toLowerCase().includes(text);
+    }
+  }
+}
+
+export function evaluateFilter(node: FilterNode, task: Task, context: FilterContext): boolean {
+  switch (node.type) {
+    case 'and': return evaluateFilter(node.left, task, context) && evaluateFilter(node.right, task, context);
+    case 'or': return evaluateFilter(node.left, task, context) || evaluateFilter(node.right, task, context);
+    case 'not': return !evaluateFilter(node.operand, task, context);
+    case 'term': return matchesTerm(node.term, task, context);
+  }
+}
+
+function mentionsSubtasks(node: FilterNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or': return mentionsSubtasks(node.left) || mentionsSubtasks(node.right);
+    case 'not': return mentionsSubtasks(node.operand);
+    case 'term': return node.term.kind === 'subtask';
+  }
+}
+
+// The fixed buckets from the filter editor's Due Date row
+function matchesDueDateRange(range: NonNullable<FilterCriteria['dueDateRange']>, task: Task, today: string): boolean {
+  if (range === 'no_date') return !task.dueDate;
+  if (!task.dueDate) return false;
+  switch (range) {
+    case 'overdue': return task.dueDate < today;
+    case 'today': return task.dueDate === today;
+    case 'tomorrow': return task.dueDate === addDaysToDate(today, 1);
+    case 'this_week': {
+      // Today through Sunday
+      const daysToSunday = (7 - (parseLocalDate(today)?.getDay() ?? 0)) % 7;
+      return task.dueDate >= today && task.dueDate <= addDaysToDate(today, daysToSunday);
+    }
+  }
+}
+
+/**
+ * Predicate for a saved filter: the picked statuses, priorities, projects,
+ * tags and due range, and the query if there is one. Subtasks only match when
+ * the query mentions them. A query that no longer parses matches nothing.
+ */
+export function createFilterMatcher(criteria: FilterCriteria, context: FilterContext): (task: Task) => boolean {
+  let node: FilterNode | null = null;
+  try {
+    node = criteria.query ? parseFilterQuery(criteria.query) : null;
+  } catch {
+    return () => false;
+  }
+  const includeSubtasks = !!node && mentionsSubtasks(node);
+
+  return (task) => {
+    if (task.parentTaskId && !includeSubtasks) return false;
+    if (criteria.status?.length && !criteria.status.includes(task.status || '')) return false;
+    if (criteria.priority?.length && !criteria.priority.includes(task.priority || '')) return false;
+    if (criteria.projectIds?.length && !criteria.projectIds.includes(task.projectId || '')) return false;
+    if (criteria.tagIds?.length && !task.tagIds.some(id => criteria.tagIds?.includes(id))) return false;
+    if (criteria.dueDateRange && !matchesDueDateRange(criteria.dueDateRange, task, context.today)) return false;
+    return node ? evaluateFilter(node, task, context) : true;
+  };
+}
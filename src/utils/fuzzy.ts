@@ -0,0 +1,40 @@
+// Fuzzy matching for the command palette - "gtod" matches "Go to Today"
+
+/**
+ * Score how well `query` matches `text` as an in-order subsequence.
+ * Returns null when some query character can't be found. Higher is better:
+ * consecutive runs and matches at word starts score extra, gaps cost a little.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let lastIndex = -1;
+  for (const char of q) {
+    const index = t.indexOf(char, lastIndex + 1);
+    if (index === -1) return null;
+
+    const isWordStart = index === 0 || /[\s\-_/#@]/.test(t[index - 1]);
+    if (index === lastIndex + 1) score += 3;
+    if (isWordStart) score += 5;
+    score -= Math.min(index - lastIndex - 1, 5) * 0.5;
+    lastIndex = index;
+  }
+
+  // Prefer shorter texts when scores tie ("Today" over "Go to Today view")
+  return score - t.length * 0.01;
+}
+
+/**
+ * Items matching the query, best first. An empty query keeps the original order.
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.item);
+}
@@ -0,0 +1,30 @@
+// Project lifecycle helpers - archiving is the "Archived" project status,
+// so it round-trips through Airtable like any other status change
+
+import { DEFAULT_PROJECT_COLOR } from './constants';
+import type { Project, ProjectStatus, Task } from '../types';
+
+export const ARCHIVED_PROJECT_STATUS: ProjectStatus = 'Archived';
+// Status given to new and restored projects
+export const ACTIVE_PROJECT_STATUS: ProjectStatus = 'Active';
+
+export function isArchivedProject(project: Project): boolean {
+  return project.status === ARCHIVED_PROJECT_STATUS;
+}
+
+/**
+ * Tasks outside archived projects - what the active views show
+ */
+export function withoutArchivedTasks(tasks: Task[], projects: Project[]): Task[] {
+  const archivedIds = new Set(projects.filter(isArchivedProject).map(p => p.id));
+  if (archivedIds.size === 0) return tasks;
+  return tasks.filter(t => !t.projectId || !archivedIds.has(t.projectId));
+}
+
+/**
+ * The project's own color, else one kept on this device, else the default grey
+ */
+export function getProjectColor(project: Project | undefined, localColors: Record<string, string>): string {
+  if (!project) return DEFAULT_PROJECT_COLOR;
+  return project.color || localColors[project.id] || DEFAULT_PROJECT_COLOR;
+}
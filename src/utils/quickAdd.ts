@@ -0,0 +1,244 @@
+// Natural-language quick add
+// Parses "Email Sarah tomorrow 3pm #EMEA @Context p1 for 30 min every monday" into
+// task fields plus the character ranges that were recognized, for highlighting
+
+import { DURATION_OPTIONS, SCHEDULED_TIME_OPTIONS } from './constants';
+import { parseRecurrence, getFirstOccurrence } from './recurrence';
+import type { Project, Tag, PriorityOption } from '../types';
+
+export type QuickAddTokenType = 'date' | 'time' | 'duration' | 'project' | 'tag' | 'priority' | 'recurrence';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface QuickAddResult {
+  // Task name with recognized tokens removed
+  name: string;
+  dueDate: string | null;
+  scheduledTime: string | null;
+  duration: string | null;
+  projectId: string | null;
+  tagIds: string[];
+  priority: string | null;
+  recurrence: string | null;
+  tokens: QuickAddToken[];
+}
+
+interface QuickAddContext {
+  projects: Project[];
+  tags: Tag[];
+  priorities: PriorityOption[];
+  today?: Date;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// Full weekday names anywhere; abbreviations only after "on"/"next" ("sun cream" isn't a date)
+const WEEKDAY_PATTERN = '(?:(?:on|next) (sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)|(?:on |next )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday))';
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+function formatLocal(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Next date with this weekday, never today ("friday" on a Friday means next week)
+function nextWeekday(today: Date, weekday: number): Date {
+  const diff = (weekday - today.getDay() + 7) % 7 || 7;
+  return addDays(today, diff);
+}
+
+// Month/day without a year: this year, or next year if it has passed
+function upcomingDate(today: Date, month: number, day: number): Date | null {
+  if (day < 1 || day > 31) return null;
+  let date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+  return date;
+}
+
+// ============================================================================
+// MATCHERS
+// ============================================================================
+
+type Matcher = (text: string, ctx: Required<QuickAddContext>) => { index: number; length: number; apply: (result: QuickAddResult) => void } | null;
+
+function regexMatcher(
+  pattern: RegExp,
+  toValue: (match: RegExpExecArray, ctx: Required<QuickAddContext>) => ((result: QuickAddResult) => void) | null
+): Matcher {
+  return (text, ctx) => {
+    const regex = new RegExp(pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      const apply = toValue(match, ctx);
+      if (apply) return { index: match.index, length: match[0].length, apply };
+    }
+    return null;
+  };
+}
+
+// Longest project/tag name following the sigil, e.g. "#Q4 Planning" or "#EMEA"
+function namedMatcher(sigil: string, getItems: (ctx: Required<QuickAddContext>) => { id: string; name: string }[], apply: (result: QuickAddResult, id: string) => void): Matcher {
+  return (text, ctx) => {
+    const items = [...getItems(ctx)].sort((a, b) => b.name.length - a.name.length);
+    const lower = text.toLowerCase();
+    for (let i = lower.indexOf(sigil); i !== -1; i = lower.indexOf(sigil, i + 1)) {
+      if (i > 0 && !/\s/.test(lower[i - 1])) continue;
+      const rest = lower.slice(i + 1);
+      const item = items.find(it => {
+        const name = it.name.toLowerCase();
+        return rest.startsWith(name) && !/[\w-]/.test(rest[name.length] ?? '');
+      });
+      if (item) return { index: i, length: item.name.length + 1, apply: (result) => apply(result, item.id) };
+    }
+    return null;
+  };
+}
+
+// "every 2 weeks on mon" - longest run of words that parses as a rule
+const recurrenceMatcher: Matcher = (text) => {
+  const regex = /\b(every!?|daily|weekly|monthly|yearly|annually)\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const words = text.slice(match.index).split(/(\s+)/);
+    // words alternates word/space; try longest first (up to 8 words)
+    for (let count = Math.min(8, Math.ceil(words.length / 2)); count >= 1; count--) {
+      const phrase = words.slice(0, count * 2 - 1).join('');
+      const rule = parseRecurrence(phrase);
+      if (rule) {
+        return { index: match.index, length: phrase.length, apply: (result) => { result.recurrence = phrase.trim(); } };
+      }
+    }
+  }
+  return null;
+};
+
+const dateMatchers: Matcher[] = [
+  regexMatcher(/\b(?:on )?(today|tonight)\b/, (_m, ctx) => (r) => { r.dueDate = formatLocal(ctx.today); }),
+  regexMatcher(/\b(?:on )?(tomorrow|tmrw?)\b/, (_m, ctx) => (r) => { r.dueDate = formatLocal(addDays(ctx.today, 1)); }),
+  regexMatcher(/\bnext week\b/, (_m, ctx) => (r) => { r.dueDate = formatLocal(nextWeekday(ctx.today, 1)); }),
+  regexMatcher(/\bin (\d+) (day|week)s?\b/, (m, ctx) => (r) => {
+    r.dueDate = formatLocal(addDays(ctx.today, Number(m[1]) * (m[2].toLowerCase() === 'week' ? 7 : 1)));
+  }),
+  regexMatcher(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`), (m, ctx) => {
+    const weekday = WEEKDAYS.indexOf((m[1] ?? m[2]).toLowerCase().slice(0, 3));
+    return weekday === -1 ? null : (r) => { r.dueDate = formatLocal(nextWeekday(ctx.today, weekday)); };
+  }),
+  regexMatcher(new RegExp(`\\b(?:on )?${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?\\b`), (m, ctx) => {
+    const date = upcomingDate(ctx.today, MONTHS.indexOf(m[1].toLowerCase().slice(0, 3)), Number(m[2]));
+    return date ? (r) => { r.dueDate = formatLocal(date); } : null;
+  }),
+  regexMatcher(new RegExp(`\\b(?:on )?(\\d{1,2})(?:st|nd|rd|th)? ${MONTH_PATTERN}(?!\\w)`), (m, ctx) => {
+    const date = upcomingDate(ctx.today, MONTHS.indexOf(m[2].toLowerCase().slice(0, 3)), Number(m[1]));
+    return date ? (r) => { r.dueDate = formatLocal(date); } : null;
+  }),
+  regexMatcher(/\b(\d{4})-(\d{2})-(\d{2})\b/, (m) => (r) => { r.dueDate = `${m[1]}-${m[2]}-${m[3]}`; }),
+];
+
+// Minutes past midnight for a Scheduled Time option like "1:30 PM"
+const optionMinutes = (value: string): number => {
+  const [, h, min, meridiem] = value.match(/^(\d{1,2}):(\d{2}) (AM|PM)$/)!;
+  return (Number(h) % 12 + (meridiem === 'PM' ? 12 : 0)) * 60 + Number(min);
+};
+
+// "3pm", "3:30 pm", "at 15:00" - snapped to the nearest option offered by the Scheduled Time field
+const timeMatcher = regexMatcher(/\b(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm)\b|\bat (\d{1,2}):(\d{2})\b/, (m) => {
+  let hours = Number(m[1] ?? m[4]);
+  const minutes = Number(m[2] ?? m[5] ?? 0);
+  const meridiem = m[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  // Times outside the offered range clamp to the first or last option; ties go to the later one
+  const time = hours * 60 + minutes;
+  const option = SCHEDULED_TIME_OPTIONS.reduce((best, o) =>
+    Math.abs(optionMinutes(o.value) - time) <= Math.abs(optionMinutes(best.value) - time) ? o : best
+  );
+  return (r) => { r.scheduledTime = option.value; };
+});
+
+// "for 30 min", "for 2h", "for all day" - rounded up to a Duration option
+const durationMatcher = regexMatcher(/\bfor (?:(\d+(?:\.\d+)?) ?(m|mins?|minutes?|h|hrs?|hours?)|(all day))\b/, (m) => {
+  if (m[3]) return (r) => { r.duration = 'All day'; };
+  const amount = Number(m[1]);
+  const minutes = m[2].toLowerCase().startsWith('h') ? amount * 60 : amount;
+  const option = DURATION_OPTIONS.find(o => {
+    const match = o.value.match(/^(\d+) (minute|hour)/);
+    return match && Number(match[1]) * (match[2] === 'hour' ? 60 : 1) >= minutes;
+  });
+  return option ? (r) => { r.duration = option.value; } : null;
+});
+
+// Todoist-style p1 (highest) .. p4, mapped onto the base's priorities by level
+const priorityMatcher = regexMatcher(/(?<![\w#@])p([1-4])\b/, (m, ctx) => {
+  const byLevel = [...ctx.priorities].sort((a, b) => b.level - a.level);
+  const option = byLevel[Number(m[1]) - 1];
+  return option ? (r) => { r.priority = option.value; } : null;
+});
+
+const projectMatcher = namedMatcher('#', ctx => ctx.projects, (r, id) => { r.projectId = id; });
+const tagMatcher = namedMatcher('@', ctx => ctx.tags, (r, id) => { if (!r.tagIds.includes(id)) r.tagIds.push(id); });
+
+/**
+ * Parse quick-add text. Each kind of token is taken once (tags any number of times);
+ * text that isn't recognized stays in the task name.
+ */
+export function parseQuickAdd(input: string, context: QuickAddContext): QuickAddResult {
+  const ctx: Required<QuickAddContext> = { today: new Date(), ...context };
+  ctx.today = new Date(ctx.today);
+  ctx.today.setHours(0, 0, 0, 0);
+
+  const result: QuickAddResult = {
+    name: input,
+    dueDate: null,
+    scheduledTime: null,
+    duration: null,
+    projectId: null,
+    tagIds: [],
+    priority: null,
+    recurrence: null,
+    tokens: [],
+  };
+
+  // Matched ranges are blanked out so later matchers can't reuse them
+  let masked = input;
+  const take = (type: QuickAddTokenType, matcher: Matcher): boolean => {
+    const match = matcher(masked, ctx);
+    if (!match) return false;
+    match.apply(result);
+    result.tokens.push({ type, start: match.index, end: match.index + match.length, text: input.slice(match.index, match.index + match.length) });
+    masked = masked.slice(0, match.index) + ' '.repeat(match.length) + masked.slice(match.index + match.length);
+    return true;
+  };
+
+  // Recurrence first, so "every monday" isn't read as a plain date
+  take('recurrence', recurrenceMatcher);
+  take('project', projectMatcher);
+  while (take('tag', tagMatcher));
+  take('priority', priorityMatcher);
+  take('duration', durationMatcher);
+  take('time', timeMatcher);
+  dateMatchers.some(matcher => take('date', matcher));
+
+  // A recurring task without a date starts at its first occurrence
+  if (result.recurrence && !result.dueDate) {
+    result.dueDate = getFirstOccurrence(result.recurrence, ctx.today) ?? formatLocal(ctx.today);
+  }
+
+  result.tokens.sort((a, b) => a.start - b.start);
+  result.name = masked.replace(/\s+/g, ' ').trim();
+  return result;
+}
@@ -0,0 +1,273 @@
+// Recurrence rules - Todoist-style text like "every 2 weeks on Mon" stored as-is
+// on the task, parsed here to roll dates forward when the task is completed
+
+import { parseLocalDate } from './dates';
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: 'day' | 'week' | 'month' | 'year';
+  // Days of the week (0 = Sunday) for weekly rules
+  weekdays?: number[];
+  // Day of the month for monthly rules (-1 = last day)
+  monthDay?: number;
+  // e.g. { n: -1, weekday: 5 } = last Friday, for monthly rules
+  nthWeekday?: { n: number; weekday: number };
+  // Count from the completion date instead of the due date ("every!" / "after completion")
+  afterCompletion: boolean;
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ORDINAL_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+
+// Common rules for the editor's preset menu
+export const RECURRENCE_PRESETS = [
+  'every day',
+  'every weekday',
+  'every week',
+  'every 2 weeks',
+  'every month',
+  'every month on the last day',
+  'every year',
+];
+
+function parseWeekday(word: string): number | null {
+  const w = word.toLowerCase();
+  if (w.length < 2) return null;
+  const index = WEEKDAY_NAMES.findIndex(name => name.startsWith(w));
+  return index === -1 ? null : index;
+}
+
+// "mon, wed and fri" -> [1, 3, 5]
+function parseWeekdayList(text: string): number[] | null {
+  const words = text.split(/\s*(?:,|\band\b)\s*|\s+/).filter(Boolean);
+  const days = words.map(parseWeekday);
+  if (days.length === 0 || days.some(d => d === null)) return null;
+  return [...new Set(days as number[])].sort((a, b) => a - b);
+}
+
+// "15th" -> 15, "last day" -> -1
+function parseMonthDay(text: string): number | null {
+  if (text === 'last day') return -1;
+  const match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (!match) return null;
+  const day = Number(match[1]);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+// "last friday" / "2nd tue" -> { n, weekday }
+function parseNthWeekday(text: string): RecurrenceRule['nthWeekday'] | null {
+  const match = text.match(/^(first|second|third|fourth|last|[1-4](?:st|nd|rd|th))\s+(\w+)$/);
+  if (!match) return null;
+  const weekday = parseWeekday(match[2]);
+  if (weekday === null) return null;
+  const n = ORDINAL_WORDS[match[1]] ?? Number(match[1][0]);
+  return { n, weekday };
+}
+
+/**
+ * Parse recurrence text. Returns null if the text isn't understood.
+ */
+export function parseRecurrence(text: string | null | undefined): RecurrenceRule | null {
+  if (!text) return null;
+  let s = text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  let afterCompletion = false;
+  if (s.startsWith('every!')) {
+    afterCompletion = true;
+    s = 'every ' + s.slice('every!'.length).trim();
+  }
+  if (s.endsWith(' after completion')) {
+    afterCompletion = true;
+    s = s.slice(0, -' after completion'.length).trim();
+  }
+
+  // Shorthands
+  const shorthands: Record<string, string> = {
+    daily: 'every day',
+    weekly: 'every week',
+    monthly: 'every month',
+    yearly: 'every year',
+    annually: 'every year',
+  };
+  s = shorthands[s] ?? s;
+
+  if (!s.startsWith('every ')) return null;
+  s = s.slice('every '.length);
+
+  if (s === 'weekday' || s === 'workday') {
+    return { interval: 1, unit: 'week', weekdays: [1, 2, 3, 4, 5], afterCompletion };
+  }
+  if (s === 'weekend') {
+    return { interval: 1, unit: 'week', weekdays: [0, 6], afterCompletion };
+  }
+
+  // "every 2 weeks on mon", "every month on the last friday", "every 3 days"
+  const match = s.match(/^(?:(\d+|other) )?(day|week|month|year)s?(?: on (?:the )?(.+))?$/);
+  if (match) {
+    const interval = match[1] === 'other' ? 2 : Number(match[1] || 1);
+    const unit = match[2] as RecurrenceRule['unit'];
+    const detail = match[3];
+    if (interval < 1) return null;
+
+    if (!detail) return { interval, unit, afterCompletion };
+
+    if (unit === 'week') {
+      const weekdays = parseWeekdayList(detail);
+      return weekdays ? { interval, unit, weekdays, afterCompletion } : null;
+    }
+    if (unit === 'month') {
+      const monthDay = parseMonthDay(detail);
+      if (monthDay !== null) return { interval, unit, monthDay, afterCompletion };
+      const nthWeekday = parseNthWeekday(detail);
+      return nthWeekday ? { interval, unit, nthWeekday, afterCompletion } : null;
+    }
+    return null;
+  }
+
+  // "every mon, fri", "every 15th", "every last friday"
+  const weekdays = parseWeekdayList(s);
+  if (weekdays) return { interval: 1, unit: 'week', weekdays, afterCompletion };
+  const monthDay = parseMonthDay(s.replace(/^the /, ''));
+  if (monthDay !== null) return { interval: 1, unit: 'month', monthDay, afterCompletion };
+  const nthWeekday = parseNthWeekday(s.replace(/^the /, ''));
+  if (nthWeekday) return { interval: 1, unit: 'month', nthWeekday, afterCompletion };
+
+  return null;
+}
+
+// ============================================================================
+// DATE CALCULATION
+// ============================================================================
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Date in a month for a monthly rule (clamped, so "31st" is the last day in short months)
+function dayInMonth(rule: RecurrenceRule, year: number, month: number, fallbackDay: number): Date {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.nthWeekday) {
+    const { n, weekday } = rule.nthWeekday;
+    if (n === -1) {
+      const last = new Date(year, month, lastDay);
+      return addDays(last, -((last.getDay() - weekday + 7) % 7));
+    }
+    const first = new Date(year, month, 1);
+    const offset = (weekday - first.getDay() + 7) % 7;
+    return new Date(year, month, Math.min(1 + offset + (n - 1) * 7, lastDay));
+  }
+
+  const day = rule.monthDay === -1 ? lastDay : rule.monthDay ?? fallbackDay;
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+// First occurrence strictly after `from`
+function nextAfter(rule: RecurrenceRule, from: Date): Date {
+  switch (rule.unit) {
+    case 'day':
+      return addDays(from, rule.interval);
+
+    case 'week': {
+      if (!rule.weekdays?.length) return addDays(from, 7 * rule.interval);
+      // Only weeks that are a multiple of the interval away from `from`'s week count
+      const weekStart = addDays(from, -from.getDay());
+      for (let i = 1; i <= 7 * rule.interval + 7; i++) {
+        const candidate = addDays(from, i);
+        const weeksApart = Math.round((addDays(candidate, -candidate.getDay()).getTime() - weekStart.getTime()) / (7 * 86400000));
+        if (weeksApart % rule.interval === 0 && rule.weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * rule.interval);
+    }
+
+    case 'month': {
+      // The rule's day in this month may still be ahead of `from`
+      const hasFixedDay = rule.monthDay !== undefined || rule.nthWeekday !== undefined;
+      for (let offset = hasFixedDay ? 0 : rule.interval; ; offset += rule.interval) {
+        const month = from.getMonth() + offset;
+        const candidate = dayInMonth(rule, from.getFullYear() + Math.floor(month / 12), ((month % 12) + 12) % 12, from.getDate());
+        if (candidate > from) return candidate;
+      }
+    }
+
+    case 'year': {
+      const year = from.getFullYear() + rule.interval;
+      return new Date(year, from.getMonth(), Math.min(from.getDate(), daysInMonth(year, from.getMonth())));
+    }
+  }
+}
+
+/**
+ * Next due/start dates for a completed recurring task, or null if it doesn't recur.
+ * Occurrences missed while the task was overdue are skipped.
+ */
+export function getNextOccurrence(
+  task: { recurrence: string | null; dueDate: string | null; startDate: string | null },
+  completedOn: Date = new Date()
+): { dueDate: string | null; startDate: string | null } | null {
+  const rule = parseRecurrence(task.recurrence);
+  if (!rule) return null;
+
+  const today = new Date(completedOn);
+  today.setHours(0, 0, 0, 0);
+
+  const due = parseLocalDate(task.dueDate);
+  const start = parseLocalDate(task.startDate);
+  const anchor = rule.afterCompletion ? today : due ?? start ?? today;
+
+  let next = nextAfter(rule, anchor);
+  while (!rule.afterCompletion && next <= today) {
+    next = nextAfter(rule, next);
+  }
+
+  // Start-date-only tasks roll their start date; otherwise keep the gap between start and due
+  if (start && !due) return { dueDate: null, startDate: formatLocal(next) };
+  const leadDays = start && due ? Math.round((due.getTime() - start.getTime()) / 86400000) : null;
+  return {
+    dueDate: formatLocal(next),
+    startDate: leadDays !== null ? formatLocal(addDays(next, -leadDays)) : null,
+  };
+}
+
+/**
+ * First date on or after `from` that fits the rule, for a recurring task that
+ * has no date yet. Null if it doesn't recur.
+ */
+export function getFirstOccurrence(recurrence: string | null | undefined, from: Date = new Date()): string | null {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return null;
+
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+
+  if (rule.unit === 'week' && rule.weekdays?.length) {
+    for (let i = 0; i < 7; i++) {
+      const candidate = addDays(start, i);
+      if (rule.weekdays.includes(candidate.getDay())) return formatLocal(candidate);
+    }
+  }
+
+  // The rule's day in this month, or else in the next one
+  if (rule.unit === 'month' && (rule.monthDay !== undefined || rule.nthWeekday !== undefined)) {
+    const thisMonth = dayInMonth(rule, start.getFullYear(), start.getMonth(), start.getDate());
+    if (thisMonth >= start) return formatLocal(thisMonth);
+    const month = start.getMonth() + 1;
+    return formatLocal(dayInMonth(rule, start.getFullYear() + Math.floor(month / 12), month % 12, start.getDate()));
+  }
+
+  return formatLocal(start);
+}
+
+function formatLocal(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,225 @@
+// Inverted index over tasks, projects, sections and tags for the search box.
+// Runs inside the search worker (see workers/searchIndex.worker.ts); the
+// per-document term counts are persisted so a reload doesn't re-tokenize.
+
+import { formatDateForInput } from './dates';
+import {
+  tokenize,
+  normalizeText,
+  parseSearchQuery,
+  hasSearchText,
+  matchesSearchFilters,
+} from './searchQuery';
+import type { SearchContext } from './searchQuery';
+
+export type SearchDocKind = 'task' | 'project' | 'section' | 'tag';
+
+export interface SearchDoc extends SearchContext {
+  id: string;
+  kind: SearchDocKind;
+  title: string;
+  // Notes or description
+  body: string;
+  // For sections, the project to open
+  projectId: string | null;
+  updatedAt: number;
+}
+
+// What gets persisted per document
+export interface IndexedDoc {
+  key: string;
+  doc: SearchDoc;
+  // Weighted term counts (title words count triple)
+  terms: Record<string, number>;
+  signature: string;
+}
+
+// Text with the matched words marked, rendered without innerHTML
+export type HighlightSegment = { text: string; match: boolean };
+
+export interface SearchResult {
+  doc: SearchDoc;
+  score: number;
+  title: HighlightSegment[];
+  // Excerpt of the body around the first match
+  snippet: HighlightSegment[] | null;
+}
+
+// Messages between the app and the search worker
+export type SearchWorkerRequest =
+  | { type: 'index'; docs: SearchDoc[] }
+  | { type: 'search'; requestId: number; query: string; limit: number };
+
+export type SearchWorkerResponse = { type: 'results'; requestId: number; results: SearchResult[] };
+
+const TITLE_WEIGHT = 3;
+// Prefix matches ("meet" for "meeting") count for less than whole words
+const PREFIX_WEIGHT = 0.5;
+const SNIPPET_RADIUS = 60;
+const DAY = 24 * 60 * 60 * 1000;
+
+const docKey = (doc: SearchDoc) => `${doc.kind}:${doc.id}`;
+
+function indexDoc(doc: SearchDoc): IndexedDoc {
+  const terms: Record<string, number> = {};
+  for (const term of tokenize(doc.title)) terms[term] = (terms[term] ?? 0) + TITLE_WEIGHT;
+  for (const term of tokenize(doc.body)) terms[term] = (terms[term] ?? 0) + 1;
+  return { key: docKey(doc), doc, terms, signature: JSON.stringify(doc) };
+}
+
+// Recently changed records rank a little higher; done tasks rank lower
+function boost(doc: SearchDoc, now: number): number {
+  const ageDays = Math.max(0, now - doc.updatedAt) / DAY;
+  return (1 + 0.5 * Math.exp(-ageDays / 30)) * (doc.isDone ? 0.5 : 1);
+}
+
+const WORD = /[\p{L}\p{N}\p{M}]+/gu;
+
+const isMatch = (word: string, terms: string[]) => {
+  const normalized = normalizeText(word);
+  return terms.some(term => normalized.startsWith(term));
+};
+
+function highlight(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(WORD)) {
+    if (!isMatch(word[0], terms)) continue;
+    if (word.index > last) segments.push({ text: text.slice(last, word.index), match: false });
+    segments.push({ text: word[0], match: true });
+    last = word.index + word[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+function buildSnippet(body: string, terms: string[]): HighlightSegment[] | null {
+  const text = body.replace(/\s+/g, ' ').trim();
+  const first = [...text.matchAll(WORD)].find(word => isMatch(word[0], terms))?.index;
+  if (first === undefined) return null;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return highlight(excerpt, terms);
+}
+
+/**
+ * Index that takes the full document list on every update and only
+ * re-tokenizes documents that changed since the last one.
+ */
+export function createSearchIndex() {
+  const docs = new Map<string, IndexedDoc>();
+  // term -> document key -> weighted count
+  const postings = new Map<string, Map<string, number>>();
+
+  const addPostings = (entry: IndexedDoc) => {
+    for (const [term, count] of Object.entries(entry.terms)) {
+      if (!postings.has(term)) postings.set(term, new Map());
+      postings.get(term)!.set(entry.key, count);
+    }
+  };
+
+  const removePostings = (entry: IndexedDoc) => {
+    for (const term of Object.keys(entry.terms)) {
+      const docsWithTerm = postings.get(term);
+      docsWithTerm?.delete(entry.key);
+      if (docsWithTerm?.size === 0) postings.delete(term);
+    }
+  };
+
+  // Documents containing the term as a word or word prefix, with their weight
+  const lookup = (term: string): Map<string, number> => {
+    const matches = new Map(postings.get(term));
+    for (const [indexed, docsWithTerm] of postings) {
+      if (indexed === term || !indexed.startsWith(term)) continue;
+      for (const [key, count] of docsWithTerm) {
+        matches.set(key, Math.max(matches.get(key) ?? 0, count * PREFIX_WEIGHT));
+      }
+    }
+    return matches;
+  };
+
+  return {
+    /** Entries read back from storage */
+    load(entries: IndexedDoc[]) {
+      for (const entry of entries) {
+        docs.set(entry.key, entry);
+        addPostings(entry);
+      }
+    },
+
+    /** Replace the indexed documents. Returns what changed, for persisting. */
+    update(nextDocs: SearchDoc[]): { changed: IndexedDoc[]; removed: string[] } {
+      const changed: IndexedDoc[] = [];
+      const nextKeys = new Set<string>();
+
+      for (const doc of nextDocs) {
+        const key = docKey(doc);
+        nextKeys.add(key);
+        const existing = docs.get(key);
+        if (existing?.signature === JSON.stringify(doc)) continue;
+
+        if (existing) removePostings(existing);
+        const entry = indexDoc(doc);
+        docs.set(key, entry);
+        addPostings(entry);
+        changed.push(entry);
+      }
+
+      const removed = [...docs.keys()].filter(key => !nextKeys.has(key));
+      for (const key of removed) {
+        removePostings(docs.get(key)!);
+        docs.delete(key);
+      }
+      return { changed, removed };
+    },
+
+    search(input: string, limit: number, now = Date.now()): SearchResult[] {
+      const query = parseSearchQuery(input);
+      const today = formatDateForInput(new Date(now));
+      if (!hasSearchText(query) && query.filters.length === 0) return [];
+
+      // Every word has to match, including the words of each phrase
+      const required = [...new Set([...query.terms, ...query.phrases.flatMap(phrase => phrase.split(' '))])];
+      let scores = new Map<string, number>();
+      if (required.length > 0) {
+        required.forEach((term, i) => {
+          const matches = lookup(term);
+          const idf = Math.log(1 + docs.size / Math.max(matches.size, 1));
+          const next = new Map<string, number>();
+          for (const [key, count] of matches) {
+            if (i > 0 && !scores.has(key)) continue;
+            next.set(key, (scores.get(key) ?? 0) + count * idf);
+          }
+          scores = next;
+        });
+      } else {
+        // Operators only - every task is a candidate
+        for (const entry of docs.values()) if (entry.doc.kind === 'task') scores.set(entry.key, 1);
+      }
+
+      const results: SearchResult[] = [];
+      for (const [key, score] of scores) {
+        const { doc, terms } = docs.get(key)!;
+        // Operators describe tasks, so they rule out projects, sections and tags
+        if (query.filters.length > 0 && (doc.kind !== 'task' || !matchesSearchFilters(doc, query.filters, today))) continue;
+        if (query.excludedTerms.some(term => term in terms)) continue;
+
+        const text = tokenize(`${doc.title} ${doc.body}`).join(' ');
+        const padded = ` ${text} `;
+        if (!query.phrases.every(phrase => padded.includes(` ${phrase} `))) continue;
+        if (query.excludedPhrases.some(phrase => padded.includes(` ${phrase} `))) continue;
+
+        results.push({
+          doc,
+          score: score * boost(doc, now),
+          title: highlight(doc.title, required),
+          snippet: required.length > 0 ? buildSnippet(doc.body, required) : null,
+        });
+      }
+
+      return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,168 @@
+// Search query syntax - free text plus operators, e.g.
+//   report "quarterly review" project:Work tag:urgent -is:done due:<7d
+// Quoted text must appear as written; a leading "-" excludes matches.
+// #Project and @tag are shorthand for project: and tag:, as in quick add.
+
+import { addDaysToDate } from './dates';
+import type { StatusCategory } from '../types';
+
+export type SearchField = 'project' | 'section' | 'tag' | 'status' | 'due' | 'is';
+
+export interface SearchFilter {
+  field: SearchField;
+  value: string;
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  filters: SearchFilter[];
+}
+
+// The task fields the operators look at
+export interface SearchContext {
+  project: string | null;
+  section: string | null;
+  tags: string[];
+  status: string | null;
+  statusCategory: StatusCategory | null;
+  dueDate: string | null;
+  isDone: boolean;
+  isRecurring: boolean;
+  isSubtask: boolean;
+}
+
+const FIELDS: SearchField[] = ['project', 'section', 'tag', 'status', 'due', 'is'];
+const FIELD_SHORTHANDS: Record<string, SearchField> = { '#': 'project', '@': 'tag' };
+
+// Examples for the search box hint
+export const SEARCH_OPERATOR_HINTS = [
+  'project:Work',
+  'tag:urgent',
+  'status:done',
+  'due:<7d',
+  'is:overdue',
+  '"exact phrase"',
+  '-exclude',
+];
+
+/**
+ * Lowercase words with accents removed - shared by the index and the query
+ * so "Café" and "cafe" match
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+export function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [], filters: [] };
+  // -?  field:  "quoted" | word
+  const pattern = /(-?)(?:([a-z]+):|([#@]))?(?:"([^"]*)"?|(\S+))/gi;
+
+  for (const match of input.matchAll(pattern)) {
+    const [, minus, fieldName, shorthand, quoted, word] = match;
+    const negated = minus === '-';
+    const field = shorthand ? FIELD_SHORTHANDS[shorthand] : (fieldName?.toLowerCase() as SearchField | undefined);
+    const value = (quoted ?? word ?? '').trim();
+
+    if (field && FIELDS.includes(field)) {
+      if (value) query.filters.push({ field, value: value.toLowerCase(), negated });
+      continue;
+    }
+
+    // Unknown "field:" prefixes are just text (e.g. "re:" or a URL)
+    const text = fieldName && !shorthand ? `${fieldName}:${value}` : value;
+    if (quoted !== undefined) {
+      const phrase = tokenize(text).join(' ');
+      if (phrase) (negated ? query.excludedPhrases : query.phrases).push(phrase);
+    } else {
+      (negated ? query.excludedTerms : query.terms).push(...tokenize(text));
+    }
+  }
+
+  return query;
+}
+
+export function hasSearchText(query: SearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+// "7d", "2w", "1m" -> days
+function parseRelativeDays(value: string): number | null {
+  const match = value.match(/^(\d+)([dwm])$/);
+  if (!match) return null;
+  const unit = { d: 1, w: 7, m: 30 }[match[2] as 'd' | 'w' | 'm'];
+  return Number(match[1]) * unit;
+}
+
+// due:today, due:tomorrow, due:overdue, due:none, due:2024-05-01, due:<7d, due:>2024-05-01
+function matchesDue(dueDate: string | null, value: string, today: string): boolean {
+  if (value === 'none' || value === 'no') return !dueDate;
+  if (!dueDate) return false;
+  if (value === 'any') return true;
+  if (value === 'today') return dueDate === today;
+  if (value === 'tomorrow') return dueDate === addDaysToDate(today, 1);
+  if (value === 'overdue') return dueDate < today;
+
+  const comparison = value.match(/^([<>]=?)(.+)$/);
+  const operator = comparison?.[1] ?? '=';
+  const target = comparison?.[2] ?? value;
+  const days = parseRelativeDays(target);
+  const date = days !== null ? addDaysToDate(today, days) : /^\d{4}-\d{2}-\d{2}$/.test(target) ? target : null;
+  if (!date) return false;
+
+  switch (operator) {
+    case '<': return dueDate < date;
+    case '<=': return dueDate <= date;
+    case '>': return dueDate > date;
+    case '>=': return dueDate >= date;
+    default: return dueDate === date;
+  }
+}
+
+function matchesName(name: string | null, value: string): boolean {
+  if (value === 'none' || value === 'no') return !name;
+  return !!name && normalizeText(name).includes(normalizeText(value));
+}
+
+function matchesFilter(context: SearchContext, filter: SearchFilter, today: string): boolean {
+  switch (filter.field) {
+    case 'project':
+      return matchesName(context.project, filter.value);
+    case 'section':
+      return matchesName(context.section, filter.value);
+    case 'tag':
+      return filter.value === 'none' || filter.value === 'no'
+        ? context.tags.length === 0
+        : context.tags.some(tag => matchesName(tag, filter.value));
+    case 'status':
+      // A category ("done", "blocked") or part of the status label
+      return context.statusCategory === filter.value || matchesName(context.status, filter.value);
+    case 'due':
+      return matchesDue(context.dueDate, filter.value, today);
+    case 'is':
+      switch (filter.value) {
+        case 'overdue': return !context.isDone && !!context.dueDate && context.dueDate < today;
+        case 'done':
+        case 'completed': return context.isDone;
+        case 'open': return !context.isDone;
+        case 'recurring': return context.isRecurring;
+        case 'subtask': return context.isSubtask;
+        default: return false;
+      }
+  }
+}
+
+/**
+ * Whether a task passes every operator in the query. `today` is YYYY-MM-DD.
+ */
+export function matchesSearchFilters(context: SearchContext, filters: SearchFilter[], today: string): boolean {
+  return filters.every(filter => matchesFilter(context, filter, today) !== filter.negated);
+}
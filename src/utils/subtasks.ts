@@ -0,0 +1,87 @@
+// Subtask tree helpers - tasks link to their parent through parentTaskId
+
+import type { Task } from '../types';
+
+/**
+ * All subtasks of a task, at any depth, parents before their children
+ */
+export function getDescendants(tasks: Task[], taskId: string): Task[] {
+  const result: Task[] = [];
+  const seen = new Set([taskId]);
+  let level = [taskId];
+  while (level.length > 0) {
+    const children = tasks.filter(t => t.parentTaskId && level.includes(t.parentTaskId) && !seen.has(t.id));
+    children.forEach(t => seen.add(t.id));
+    result.push(...children);
+    level = children.map(t => t.id);
+  }
+  return result;
+}
+
+/**
+ * The given tasks plus all their subtasks, each task once
+ */
+export function withDescendants(tasks: Task[], taskIds: string[]): Task[] {
+  const result = new Map<string, Task>();
+  for (const task of tasks.filter(t => taskIds.includes(t.id))) {
+    result.set(task.id, task);
+    for (const child of getDescendants(tasks, task.id)) result.set(child.id, child);
+  }
+  return [...result.values()];
+}
+
+/**
+ * Parents left with no open subtasks once `completedIds` are done, walking up
+ * the tree so a grandparent can follow its parent
+ */
+export function getParentsToAutoComplete(
+  tasks: Task[],
+  completedIds: string[],
+  isDone: (task: Task) => boolean
+): string[] {
+  const done = new Set(completedIds);
+  const result: string[] = [];
+  let level = completedIds;
+  while (level.length > 0) {
+    const parentIds = new Set(
+      tasks.filter(t => level.includes(t.id) && t.parentTaskId).map(t => t.parentTaskId as string)
+    );
+    const completed = tasks.filter(parent =>
+      parentIds.has(parent.id) &&
+      !done.has(parent.id) &&
+      !isDone(parent) &&
+      tasks.filter(t => t.parentTaskId === parent.id).every(t => done.has(t.id) || isDone(t))
+    );
+    completed.forEach(parent => { done.add(parent.id); result.push(parent.id); });
+    level = completed.map(parent => parent.id);
+  }
+  return result;
+}
+
+/**
+ * Changes that carry a parent's new project or section over to all its
+ * subtasks. Subtasks already in `changes` keep their own update.
+ */
+export function withMovedSubtasks(
+  tasks: Task[],
+  changes: { id: string; updates: Partial<Task> }[]
+): { id: string; updates: Partial<Task> }[] {
+  const changedIds = new Set(changes.map(c => c.id));
+  const extra: { id: string; updates: Partial<Task> }[] = [];
+  for (const { id, updates } of changes) {
+    const task = tasks.find(t => t.id === id);
+    if (!task || !('projectId' in updates || 'sectionId' in updates)) continue;
+    const next = { ...task, ...updates };
+    if (next.projectId === task.projectId && next.sectionId === task.sectionId) continue;
+
+    for (const child of getDescendants(tasks, id)) {
+      if (changedIds.has(child.id)) continue;
+      changedIds.add(child.id);
+      const move: Partial<Task> = {};
+      if (child.projectId !== next.projectId) move.projectId = next.projectId;
+      if (child.sectionId !== next.sectionId) move.sectionId = next.sectionId;
+      if (Object.keys(move).length > 0) extra.push({ id: child.id, updates: move });
+    }
+  }
+  return [...changes, ...extra];
+}
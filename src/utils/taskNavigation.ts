@@ -0,0 +1,18 @@
+// Keyboard navigation and range selection follow the on-screen order of task
+// rows, which TaskItem marks with data-task-id
+
+export function getRenderedTaskIds(): string[] {
+  return Array.from(document.querySelectorAll<HTMLElement>('[data-task-id]'))
+    .map(el => el.dataset.taskId as string);
+}
+
+/**
+ * Ids from `fromId` to `toId` inclusive, in either direction.
+ * Falls back to just `toId` when the anchor isn't on screen.
+ */
+export function getTaskIdRange(ids: string[], fromId: string | null, toId: string): string[] {
+  const from = fromId ? ids.indexOf(fromId) : -1;
+  const to = ids.indexOf(toId);
+  if (from === -1 || to === -1) return [toId];
+  return ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
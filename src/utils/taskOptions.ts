@@ -0,0 +1,101 @@
+// Task status/priority helpers
+// Choices come from the base schema, so views ask these helpers what a status
+// means instead of comparing against hard-coded strings
+
+import { DEFAULT_TASK_OPTIONS, PRIORITY_OPTIONS } from './constants';
+import type { StatusCategory, StatusOption, PriorityOption, TaskOptions } from '../types';
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  todo: 'To do',
+  active: 'Active',
+  blocked: 'Blocked',
+  done: 'Done',
+};
+
+// Colors by rank, most important first
+const PRIORITY_RANK_COLORS = ['#dc2626', '#f59e0b', '#6b7280', '#3b82f6'];
+
+/**
+ * Best guess at a category for a status name the user hasn't configured yet
+ */
+export function inferStatusCategory(status: string): StatusCategory {
+  const name = status.toLowerCase();
+  if (/done|complete|finished|closed|✅/.test(name)) return 'done';
+  if (/block|wait|hold|stuck|⏸|🚫/.test(name)) return 'blocked';
+  if (/progress|doing|active|review|started|🔄/.test(name)) return 'active';
+  return 'todo';
+}
+
+/**
+ * Build options from schema choices (in Airtable's order), keeping categories
+ * the user already assigned to statuses that still exist
+ */
+export function buildTaskOptions(
+  choices: { statuses: string[]; priorities: string[] },
+  previous: TaskOptions = DEFAULT_TASK_OPTIONS
+): TaskOptions {
+  const statuses: StatusOption[] = choices.statuses.map(value => ({
+    value,
+    label: value,
+    category: previous.statuses.find(s => s.value === value)?.category ?? inferStatusCategory(value),
+  }));
+
+  const priorities: PriorityOption[] = choices.priorities.map((value, index) => {
+    const known = PRIORITY_OPTIONS.find(p => p.value === value);
+    if (known) return known;
+    // Airtable lists the most important choice first
+    return {
+      value,
+      label: value,
+      color: PRIORITY_RANK_COLORS[Math.min(index, PRIORITY_RANK_COLORS.length - 1)],
+      level: choices.priorities.length - index,
+    };
+  });
+
+  return { statuses, priorities, fetchedAt: Date.now() };
+}
+
+export function getStatusCategory(options: TaskOptions, status: string | null | undefined): StatusCategory {
+  if (!status) return 'todo';
+  return options.statuses.find(s => s.value === status)?.category ?? inferStatusCategory(status);
+}
+
+export function isDoneStatus(options: TaskOptions, status: string | null | undefined): boolean {
+  return getStatusCategory(options, status) === 'done';
+}
+
+/**
+ * Status to set when completing a task
+ */
+export function getDoneStatus(options: TaskOptions): string {
+  return options.statuses.find(s => s.category === 'done')?.value ?? '✅ Done';
+}
+
+/**
+ * Status for newly created tasks
+ */
+export function getDefaultStatus(options: TaskOptions): string {
+  return options.statuses.find(s => s.category === 'todo')?.value ?? options.statuses[0]?.value ?? '📥 Inbox';
+}
+
+/**
+ * Status for un-completing a task - the last to-do status, so "To Do" rather than "Inbox"
+ */
+export function getReopenStatus(options: TaskOptions): string {
+  const todo = options.statuses.filter(s => s.category === 'todo');
+  return todo[todo.length - 1]?.value ?? getDefaultStatus(options);
+}
+
+export function getPriorityConfig(options: TaskOptions, priority: string | null | undefined): PriorityOption | null {
+  return options.priorities.find(p => p.value === priority) || null;
+}
+
+/**
+ * High priority = one of the two most important levels
+ */
+export function isHighPriority(options: TaskOptions, priority: string | null | undefined): boolean {
+  const config = getPriorityConfig(options, priority);
+  if (!config) return false;
+  const maxLevel = Math.max(...options.priorities.map(p => p.level));
+  return config.level >= maxLevel - 1;
+}
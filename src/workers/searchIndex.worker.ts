@@ -0,0 +1,36 @@
+// Search worker - keeps the index off the main thread so typing stays smooth
+// with thousands of tasks. The app posts the full document list whenever its
+// data changes; only documents that changed are re-indexed and persisted.
+
+import { createSearchIndex } from '../utils/searchIndex';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../utils/searchIndex';
+import { getSearchIndexEntries, saveSearchIndexEntries } from '../db';
+
+const index = createSearchIndex();
+
+// Start from the persisted index; messages wait until it's loaded
+let ready: Promise<void> = getSearchIndexEntries()
+  .then(entries => index.load(entries))
+  .catch(error => console.warn('[Search] Failed to load the saved index:', error));
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  ready = ready.then(() => {
+    if (request.type === 'index') {
+      const { changed, removed } = index.update(request.docs);
+      // Not awaited, so searches don't queue behind the write
+      if (changed.length > 0 || removed.length > 0) {
+        saveSearchIndexEntries(changed, removed).catch(error =>
+          console.warn('[Search] Failed to save the index:', error)
+        );
+      }
+    } else {
+      const response: SearchWorkerResponse = {
+        type: 'results',
+        requestId: request.requestId,
+        results: index.search(request.query, request.limit),
+      };
+      self.postMessage(response);
+    }
+  });
+};